@@ -1,11 +1,16 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateSchemaForUrl } from './services/geminiService';
+import { generateSchemaForPage } from './services/geminiService';
+import { parseJsonLdDocuments } from './services/structuredDataExtractor';
 import { UrlInputForm } from './components/UrlInputForm';
+import { BatchPanel } from './components/BatchPanel';
 import { SchemaDisplay } from './components/SchemaDisplay';
 import { FeedbackModal } from './components/FeedbackModal';
 import { ProfileManager } from './components/ProfileManager';
-import { WebsiteProfile } from './services/websiteProfileService';
-import { SparklesIcon, ErrorIcon, ChatBubbleIcon, UserIcon } from './components/Icons';
+import { ActiveProfileBadge } from './components/ActiveProfileBadge';
+import WebsiteProfileService, { ProfileMatch, WebsiteProfile } from './services/websiteProfileService';
+import { PageClassification, PageType } from './services/pageTypeService';
+import { PageInput, SchemaObject } from './types';
+import { SparklesIcon, ErrorIcon, ChatBubbleIcon, UserIcon, ListIcon } from './components/Icons';
 
 // Development-only logging utility
 const devLog = (...args: any[]) => {
@@ -20,11 +25,6 @@ const devError = (...args: any[]) => {
   }
 };
 
-interface SchemaObject {
-  type: string;
-  schema: string;
-}
-
 export interface FeedbackData {
   type: 'Bug Report' | 'Feature Request' | 'General';
   message: string;
@@ -36,14 +36,29 @@ export interface FeedbackData {
 const App: React.FC = () => {
   const [url, setUrl] = useState<string>('');
   const [schemas, setSchemas] = useState<SchemaObject[]>([]);
+  const [classification, setClassification] = useState<PageClassification | null>(null);
+  const lastInputRef = useRef<PageInput | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const isCancelledRef = useRef<boolean>(false);
+  // The single-page form, submitted by the Ctrl/Cmd + Enter shortcut
+  const inputFormRef = useRef<HTMLFormElement>(null);
   const [isFeedbackModalOpen, setIsFeedbackModalOpen] = useState(false);
   const [isProfileManagerOpen, setIsProfileManagerOpen] = useState(false);
+  // undefined matches a profile to each URL automatically, null generates without one
+  const [profileOverride, setProfileOverride] = useState<WebsiteProfile | null | undefined>(undefined);
+  const [profileMatch, setProfileMatch] = useState<ProfileMatch | null>(null);
+  const [workMode, setWorkMode] = useState<'single' | 'batch'>('single');
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleGenerateSchema = useCallback(async (inputUrl: string) => {
+  const handleGenerateSchema = useCallback(async (
+    input: PageInput,
+    options: { existingOnly?: boolean; pageTypeOverride?: PageType[]; profile?: WebsiteProfile | null } = {}
+  ) => {
+    const { existingOnly = false, pageTypeOverride } = options;
+    // A profile passed explicitly wins over the current override, even undefined (automatic matching)
+    const profile = 'profile' in options ? options.profile : profileOverride;
+    const inputUrl = input.kind === 'url' ? input.url : input.baseUrl;
     if (!inputUrl) {
       setError('Please enter a URL.');
       return;
@@ -57,13 +72,22 @@ const App: React.FC = () => {
     // Create new AbortController for this request
     abortControllerRef.current = new AbortController();
     isCancelledRef.current = false; // Reset for new request
+    lastInputRef.current = input;
     setUrl(inputUrl);
     setIsLoading(true);
     setError(null);
     setSchemas([]);
+    setClassification(null);
+    setProfileMatch(null);
 
     try {
-      const result = await generateSchemaForUrl(inputUrl, abortControllerRef.current.signal);
+      const result = await generateSchemaForPage(input, abortControllerRef.current.signal, {
+        existingOnly,
+        pageTypeOverride,
+        onClassification: setClassification,
+        profile,
+        onProfileMatch: setProfileMatch
+      });
       
       if (isCancelledRef.current) {
         devLog("Operation was cancelled. Discarding result.");
@@ -113,6 +137,8 @@ const App: React.FC = () => {
           }
         });
         setSchemas(prettySchemas);
+      } else if (existingOnly && Array.isArray(parsedResult)) {
+        setError("No existing structured data (JSON-LD, Microdata or RDFa) was found on this page.");
       } else {
         setError("Response was in an unexpected format or no schemas were found. Please try again.");
       }
@@ -128,11 +154,51 @@ const App: React.FC = () => {
       setIsLoading(false);
       abortControllerRef.current = null;
     }
-  }, []); // Empty dependency array is correct since we're not using any external dependencies
+  }, [profileOverride]);
+
+  const handleCheckExisting = (input: PageInput) => {
+    handleGenerateSchema(input, { existingOnly: true });
+  };
+
+  // Regenerates the last page with the page types chosen by the user
+  const handlePageTypeOverride = (pageTypes: PageType[]) => {
+    if (lastInputRef.current) {
+      handleGenerateSchema(lastInputRef.current, { pageTypeOverride: pageTypes });
+    }
+  };
+
+  // Validate-only: show user-supplied JSON-LD documents without fetching or generating anything
+  const handleValidateJsonLd = (documents: string[]) => {
+    const imported = documents.flatMap(document => parseJsonLdDocuments(document));
+    setError(null);
+    setClassification(null);
+    setProfileMatch(null);
+    setSchemas(imported);
+    if (imported.length === 0) {
+      setError("No JSON-LD objects were found in the supplied input.");
+    }
+  };
+
+  const handleViewBatchResult = (resultUrl: string, resultSchemas: SchemaObject[]) => {
+    // A page still generating would replace the batch result when it finishes
+    isCancelledRef.current = true;
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+    setIsLoading(false);
+    // Regenerating (page type or profile changes) now applies to the batch result's page
+    lastInputRef.current = { kind: 'url', url: resultUrl };
+    setUrl(resultUrl);
+    setError(null);
+    setClassification(null);
+    // The profile the batch generated and summarised the page with, so its rule set applies here too
+    setProfileMatch(WebsiteProfileService.findProfileForUrl(resultUrl));
+    setSchemas(resultSchemas);
+  };
 
   const handleExample = () => {
     const exampleUrl = 'https://example.com/';
-    handleGenerateSchema(exampleUrl);
+    handleGenerateSchema({ kind: 'url', url: exampleUrl });
   };
   
   const handleCancel = useCallback(() => {
@@ -155,8 +221,16 @@ const App: React.FC = () => {
 
   const handleProfileSelect = (profile: WebsiteProfile) => {
     devLog("Profile selected:", profile);
-    // You could store the selected profile in state if needed for schema generation
     setIsProfileManagerOpen(false);
+    handleProfileOverride(profile);
+  };
+
+  // Uses a different profile (or none, or automatic matching) from now on and regenerates the current page with it
+  const handleProfileOverride = (profile: WebsiteProfile | null | undefined) => {
+    setProfileOverride(profile);
+    if (lastInputRef.current && !isLoading && schemas.some(schema => schema.source === 'generated')) {
+      handleGenerateSchema(lastInputRef.current, { profile });
+    }
   };
 
   // Cleanup on unmount
@@ -177,11 +251,11 @@ const App: React.FC = () => {
         return;
       }
       
-      // Ctrl/Cmd + Enter to generate schema
+      // Ctrl/Cmd + Enter submits the form, so the current input mode (URL, HTML or JSON-LD) is used
       if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
         event.preventDefault();
-        if (!isLoading && url) {
-          handleGenerateSchema(url);
+        if (!isLoading && workMode === 'single') {
+          inputFormRef.current?.requestSubmit();
         }
       }
       
@@ -203,7 +277,7 @@ const App: React.FC = () => {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isLoading, url, isFeedbackModalOpen, handleGenerateSchema, handleCancel]);
+  }, [isLoading, workMode, isFeedbackModalOpen, handleCancel]);
 
 
   return (
@@ -248,17 +322,61 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        <div className="flex justify-center mb-4">
+          <div className="inline-flex bg-white/80 rounded-full border border-slate-200 p-1 shadow-sm" role="tablist" aria-label="Single page or batch">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={workMode === 'single'}
+              onClick={() => setWorkMode('single')}
+              className={`inline-flex items-center gap-1.5 px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${
+                workMode === 'single' ? 'bg-slate-800 text-white' : 'text-slate-600 hover:text-slate-800'
+              }`}
+            >
+              <SparklesIcon className="w-4 h-4" />
+              Single Page
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={workMode === 'batch'}
+              onClick={() => setWorkMode('batch')}
+              className={`inline-flex items-center gap-1.5 px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${
+                workMode === 'batch' ? 'bg-slate-800 text-white' : 'text-slate-600 hover:text-slate-800'
+              }`}
+            >
+              <ListIcon className="w-4 h-4" />
+              Batch
+            </button>
+          </div>
+        </div>
+
         {/* Modern Form Card */}
-        <div className="bg-white/70 backdrop-blur-xl rounded-2xl shadow-xl border border-white/20 p-6 md:p-8 mb-8">
+        <div className={`bg-white/70 backdrop-blur-xl rounded-2xl shadow-xl border border-white/20 p-6 md:p-8 mb-8 ${workMode === 'single' ? '' : 'hidden'}`}>
+          <ActiveProfileBadge
+            match={profileMatch}
+            isAutomatic={profileOverride === undefined}
+            onChange={() => setIsProfileManagerOpen(true)}
+            onClear={() => handleProfileOverride(null)}
+            onAutomatic={() => handleProfileOverride(undefined)}
+          />
           <UrlInputForm 
             onGenerate={handleGenerateSchema} 
+            onCheckExisting={handleCheckExisting}
+            onValidateJsonLd={handleValidateJsonLd}
             isLoading={isLoading} 
             onExample={handleExample} 
             onCancel={handleCancel}
             onUrlChange={setUrl}
+            formRef={inputFormRef}
           />
         </div>
 
+        {/* Batch runs keep going while the single-page form is shown, so the panel stays mounted */}
+        <div className={`bg-white/70 backdrop-blur-xl rounded-2xl shadow-xl border border-white/20 p-6 md:p-8 mb-8 ${workMode === 'batch' ? '' : 'hidden'}`}>
+          <BatchPanel onViewResult={handleViewBatchResult} />
+        </div>
+
         {error && (
           <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 p-6 rounded-2xl flex items-start gap-4 transition-opacity duration-300 text-sm mb-8 shadow-lg backdrop-blur-sm">
             <div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center flex-shrink-0">
@@ -305,10 +423,17 @@ const App: React.FC = () => {
         )}
 
         {schemas.length > 0 && !isLoading && (
-          <SchemaDisplay schemas={schemas} />
+          <SchemaDisplay
+            schemas={schemas}
+            classification={classification}
+            onPageTypeOverride={handlePageTypeOverride}
+            pageUrl={url}
+            idPolicy={profileMatch?.profile.idPolicy}
+            validationRules={profileMatch?.profile.validationRules}
+          />
         )}
         
-        {!isLoading && schemas.length === 0 && !error && (
+        {!isLoading && schemas.length === 0 && !error && workMode === 'single' && (
             <div className="text-center mt-8 flex-grow flex flex-col justify-center items-center">
                 <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-8 shadow-xl border border-white/20 max-w-3xl">
                     <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full flex items-center justify-center mx-auto mb-6 shadow-lg">
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ProfileMatch, ProfileMatchReason } from '../services/websiteProfileService';
+import { BuildingIcon, XIcon } from './Icons';
+
+interface ActiveProfileBadgeProps {
+  // Profile applied to the last generation, or null when none was
+  match: ProfileMatch | null;
+  // True when profiles are looked up from the URL rather than chosen by the user
+  isAutomatic: boolean;
+  onChange: () => void;
+  onClear: () => void;
+  onAutomatic: () => void;
+}
+
+const REASON_LABELS: Record<ProfileMatchReason, string> = {
+  manual: 'chosen manually',
+  url: 'matched to the URL',
+  default: 'default profile'
+};
+
+export const ActiveProfileBadge: React.FC<ActiveProfileBadgeProps> = ({ match, isAutomatic, onChange, onClear, onAutomatic }) => {
+  const linkClassName = 'text-xs font-semibold text-slate-600 hover:text-slate-800 hover:underline';
+
+  if (!match) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs text-slate-500">
+        <span>
+          {isAutomatic
+            ? 'The website profile matching the URL is applied automatically.'
+            : 'No website profile: publisher and author details are taken from the page itself.'}
+        </span>
+        <button onClick={onChange} className="font-semibold text-blue-600 hover:text-blue-800 hover:underline">
+          Choose a profile
+        </button>
+        {!isAutomatic && <button onClick={onAutomatic} className={linkClassName}>Match automatically</button>}
+      </div>
+    );
+  }
+
+  const { profile, reason } = match;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+      <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full border border-blue-200 bg-blue-50 text-blue-800">
+        <BuildingIcon className="w-4 h-4" />
+        <span>
+          Profile: <span className="font-semibold">{profile.organization?.name || profile.name}</span>
+          <span className="text-blue-600"> · {REASON_LABELS[reason]}</span>
+          {profile.author?.name && <span className="text-blue-600"> · author {profile.author.name}</span>}
+        </span>
+        <button onClick={onClear} className="text-blue-500 hover:text-blue-800" aria-label="Generate without a profile" title="Generate without a profile">
+          <XIcon className="w-3.5 h-3.5" />
+        </button>
+      </span>
+      <button onClick={onChange} className={linkClassName}>Switch profile</button>
+      {!isAutomatic && <button onClick={onAutomatic} className={linkClassName}>Match automatically</button>}
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BatchItem, BatchItemStatus, BatchQueue, DEFAULT_BATCH_OPTIONS, parseUrlList } from '../services/batchService';
+import { SchemaObject } from '../types';
+import { SitemapImport } from './SitemapImport';
+import { CrawlPanel } from './CrawlPanel';
+import { SparklesIcon, StopIcon, RetryIcon, UploadIcon, SortIcon, TrashIcon } from './Icons';
+
+interface BatchPanelProps {
+  onViewResult: (url: string, schemas: SchemaObject[]) => void;
+}
+
+type SortKey = 'url' | 'status' | 'types' | 'averageScore' | 'errorCount' | 'warningCount';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'url', label: 'URL' },
+  { key: 'status', label: 'Status' },
+  { key: 'types', label: 'Schema Types' },
+  { key: 'averageScore', label: 'Score' },
+  { key: 'errorCount', label: 'Errors' },
+  { key: 'warningCount', label: 'Warnings' }
+];
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  running: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-yellow-100 text-yellow-700'
+};
+
+// Order used when sorting by status: things needing attention first
+const STATUS_ORDER: Record<BatchItemStatus, number> = { failed: 0, running: 1, queued: 2, cancelled: 3, done: 4 };
+
+const getSortValue = (item: BatchItem, key: SortKey): string | number => {
+  switch (key) {
+    case 'status':
+      return STATUS_ORDER[item.status];
+    case 'types':
+      return item.types.join(', ');
+    case 'averageScore':
+      return item.averageScore ?? -1;
+    default:
+      return item[key];
+  }
+};
+
+const getScoreColor = (score: number): string => {
+  if (score >= 90) return 'text-green-600';
+  if (score >= 70) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ onViewResult }) => {
+  const queueRef = useRef<BatchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = new BatchQueue();
+  }
+  const queue = queueRef.current;
+
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [urlText, setUrlText] = useState<string>('');
+  const [inputError, setInputError] = useState<string>('');
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_OPTIONS.concurrency);
+  const [perHostDelaySeconds, setPerHostDelaySeconds] = useState<number>(DEFAULT_BATCH_OPTIONS.perHostDelayMs / 1000);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'url', ascending: true });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = queue.subscribe(setItems);
+    return () => {
+      unsubscribe();
+      queue.clear();
+    };
+  }, [queue]);
+
+  useEffect(() => {
+    queue.setOptions({ concurrency, perHostDelayMs: perHostDelaySeconds * 1000 });
+  }, [queue, concurrency, perHostDelaySeconds]);
+
+  const sortedItems = useMemo(() => {
+    return [...items].sort((a, b) => {
+      const left = getSortValue(a, sort.key);
+      const right = getSortValue(b, sort.key);
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+      return sort.ascending ? order : -order;
+    });
+  }, [items, sort]);
+
+  const progress = useMemo(() => {
+    const finished = items.filter(item => ['done', 'failed', 'cancelled'].includes(item.status)).length;
+    return {
+      finished,
+      failed: items.filter(item => item.status === 'failed').length,
+      active: items.some(item => item.status === 'queued' || item.status === 'running'),
+      percent: items.length > 0 ? Math.round((finished / items.length) * 100) : 0
+    };
+  }, [items]);
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    const urls = parseUrlList(urlText);
+    if (urls.length === 0) {
+      setInputError('No valid http(s) URLs were found. Paste one URL per line or a CSV with a "url" column.');
+      return;
+    }
+    setInputError('');
+    queue.add(urls);
+    setUrlText('');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUrlText(await file.text());
+    setInputError('');
+  };
+
+  const handleSort = (key: SortKey) => {
+    setSort(previous => ({ key, ascending: previous.key === key ? !previous.ascending : true }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleStart} className="space-y-4">
+        <div className="text-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 mb-2">Batch Generation</h2>
+          <p className="text-slate-600 text-sm">Paste a list of URLs (one per line) or load a CSV export</p>
+        </div>
+
+        <textarea
+          value={urlText}
+          onChange={(e) => {
+            setUrlText(e.target.value);
+            if (inputError) setInputError('');
+          }}
+          rows={6}
+          placeholder={'https://example.com/\nhttps://example.com/products/widget'}
+          className={`w-full bg-white/90 border-2 rounded-xl px-4 py-3 text-slate-900 text-sm font-mono focus:outline-none shadow-lg ${
+            inputError ? 'border-red-400' : 'border-slate-200 focus:border-blue-400'
+          }`}
+          aria-label="URLs to process"
+        />
+
+        {inputError && (
+          <div className="flex items-center gap-1.5 text-red-600 font-medium text-sm">
+            <div className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center">
+              <span className="text-red-600 text-xs">!</span>
+            </div>
+            {inputError}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="text-sm text-slate-700">
+            <span className="block font-medium mb-1">Parallel pages</span>
+            <input
+              type="number"
+              min={1}
+              max={16}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(16, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-24 bg-white/90 border border-slate-200 rounded-lg px-3 py-2"
+            />
+          </label>
+          <label className="text-sm text-slate-700">
+            <span className="block font-medium mb-1">Delay per host (s)</span>
+            <input
+              type="number"
+              min={0}
+              max={60}
+              step={0.5}
+              value={perHostDelaySeconds}
+              onChange={(e) => setPerHostDelaySeconds(Math.min(60, Math.max(0, Number(e.target.value) || 0)))}
+              className="w-24 bg-white/90 border border-slate-200 rounded-lg px-3 py-2"
+            />
+          </label>
+
+          <div className="flex flex-wrap gap-2 ml-auto">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex items-center gap-1.5 text-slate-600 hover:text-slate-800 font-medium bg-white/50 hover:bg-white/80 px-4 py-2 rounded-full border border-slate-200 shadow-sm text-sm"
+            >
+              <UploadIcon className="w-4 h-4" />
+              Load CSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-bold py-2 px-5 rounded-xl shadow-lg text-sm"
+            >
+              <SparklesIcon className="w-4 h-4" />
+              Add to Queue
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <SitemapImport onAddUrls={(urls) => queue.add(urls)} />
+
+      <CrawlPanel onAddUrls={(urls) => queue.add(urls)} />
+
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-slate-700">
+              <strong>{progress.finished}</strong> of <strong>{items.length}</strong> processed
+              {progress.failed > 0 && <span className="text-red-600"> · {progress.failed} failed</span>}
+            </p>
+            <div className="flex gap-2">
+              {progress.active && (
+                <button
+                  type="button"
+                  onClick={() => queue.cancelAll()}
+                  className="inline-flex items-center gap-1.5 text-red-600 hover:text-red-700 font-medium bg-white/50 hover:bg-white/80 px-3 py-1.5 rounded-full border border-red-200 text-sm"
+                >
+                  <StopIcon className="w-3.5 h-3.5" />
+                  Cancel All
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => queue.clear()}
+                className="inline-flex items-center gap-1.5 text-slate-600 hover:text-slate-800 font-medium bg-white/50 hover:bg-white/80 px-3 py-1.5 rounded-full border border-slate-200 text-sm"
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <div className="w-full bg-slate-200 rounded-full h-2" role="progressbar" aria-valuenow={progress.percent} aria-valuemin={0} aria-valuemax={100}>
+            <div className="bg-gradient-to-r from-blue-600 to-indigo-600 h-2 rounded-full transition-all duration-300" style={{ width: `${progress.percent}%` }} />
+          </div>
+
+          <div className="overflow-x-auto bg-white/90 border border-slate-200 rounded-xl shadow-sm">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  {COLUMNS.map(column => (
+                    <th key={column.key} className="text-left font-semibold px-3 py-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => handleSort(column.key)}
+                        className="inline-flex items-center gap-1 hover:text-slate-900"
+                        aria-sort={sort.key === column.key ? (sort.ascending ? 'ascending' : 'descending') : undefined}
+                      >
+                        {column.label}
+                        <SortIcon className={`w-3 h-3 ${sort.key === column.key ? 'text-blue-600' : 'text-slate-400'}`} />
+                      </button>
+                    </th>
+                  ))}
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedItems.map(item => (
+                  <tr key={item.id} className="border-t border-slate-100 align-top">
+                    <td className="px-3 py-2 font-mono text-xs break-all max-w-xs">
+                      {item.url}
+                      {item.error && <p className="text-red-600 font-sans mt-1">{item.error}</p>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`text-xs px-2 py-1 rounded-full font-semibold ${STATUS_STYLES[item.status]}`}>
+                        {item.status}
+                        {item.attempts > 1 && ` (#${item.attempts})`}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">{item.types.join(', ') || '—'}</td>
+                    <td className="px-3 py-2 font-semibold">
+                      {item.averageScore !== undefined ? (
+                        <span className={getScoreColor(item.averageScore)} title={`Lowest: ${item.lowestScore}`}>
+                          {item.averageScore}
+                        </span>
+                      ) : '—'}
+                    </td>
+                    <td className={`px-3 py-2 ${item.errorCount > 0 ? 'text-red-600 font-semibold' : 'text-slate-600'}`}>{item.errorCount}</td>
+                    <td className={`px-3 py-2 ${item.warningCount > 0 ? 'text-yellow-600 font-semibold' : 'text-slate-600'}`}>{item.warningCount}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-right">
+                      {item.status === 'done' && (
+                        <button
+                          type="button"
+                          onClick={() => onViewResult(item.url, item.schemas)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          View
+                        </button>
+                      )}
+                      {(item.status === 'failed' || item.status === 'cancelled') && (
+                        <button
+                          type="button"
+                          onClick={() => queue.retry(item.id)}
+                          className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          <RetryIcon className="w-3.5 h-3.5" />
+                          Retry
+                        </button>
+                      )}
+                      {(item.status === 'queued' || item.status === 'running') && (
+                        <button
+                          type="button"
+                          onClick={() => queue.cancel(item.id)}
+                          className="text-red-600 hover:text-red-800 font-medium"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CrawledPage, CrawledPageStatus, CrawlResult, DEFAULT_CRAWL_OPTIONS, crawlSite } from '../services/crawlerService';
+import { GlobeIcon, StopIcon } from './Icons';
+
+interface CrawlPanelProps {
+  onAddUrls: (urls: string[]) => void;
+}
+
+const STATUS_STYLES: Record<CrawledPageStatus, { label: string; className: string }> = {
+  indexed: { label: 'Indexable', className: 'text-green-700' },
+  noindex: { label: 'noindex', className: 'text-yellow-700' },
+  blocked: { label: 'robots.txt', className: 'text-slate-500' },
+  duplicate: { label: 'Duplicate', className: 'text-slate-500' },
+  failed: { label: 'Failed', className: 'text-red-600' }
+};
+
+export const CrawlPanel: React.FC<CrawlPanelProps> = ({ onAddUrls }) => {
+  const [seedUrl, setSeedUrl] = useState<string>('');
+  const [maxDepth, setMaxDepth] = useState<number>(DEFAULT_CRAWL_OPTIONS.maxDepth);
+  const [maxPages, setMaxPages] = useState<number>(DEFAULT_CRAWL_OPTIONS.maxPages);
+  const [isCrawling, setIsCrawling] = useState<boolean>(false);
+  const [pages, setPages] = useState<CrawledPage[]>([]);
+  const [result, setResult] = useState<CrawlResult | null>(null);
+  const [error, setError] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleCrawl = async () => {
+    try {
+      if (!['http:', 'https:'].includes(new URL(seedUrl).protocol)) throw new Error();
+    } catch {
+      setError('Please enter a start URL such as https://example.com/');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsCrawling(true);
+    setError('');
+    setPages([]);
+    setResult(null);
+
+    try {
+      const crawled = await crawlSite(seedUrl, {
+        maxDepth,
+        maxPages,
+        signal: controller.signal,
+        onPage: page => setPages(previous => [...previous, page])
+      });
+      setResult(crawled);
+    } catch (crawlError) {
+      if (!controller.signal.aborted) {
+        setError(crawlError instanceof Error ? crawlError.message : 'The crawl failed');
+      }
+    } finally {
+      setIsCrawling(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const indexable = pages.filter(page => page.status === 'indexed');
+
+  return (
+    <div className="space-y-3 border-t border-slate-200 pt-4">
+      <h3 className="text-sm font-semibold text-slate-800">Crawl a site</h3>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-2">
+        <input
+          type="url"
+          value={seedUrl}
+          onChange={(e) => {
+            setSeedUrl(e.target.value);
+            if (error) setError('');
+          }}
+          placeholder="https://example.com/"
+          className="flex-grow bg-white/90 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-400"
+          aria-label="Start URL for the crawl"
+          disabled={isCrawling}
+        />
+        <label className="text-xs text-slate-700">
+          <span className="block font-medium mb-1">Depth</span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={maxDepth}
+            onChange={(e) => setMaxDepth(Math.min(10, Math.max(0, Number(e.target.value) || 0)))}
+            className="w-20 bg-white/90 border border-slate-200 rounded-lg px-3 py-2 text-sm"
+            disabled={isCrawling}
+          />
+        </label>
+        <label className="text-xs text-slate-700">
+          <span className="block font-medium mb-1">Page budget</span>
+          <input
+            type="number"
+            min={1}
+            max={1000}
+            value={maxPages}
+            onChange={(e) => setMaxPages(Math.min(1000, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-24 bg-white/90 border border-slate-200 rounded-lg px-3 py-2 text-sm"
+            disabled={isCrawling}
+          />
+        </label>
+        {isCrawling ? (
+          <button
+            type="button"
+            onClick={() => abortControllerRef.current?.abort()}
+            className="inline-flex items-center justify-center gap-1.5 text-red-600 font-medium bg-white/80 px-4 py-2 rounded-lg border border-red-200 text-sm"
+          >
+            <StopIcon className="w-3.5 h-3.5" />
+            Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleCrawl}
+            className="inline-flex items-center justify-center gap-1.5 text-slate-700 hover:text-slate-900 font-medium bg-white/80 px-4 py-2 rounded-lg border border-slate-200 text-sm"
+          >
+            <GlobeIcon className="w-4 h-4" />
+            Crawl
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Follows same-site links only, honours robots.txt and noindex, and skips pages whose canonical URL was already seen.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {pages.length > 0 && (
+        <div className="bg-white/80 border border-slate-200 rounded-lg p-3 text-xs text-slate-700 space-y-2">
+          <p className="font-semibold">
+            {indexable.length} indexable of {pages.length} pages visited
+            {isCrawling && <span className="font-normal text-slate-500"> · crawling…</span>}
+            {result?.budgetExhausted && <span className="font-normal text-yellow-700"> · page budget reached</span>}
+          </p>
+          <ul className="font-mono space-y-0.5 max-h-48 overflow-auto">
+            {pages.map((page, index) => (
+              <li key={`${page.url}-${index}`} className="truncate" title={page.error || page.canonicalUrl}>
+                <span className={`inline-block w-20 font-sans font-semibold ${STATUS_STYLES[page.status].className}`}>
+                  {STATUS_STYLES[page.status].label}
+                </span>
+                <span className="text-slate-400">d{page.depth} </span>
+                {page.url}
+              </li>
+            ))}
+          </ul>
+          {!isCrawling && indexable.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onAddUrls(indexable.map(page => page.canonicalUrl))}
+              className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-bold py-2 px-5 rounded-xl shadow-lg text-sm"
+            >
+              Add {indexable.length} Pages to Queue
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -24,7 +24,12 @@ import {
   Edit,
   Trash2,
   Save,
-  Plus
+  Plus,
+  FileSearch,
+  Upload,
+  RotateCw,
+  List,
+  ArrowUpDown
 } from 'lucide-react';
 
 type IconProps = React.SVGProps<SVGSVGElement>;
@@ -74,4 +79,9 @@ export const EditIcon: React.FC<IconProps> = (props) => <Edit {...props} />;
 export const TrashIcon: React.FC<IconProps> = (props) => <Trash2 {...props} />;
 export const SaveIcon: React.FC<IconProps> = (props) => <Save {...props} />;
 export const PlusIcon: React.FC<IconProps> = (props) => <Plus {...props} />;
-export const XIcon: React.FC<IconProps> = (props) => <X {...props} />;
\ No newline at end of file
+export const XIcon: React.FC<IconProps> = (props) => <X {...props} />;
+export const FileSearchIcon: React.FC<IconProps> = (props) => <FileSearch {...props} />;
+export const UploadIcon: React.FC<IconProps> = (props) => <Upload {...props} />;
+export const RetryIcon: React.FC<IconProps> = (props) => <RotateCw {...props} />;
+export const ListIcon: React.FC<IconProps> = (props) => <List {...props} />;
+export const SortIcon: React.FC<IconProps> = (props) => <ArrowUpDown {...props} />;
\ No newline at end of file
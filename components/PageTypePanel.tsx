@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { PAGE_TYPE_LABELS, PageClassification, PageType } from '../services/pageTypeService';
+import { ChevronDownIcon, ChevronRightIcon, RetryIcon } from './Icons';
+
+interface PageTypePanelProps {
+  classification: PageClassification;
+  onOverride?: (pageTypes: PageType[]) => void;
+}
+
+const ALL_PAGE_TYPES = Object.keys(PAGE_TYPE_LABELS) as PageType[];
+
+const getConfidenceColor = (confidence: number): string => {
+  if (confidence >= 0.75) return 'bg-green-500';
+  if (confidence >= 0.5) return 'bg-yellow-500';
+  return 'bg-slate-400';
+};
+
+export const PageTypePanel: React.FC<PageTypePanelProps> = ({ classification, onOverride }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [selection, setSelection] = useState<PageType[]>(classification.selected);
+
+  useEffect(() => {
+    setSelection(classification.selected);
+  }, [classification]);
+
+  const toggle = (pageType: PageType) => {
+    setSelection(previous => previous.includes(pageType)
+      ? previous.filter(candidate => candidate !== pageType)
+      : [...previous, pageType]);
+  };
+
+  const hasChanges = selection.length > 0 && (
+    selection.length !== classification.selected.length ||
+    selection.some(pageType => !classification.selected.includes(pageType))
+  );
+
+  return (
+    <div className="px-6 py-4 bg-white border-b border-slate-200">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 text-sm font-semibold text-slate-700 hover:text-slate-900"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+          Page type{classification.overridden && ' (set manually)'}:
+        </button>
+        {classification.candidates.map(candidate => (
+          <span
+            key={candidate.type}
+            className={`inline-flex items-center gap-2 text-xs px-3 py-1 rounded-full border ${
+              classification.selected.includes(candidate.type) ? 'border-blue-300 bg-blue-50 text-blue-800 font-semibold' : 'border-slate-200 text-slate-600'
+            }`}
+            title={candidate.signals.map(signal => signal.description).join('\n')}
+          >
+            {PAGE_TYPE_LABELS[candidate.type]}
+            <span className="w-10 h-1.5 bg-slate-200 rounded-full overflow-hidden" aria-hidden="true">
+              <span className={`block h-full ${getConfidenceColor(candidate.confidence)}`} style={{ width: `${candidate.confidence * 100}%` }} />
+            </span>
+            {Math.round(candidate.confidence * 100)}%
+          </span>
+        ))}
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 grid md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Signals</h4>
+            <ul className="space-y-2 text-xs text-slate-700">
+              {classification.candidates.map(candidate => (
+                <li key={candidate.type}>
+                  <span className="font-semibold">{PAGE_TYPE_LABELS[candidate.type]}</span>
+                  <ul className="ml-3 list-disc list-inside text-slate-600">
+                    {candidate.signals.map(signal => (
+                      <li key={signal.description}>
+                        {signal.description} <span className="text-slate-400">({signal.source})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {onOverride && (
+            <div>
+              <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Override</h4>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {ALL_PAGE_TYPES.map(pageType => (
+                  <label key={pageType} className="inline-flex items-center gap-1 text-xs text-slate-700">
+                    <input type="checkbox" checked={selection.includes(pageType)} onChange={() => toggle(pageType)} />
+                    {PAGE_TYPE_LABELS[pageType]}
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => onOverride(selection)}
+                disabled={!hasChanges}
+                className="inline-flex items-center gap-1.5 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-4 py-2 rounded-lg"
+              >
+                <RetryIcon className="w-4 h-4" />
+                Regenerate as {selection.map(pageType => PAGE_TYPE_LABELS[pageType]).join(' + ') || '…'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
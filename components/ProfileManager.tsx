@@ -1,6 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { WebsiteProfile, default as WebsiteProfileService } from '../services/websiteProfileService';
-import { XIcon, PlusIcon, EditIcon, TrashIcon, SaveIcon, UserIcon, BuildingIcon, GlobeIcon } from './Icons';
+import { XIcon, PlusIcon, EditIcon, TrashIcon, SaveIcon, UserIcon, BuildingIcon, GlobeIcon, FileSearchIcon } from './Icons';
+import { ProfileMergeDialog } from './ProfileMergeDialog';
+import { DEFAULT_ID_POLICY, ENTITY_ID_KIND_LABELS, EntityIdKind, EntityIdPolicy } from '../services/entityIdService';
+import {
+  getRuleSetting,
+  RULE_CATEGORY_LABELS,
+  RuleSetting,
+  TEAM_RULE_SET,
+  VALIDATION_RULES,
+  ValidationRuleCategory,
+  ValidationRuleSet
+} from '../services/validationRules';
 
 interface ProfileManagerProps {
   isOpen: boolean;
@@ -47,8 +58,26 @@ interface ProfileFormData {
     linkedin: string;
     youtube: string;
   };
+  idPolicy: EntityIdPolicy; // blank templates use the default
+  validationRules: ValidationRuleSet; // rules without a setting follow the team rule set
 }
 
+const ENTITY_ID_KINDS = Object.keys(DEFAULT_ID_POLICY) as EntityIdKind[];
+
+const EMPTY_ID_POLICY = Object.fromEntries(ENTITY_ID_KINDS.map(kind => [kind, ''])) as EntityIdPolicy;
+
+const RULE_SETTING_LABELS: Record<RuleSetting, string> = {
+  error: 'Error',
+  warning: 'Warning',
+  info: 'Suggestion',
+  off: 'Off'
+};
+
+const RULES_BY_CATEGORY = (Object.keys(RULE_CATEGORY_LABELS) as ValidationRuleCategory[]).map(category => ({
+  category,
+  rules: Object.values(VALIDATION_RULES).filter(rule => rule.category === category)
+}));
+
 export const ProfileManager: React.FC<ProfileManagerProps> = ({
   isOpen,
   onClose,
@@ -94,9 +123,14 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
       instagram: '',
       linkedin: '',
       youtube: ''
-    }
+    },
+    idPolicy: EMPTY_ID_POLICY,
+    validationRules: {}
   });
-  const [activeTab, setActiveTab] = useState<'list' | 'create' | 'edit'>('list');
+  const [activeTab, setActiveTab] = useState<'list' | 'create' | 'edit' | 'merge'>('list');
+  const [mergingProfile, setMergingProfile] = useState<WebsiteProfile | null>(null);
+  // Number of scraped pages available for review, by profile ID
+  const [scrapedPageCounts, setScrapedPageCounts] = useState<Record<string, number>>({});
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
 
   // Use WebsiteProfileService directly from static import (all methods are static)
@@ -122,6 +156,9 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
       const loadedProfiles = profileService.getProfiles();
       console.log('ProfileManager: Loaded profiles:', loadedProfiles.length);
       setProfiles(loadedProfiles);
+      setScrapedPageCounts(Object.fromEntries(
+        loadedProfiles.map(profile => [profile.id, profileService.getScrapedDataForProfile(profile).length])
+      ));
     } catch (error) {
       console.error('Failed to load profiles:', error);
     }
@@ -165,7 +202,9 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
         instagram: '',
         linkedin: '',
         youtube: ''
-      }
+      },
+      idPolicy: EMPTY_ID_POLICY,
+      validationRules: {}
     });
   };
 
@@ -212,7 +251,9 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
         instagram: profile.socialProfiles?.instagram || '',
         linkedin: profile.socialProfiles?.linkedin || '',
         youtube: profile.socialProfiles?.youtube || ''
-      }
+      },
+      idPolicy: { ...EMPTY_ID_POLICY, ...profile.idPolicy },
+      validationRules: { ...profile.validationRules }
     });
     setEditingProfile(profile);
     setActiveTab('edit');
@@ -275,6 +316,11 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
         socialProfiles: Object.fromEntries(
           Object.entries(formData.socialProfiles).filter(([_, value]) => value.trim())
         ) as any,
+        idPolicy: Object.fromEntries(
+          Object.entries(formData.idPolicy).filter(([_, template]) => template.trim())
+        ),
+        validationRules: Object.keys(formData.validationRules).length > 0 ? formData.validationRules : undefined,
+        dismissedScrapedValues: profiles.find(p => p.id === formData.id)?.dismissedScrapedValues,
         createdAt: formData.id ? (profiles.find(p => p.id === formData.id)?.createdAt || new Date().toISOString()) : new Date().toISOString(),
         updatedAt: new Date().toISOString()
       };
@@ -297,6 +343,17 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
     }
   };
 
+  const handleReviewScrapedData = (profile: WebsiteProfile) => {
+    setMergingProfile(profile);
+    setActiveTab('merge');
+  };
+
+  const closeMergeDialog = async () => {
+    setMergingProfile(null);
+    setActiveTab('list');
+    await loadProfiles();
+  };
+
   const handleSelectProfile = (profile: WebsiteProfile) => {
     if (onProfileSelect) {
       onProfileSelect(profile);
@@ -422,6 +479,16 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
                           >
                             Use
                           </button>
+                          {scrapedPageCounts[profile.id] > 0 && (
+                            <button
+                              onClick={() => handleReviewScrapedData(profile)}
+                              className="text-slate-600 hover:text-slate-800 p-1.5"
+                              title={`Review data scraped from ${scrapedPageCounts[profile.id]} page(s)`}
+                              aria-label="Review scraped data"
+                            >
+                              <FileSearchIcon className="w-3 h-3" />
+                            </button>
+                          )}
                           <button
                             onClick={() => handleEditProfile(profile)}
                             className="text-slate-600 hover:text-slate-800 p-1.5"
@@ -443,6 +510,10 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
             </div>
           )}
 
+          {activeTab === 'merge' && mergingProfile && (
+            <ProfileMergeDialog profile={mergingProfile} onCancel={closeMergeDialog} onSaved={closeMergeDialog} />
+          )}
+
           {(activeTab === 'create' || activeTab === 'edit') && (
             <div>
               <div className="flex items-center gap-2 mb-4">
@@ -797,6 +868,86 @@ export const ProfileManager: React.FC<ProfileManagerProps> = ({
                       </div>
                     </div>
                   </div>
+
+                  {/* Entity @id templates */}
+                  <div className="space-y-3 md:col-span-2">
+                    <h4 className="font-semibold text-slate-800 border-b pb-1.5 text-sm">Entity @id Templates</h4>
+                    <p className="text-xs text-slate-500">
+                      Placeholders: <code>{'{origin}'}</code>, <code>{'{canonical}'}</code> (the page URL), <code>{'{slug}'}</code> (the entity name) and <code>{'{type}'}</code>. Leave a field empty to use the default shown.
+                    </p>
+                    <div className="grid md:grid-cols-2 gap-2">
+                      {ENTITY_ID_KINDS.map(kind => (
+                        <div key={kind}>
+                          <label className="block text-xs font-medium text-slate-700 mb-1">
+                            {ENTITY_ID_KIND_LABELS[kind]}
+                          </label>
+                          <input
+                            type="text"
+                            value={formData.idPolicy[kind]}
+                            onChange={(e) => setFormData(prev => ({
+                              ...prev,
+                              idPolicy: { ...prev.idPolicy, [kind]: e.target.value }
+                            }))}
+                            placeholder={DEFAULT_ID_POLICY[kind]}
+                            className="w-full px-2.5 py-1.5 border border-slate-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Validation rule settings */}
+                  <div className="space-y-3 md:col-span-2">
+                    <h4 className="font-semibold text-slate-800 border-b pb-1.5 text-sm">Validation Rules</h4>
+                    <p className="text-xs text-slate-500">
+                      Report a rule at another severity for this site, or turn it off. "Default" follows the team rule set (<code>VITE_VALIDATION_RULES</code>) and the rule's own severity.
+                    </p>
+                    {RULES_BY_CATEGORY.map(({ category, rules }) => (
+                      <details key={category} className="border border-slate-200 rounded-md">
+                        <summary className="px-2.5 py-1.5 text-xs font-medium text-slate-700 cursor-pointer">
+                          {RULE_CATEGORY_LABELS[category]}
+                          {rules.some(rule => formData.validationRules[rule.id]) && (
+                            <span className="ml-2 text-blue-600">
+                              ({rules.filter(rule => formData.validationRules[rule.id]).length} changed)
+                            </span>
+                          )}
+                        </summary>
+                        <div className="divide-y divide-slate-100">
+                          {rules.map(rule => (
+                            <div key={rule.id} className="flex items-center justify-between gap-3 px-2.5 py-1.5">
+                              <div className="min-w-0">
+                                <a
+                                  href={rule.docUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs font-mono text-blue-600 hover:underline"
+                                >
+                                  {rule.id}
+                                </a>
+                                <p className="text-xs text-slate-500">{rule.description}</p>
+                              </div>
+                              <select
+                                value={formData.validationRules[rule.id] || ''}
+                                onChange={(e) => {
+                                  const setting = e.target.value as RuleSetting | '';
+                                  setFormData(prev => {
+                                    const { [rule.id]: _previous, ...rest } = prev.validationRules;
+                                    return { ...prev, validationRules: setting ? { ...rest, [rule.id]: setting } : rest };
+                                  });
+                                }}
+                                className="px-2 py-1 border border-slate-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-xs flex-shrink-0"
+                              >
+                                <option value="">Default ({RULE_SETTING_LABELS[getRuleSetting(rule.id, TEAM_RULE_SET)]})</option>
+                                {(Object.keys(RULE_SETTING_LABELS) as RuleSetting[]).map(setting => (
+                                  <option key={setting} value={setting}>{RULE_SETTING_LABELS[setting]}</option>
+                                ))}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      </details>
+                    ))}
+                  </div>
                 </div>
               </div>
 
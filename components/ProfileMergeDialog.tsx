@@ -0,0 +1,183 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  ProfileMergeAction,
+  ProfileMergeDecision,
+  WebsiteProfile,
+  default as WebsiteProfileService
+} from '../services/websiteProfileService';
+import { SaveIcon } from './Icons';
+
+interface ProfileMergeDialogProps {
+  profile: WebsiteProfile;
+  onCancel: () => void;
+  onSaved: (profile: WebsiteProfile) => void;
+}
+
+const ACTIONS: { id: ProfileMergeAction; label: string; className: string }[] = [
+  { id: 'accept', label: 'Accept', className: 'bg-green-600 text-white border-green-600' },
+  { id: 'keep', label: 'Keep', className: 'bg-slate-700 text-white border-slate-700' },
+  { id: 'reject', label: 'Reject', className: 'bg-red-600 text-white border-red-600' }
+];
+
+const isImageField = (field: string) => field === 'defaultImage';
+
+const renderValue = (field: string, value: string | undefined) => {
+  if (!value) return <span className="text-slate-400 italic">empty</span>;
+  if (isImageField(field)) {
+    return (
+      <span className="flex items-center gap-2">
+        <img src={value} alt="" className="w-10 h-10 object-cover rounded border border-slate-200" />
+        <span className="break-all">{value}</span>
+      </span>
+    );
+  }
+  return <span className="break-all">{value}</span>;
+};
+
+export const ProfileMergeDialog: React.FC<ProfileMergeDialogProps> = ({ profile, onCancel, onSaved }) => {
+  const scrapedPages = useMemo(() => WebsiteProfileService.getScrapedDataForProfile(profile), [profile]);
+  const [pageUrl, setPageUrl] = useState<string>(scrapedPages[0]?.url || '');
+  const scrapedData = scrapedPages.find(page => page.url === pageUrl);
+
+  const proposals = useMemo(
+    () => (scrapedData ? WebsiteProfileService.getMergeProposals(profile, scrapedData) : []),
+    [profile, scrapedData]
+  );
+  const [decisions, setDecisions] = useState<Record<string, ProfileMergeDecision>>({});
+
+  // Empty profile fields default to the scraped value, filled ones to what is stored
+  useEffect(() => {
+    setDecisions(Object.fromEntries(proposals.map(proposal => [
+      proposal.id,
+      { action: proposal.current ? 'keep' : 'accept', value: proposal.candidates[0] } as ProfileMergeDecision
+    ])));
+  }, [proposals]);
+
+  const setDecision = (id: string, update: Partial<ProfileMergeDecision>) => {
+    setDecisions(previous => ({ ...previous, [id]: { ...previous[id], ...update } }));
+  };
+
+  const handleSave = () => {
+    const updated = WebsiteProfileService.applyMergeDecisions(profile, proposals, decisions);
+    WebsiteProfileService.saveProfile(updated);
+    onSaved(updated);
+  };
+
+  const acceptedCount = Object.values(decisions).filter(decision => decision.action === 'accept').length;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onCancel} className="text-slate-600 hover:text-slate-800 text-sm">
+          ← Back to Profiles
+        </button>
+        <h3 className="text-lg font-bold text-slate-800">Review scraped data for {profile.name}</h3>
+      </div>
+
+      {scrapedPages.length === 0 ? (
+        <p className="text-sm text-slate-600 py-6 text-center">
+          No pages from this site have been scraped yet. Generate schemas for one of its pages first.
+        </p>
+      ) : (
+        <>
+          <label className="block text-xs text-slate-700 mb-3">
+            <span className="font-medium mr-2">Scraped page</span>
+            <select
+              value={pageUrl}
+              onChange={(e) => setPageUrl(e.target.value)}
+              className="px-2 py-1 border border-slate-300 rounded-md text-xs max-w-full"
+            >
+              {scrapedPages.map(page => (
+                <option key={page.url} value={page.url}>
+                  {page.url}{page.scrapedAt ? ` · ${new Date(page.scrapedAt).toLocaleDateString()}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {proposals.length === 0 ? (
+            <p className="text-sm text-slate-600 py-6 text-center">The profile already matches everything scraped from this page.</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto border border-slate-200 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-600 sticky top-0">
+                  <tr>
+                    <th className="text-left font-semibold p-2">Field</th>
+                    <th className="text-left font-semibold p-2">Stored</th>
+                    <th className="text-left font-semibold p-2">Scraped</th>
+                    <th className="text-left font-semibold p-2">Decision</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {proposals.map(proposal => {
+                    const decision = decisions[proposal.id];
+                    return (
+                      <tr key={proposal.id} className="border-t border-slate-100 align-top">
+                        <td className="p-2 font-medium text-slate-800 whitespace-nowrap">{proposal.label}</td>
+                        <td className="p-2 text-slate-600">{renderValue(proposal.field, proposal.current)}</td>
+                        <td className="p-2 text-slate-800">
+                          {proposal.candidates.length > 1 ? (
+                            <div className="space-y-1">
+                              {proposal.candidates.map(candidate => (
+                                <label key={candidate} className="flex items-start gap-1.5">
+                                  <input
+                                    type="radio"
+                                    name={`candidate-${proposal.id}`}
+                                    checked={(decision?.value || proposal.candidates[0]) === candidate}
+                                    onChange={() => setDecision(proposal.id, { value: candidate })}
+                                    className="mt-0.5"
+                                  />
+                                  {renderValue(proposal.field, candidate)}
+                                </label>
+                              ))}
+                            </div>
+                          ) : renderValue(proposal.field, proposal.candidates[0])}
+                        </td>
+                        <td className="p-2">
+                          <div className="inline-flex rounded-md border border-slate-200 overflow-hidden" role="radiogroup" aria-label={`Decision for ${proposal.label}`}>
+                            {ACTIONS.map(action => (
+                              <button
+                                key={action.id}
+                                role="radio"
+                                aria-checked={decision?.action === action.id}
+                                onClick={() => setDecision(proposal.id, { action: action.id })}
+                                className={`px-2 py-1 border-l first:border-l-0 ${
+                                  decision?.action === action.id ? action.className : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                                }`}
+                              >
+                                {action.label}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center justify-between mt-6 pt-4 border-t">
+        <span className="text-xs text-slate-600">
+          Keep leaves a field as it is; Reject also stops offering that scraped value.
+        </span>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 text-slate-600 hover:text-slate-800 transition-colors text-sm">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={proposals.length === 0}
+            className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-4 py-1.5 rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            <SaveIcon className="w-3 h-3" />
+            Apply{acceptedCount > 0 ? ` ${acceptedCount} change${acceptedCount === 1 ? '' : 's'}` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { SchemaDiff, SchemaDiffService, PropertyChange } from '../services/schemaDiffService';
+import { SyntaxHighlightedCode } from './SyntaxHighlightedCode';
+import { ValidationRuleSet } from '../services/validationRules';
+import { SchemaObject } from '../types';
+
+interface SchemaDiffViewProps {
+  schemas: SchemaObject[];
+  validationRules?: ValidationRuleSet;
+}
+
+const formatValue = (value: unknown): string => {
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text && text.length > 80 ? `${text.substring(0, 77)}...` : String(text);
+};
+
+const CHANGE_STYLES: Record<PropertyChange['kind'], { label: string; marker: string; className: string }> = {
+  added: { label: 'Added', marker: '+', className: 'border-green-200 bg-green-50 text-green-800' },
+  removed: { label: 'Removed', marker: '−', className: 'border-red-200 bg-red-50 text-red-800' },
+  changed: { label: 'Changed', marker: '~', className: 'border-yellow-200 bg-yellow-50 text-yellow-800' }
+};
+
+const ScoreDelta: React.FC<{ diff: SchemaDiff }> = ({ diff }) => {
+  if (diff.scoreDelta === undefined) {
+    const score = diff.generatedScore ?? diff.existingScore;
+    return <span className="text-sm font-semibold text-slate-600">Score {score}</span>;
+  }
+
+  const color = diff.scoreDelta > 0 ? 'text-green-600' : diff.scoreDelta < 0 ? 'text-red-600' : 'text-slate-600';
+  return (
+    <span className="text-sm font-semibold text-slate-600">
+      Score {diff.existingScore} → {diff.generatedScore}{' '}
+      <span className={color}>({diff.scoreDelta > 0 ? '+' : ''}{diff.scoreDelta})</span>
+    </span>
+  );
+};
+
+const ChangeItem: React.FC<{ type: string; change: PropertyChange }> = ({ type, change }) => {
+  const style = CHANGE_STYLES[change.kind];
+
+  return (
+    <li className={`border rounded-lg px-3 py-2 text-sm ${style.className}`}>
+      <div className="flex items-start gap-2">
+        <span className="font-mono font-bold w-3 flex-shrink-0">{style.marker}</span>
+        <div className="min-w-0">
+          <p className="font-mono font-semibold break-all">{change.path}</p>
+          <p className="text-xs mt-0.5">{SchemaDiffService.describeChange(type, change)}</p>
+          {change.kind !== 'added' && (
+            <p className="text-xs font-mono mt-1 break-all opacity-80">Existing: {formatValue(change.existingValue)}</p>
+          )}
+          {change.kind !== 'removed' && (
+            <p className="text-xs font-mono mt-1 break-all opacity-80">Generated: {formatValue(change.generatedValue)}</p>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+};
+
+const CodeColumn: React.FC<{ title: string; schema?: SchemaObject }> = ({ title, schema }) => (
+  <div className="min-w-0">
+    <h5 className="text-sm font-semibold text-slate-700 mb-2">{title}</h5>
+    <div className="bg-slate-900 rounded-xl p-4 overflow-auto max-h-96">
+      {schema ? (
+        <pre className="text-xs leading-relaxed text-slate-100 font-mono">
+          <SyntaxHighlightedCode code={schema.schema} />
+        </pre>
+      ) : (
+        <p className="text-sm text-slate-400 italic">Not present</p>
+      )}
+    </div>
+  </div>
+);
+
+export const SchemaDiffView: React.FC<SchemaDiffViewProps> = ({ schemas, validationRules }) => {
+  const diffs = useMemo(() => SchemaDiffService.diffSchemas(schemas, validationRules), [schemas, validationRules]);
+
+  if (diffs.length === 0) return null;
+
+  return (
+    <div className="p-6 space-y-6">
+      {diffs.map((diff, index) => {
+        const counts = {
+          added: diff.changes.filter(c => c.kind === 'added').length,
+          removed: diff.changes.filter(c => c.kind === 'removed').length,
+          changed: diff.changes.filter(c => c.kind === 'changed').length
+        };
+
+        return (
+          <div key={`${diff.type}-${index}`} className="bg-white/90 border border-slate-200 rounded-2xl p-6 shadow-lg">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div>
+                <h4 className="text-xl font-bold text-slate-800">{diff.type}</h4>
+                <p className="text-sm text-slate-600">
+                  {!diff.existing && 'New: not on the page today'}
+                  {!diff.generated && 'Only on the page: not proposed by the generator'}
+                  {diff.existing && diff.generated && (
+                    `${counts.added} added, ${counts.removed} removed, ${counts.changed} changed, ${diff.unchangedCount} unchanged`
+                  )}
+                </p>
+              </div>
+              <ScoreDelta diff={diff} />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4 mb-4">
+              <CodeColumn title="Existing on page" schema={diff.existing} />
+              <CodeColumn title="Generated" schema={diff.generated} />
+            </div>
+
+            {diff.existing && diff.generated && diff.changes.length > 0 && (
+              <ul className="space-y-2">
+                {diff.changes.map(change => (
+                  <ChangeItem key={`${change.kind}-${change.path}`} type={diff.type} change={change} />
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
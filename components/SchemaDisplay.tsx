@@ -1,7 +1,16 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { ClipboardIcon, CheckIcon, CheckCircleIcon, ExclamationTriangleIcon, XCircleIcon } from './Icons';
-import { SchemaValidationService, ValidatedSchema } from '../services/schemaValidationService';
+import { SchemaValidationService, ValidatedSchema, ValidationError, ValidationFix } from '../services/schemaValidationService';
 import { ValidationResults } from './ValidationResults';
+import { SyntaxHighlightedCode } from './SyntaxHighlightedCode';
+import { SchemaDiffView } from './SchemaDiffView';
+import { PageTypePanel } from './PageTypePanel';
+import { SchemaGraphSummary } from './SchemaGraphSummary';
+import { buildSchemaGraph } from '../services/schemaGraphService';
+import { EntityIdPolicy } from '../services/entityIdService';
+import { ValidationRuleSet } from '../services/validationRules';
+import { PageClassification, PageType } from '../services/pageTypeService';
+import { SchemaObject } from '../types';
 
 // Development-only logging utility
 const devError = (...args: any[]) => {
@@ -10,79 +19,115 @@ const devError = (...args: any[]) => {
   }
 };
 
-interface SchemaObject {
-  type: string;
-  schema: string;
-}
-
 interface SchemaDisplayProps {
   schemas: SchemaObject[];
+  classification?: PageClassification | null;
+  onPageTypeOverride?: (pageTypes: PageType[]) => void;
+  // URL of the page the schemas describe, used for @id values in the graph view
+  pageUrl?: string;
+  // @id templates of the applied website profile
+  idPolicy?: Partial<EntityIdPolicy>;
+  // Rule settings of the applied website profile, over the team's
+  validationRules?: ValidationRuleSet;
 }
 
+type SchemaView = 'schemas' | 'graph' | 'compare';
+
+const VIEW_LABELS: Record<SchemaView, string> = {
+  schemas: 'Per Type',
+  graph: '@graph',
+  compare: 'Compare with Page'
+};
+
 interface ValidatedSchemaDisplay extends ValidatedSchema {
   originalIndex: number;
+  source?: SchemaObject['source'];
 }
 
-const SyntaxHighlightedCode: React.FC<{ code: string }> = React.memo(({ code }) => {
-  const highlightedHtml = useMemo(() => {
-    if (!code) return '';
-
-    // Ensure code is a string
-    const codeString = typeof code === 'string' ? code : JSON.stringify(code, null, 2);
-
-    let tempCode = codeString
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;');
-
-    // Keys
-    tempCode = tempCode.replace(/"([^"\\]|\\.)*"(?=\s*:)/g, (match) => {
-        return `<span style="color: #c084fc;">${match}</span>`;
-    });
-    
-    // String values
-    tempCode = tempCode.replace(/:\s*("([^"\\]|\\.)*")/g, (match, group) => {
-        return `: <span style="color: #4ade80;">${group}</span>`;
-    });
-
-    // Numbers
-    tempCode = tempCode.replace(/\b-?(?:\d+|\d+\.\d+|\.\d+)(?:[eE][-+]?\d+)?\b/g, '<span style="color: #60a5fa;">$&</span>');
-
-    // Booleans
-    tempCode = tempCode.replace(/\b(true|false)\b/g, '<span style="color: #fbbf24;">$&</span>');
-
-    // Null
-    tempCode = tempCode.replace(/\b(null)\b/g, '<span style="color: #94a3b8;">$&</span>');
-
-    return tempCode;
-  }, [code]);
-
-  return <span dangerouslySetInnerHTML={{ __html: highlightedHtml }} />;
-});
-
-
-export const SchemaDisplay: React.FC<SchemaDisplayProps> = ({ schemas }) => {
+export const SchemaDisplay: React.FC<SchemaDisplayProps> = ({ schemas, classification, onPageTypeOverride, pageUrl, idPolicy, validationRules }) => {
   const [activeTab, setActiveTab] = useState<number>(0);
   const [copySuccess, setCopySuccess] = useState<boolean>(false);
+  const [view, setView] = useState<SchemaView>('schemas');
+  // Validation issue shown in the code view
+  const [selectedIssue, setSelectedIssue] = useState<ValidationError | null>(null);
+  // Schema text rewritten by validation fixes, by tab; only valid for the schemas it was made from
+  const [fixedSchemas, setFixedSchemas] = useState<{ schemas: SchemaObject[]; texts: Record<number, string> } | null>(null);
+
+  const fixedTexts = fixedSchemas && fixedSchemas.schemas === schemas ? fixedSchemas.texts : {};
+  const currentSchemas = useMemo(() => schemas.map((schema, index) => (
+    fixedTexts[index] !== undefined ? { ...schema, schema: fixedTexts[index] } : schema
+  )), [schemas, fixedSchemas]);
+
+  // Comparing only makes sense when the page already has markup and we generated something
+  const canCompare = useMemo(() => {
+    return schemas.some(s => s.source === 'existing') && schemas.some(s => s.source === 'generated' || !s.source);
+  }, [schemas]);
+
+  // The graph combines what would be published; markup already on the page stays out of it
+  const graph = useMemo(() => {
+    const publishable = currentSchemas.filter(s => s.source !== 'existing');
+    return publishable.length > 0 ? buildSchemaGraph(publishable, pageUrl, idPolicy) : null;
+  }, [currentSchemas, pageUrl, idPolicy]);
+  const graphCode = useMemo(() => graph ? JSON.stringify(graph.document, null, 2) : '', [graph]);
+
+  const availableViews: SchemaView[] = [
+    'schemas',
+    ...(graph ? ['graph' as const] : []),
+    ...(canCompare ? ['compare' as const] : [])
+  ];
 
   // Validate all schemas
   const validatedSchemas: ValidatedSchemaDisplay[] = useMemo(() => {
-    return SchemaValidationService.validateSchemas(schemas).map((validated, index) => ({
+    return SchemaValidationService.validateSchemas(currentSchemas, validationRules).map((validated, index) => ({
       ...validated,
-      originalIndex: index
+      originalIndex: index,
+      source: currentSchemas[index].source
     }));
-  }, [schemas]);
+  }, [currentSchemas, validationRules]);
 
   const activeSchema = validatedSchemas[activeTab];
+  const isGraphView = view === 'graph' && !!graph;
+  const displayedCode = isGraphView ? graphCode : activeSchema?.schema || '';
 
-  // When schemas update, reset to the first tab.
+  // When schemas update, reset to the first tab; the graph view is kept as the chosen output mode
   useEffect(() => {
       setActiveTab(0);
+      setView(previous => previous === 'graph' ? previous : 'schemas');
   }, [schemas]);
 
   useEffect(() => {
     setCopySuccess(false);
-  }, [activeTab]);
+    setSelectedIssue(null);
+  }, [activeTab, view, schemas]);
+
+  const highlightLines = useMemo(() => {
+    if (!selectedIssue || selectedIssue.line === undefined) return null;
+    return { start: selectedIssue.line, end: selectedIssue.endLine ?? selectedIssue.line };
+  }, [selectedIssue]);
+
+  // Clicking the selected issue again clears the highlight
+  const handleSelectIssue = (issue: ValidationError) => {
+    setSelectedIssue(previous => previous === issue ? null : issue);
+  };
+
+  // Rewrites the active schema; validation runs again on the new text
+  const setActiveSchemaText = (text: string | undefined) => {
+    const texts = { ...fixedTexts };
+    if (text === undefined) delete texts[activeTab];
+    else texts[activeTab] = text;
+    setFixedSchemas({ schemas, texts });
+    setSelectedIssue(null);
+  };
+
+  const handleApplyFix = (fix: ValidationFix) => {
+    const result = SchemaValidationService.applyFixes(activeSchema.schema, [fix]);
+    if (result.applied > 0) setActiveSchemaText(result.schema);
+  };
+
+  const handleApplyAllFixes = () => {
+    const result = SchemaValidationService.applyAllFixes(activeSchema, validationRules, SchemaValidationService.collectPageEntities(currentSchemas));
+    if (result.applied > 0) setActiveSchemaText(result.schema);
+  };
 
   useEffect(() => {
     if (copySuccess) {
@@ -99,12 +144,12 @@ export const SchemaDisplay: React.FC<SchemaDisplayProps> = ({ schemas }) => {
     try {
       // Check if clipboard API is available
       if (navigator.clipboard && window.isSecureContext) {
-        await navigator.clipboard.writeText(activeSchema.schema);
+        await navigator.clipboard.writeText(displayedCode);
         setCopySuccess(true);
       } else {
         // Fallback for older browsers or non-secure contexts
         const textArea = document.createElement('textarea');
-        textArea.value = activeSchema.schema;
+        textArea.value = displayedCode;
         textArea.style.position = 'fixed';
         textArea.style.left = '-999999px';
         textArea.style.top = '-999999px';
@@ -152,194 +197,260 @@ export const SchemaDisplay: React.FC<SchemaDisplayProps> = ({ schemas }) => {
 
   return (
     <div className="bg-white/80 backdrop-blur-xl border border-white/20 rounded-3xl shadow-2xl mt-16 animate-fade-in flex flex-col overflow-hidden">
-      {/* Modern Tab Navigation */}
-      <div className="bg-gradient-to-r from-slate-50 to-blue-50 border-b border-slate-200 px-6 pt-4 overflow-x-auto">
-        <div className="flex gap-2">
-          {validatedSchemas.map((item, index) => (
-            <button
-              key={index}
-              onClick={() => setActiveTab(index)}
-              className={`px-6 py-4 text-base font-semibold transition-all duration-300 focus:outline-none rounded-t-2xl flex items-center gap-3 whitespace-nowrap ${
-                activeTab === index
-                  ? 'text-slate-800 bg-white shadow-lg border-t-2 border-blue-500'
-                  : 'text-slate-600 hover:text-slate-800 hover:bg-white/50'
-              }`}
-              aria-current={activeTab === index ? 'page' : undefined}
-            >
-              {getValidationIcon(item.validation)}
-              <span>{item.type}</span>
-              <span className={`text-xs px-2 py-1 rounded-full font-bold ${getValidationColor(item.validation)}`}>
-                {item.validation.score}
-              </span>
-            </button>
-          ))}
-        </div>
-      </div>
-
-      <div className="flex-grow">
-        {/* Header with Copy Button */}
-        <div className="flex justify-between items-center p-6 bg-gradient-to-r from-white to-slate-50 border-b border-slate-200">
-          <div>
-            <h3 className="text-2xl font-bold text-slate-800">{activeSchema.type} Schema</h3>
-            <p className="text-slate-600 mt-1">Copy this code to your website's HTML</p>
+      {classification && (
+        <PageTypePanel classification={classification} onOverride={onPageTypeOverride} />
+      )}
+
+      {availableViews.length > 1 && (
+        <div className="flex items-center justify-between gap-3 px-6 pt-4 bg-gradient-to-r from-slate-50 to-blue-50">
+          <p className="text-sm text-slate-600">
+            {canCompare ? 'This page already has structured data.' : 'Show the schemas as separate documents or as one linked graph.'}
+          </p>
+          <div className="inline-flex bg-white rounded-full border border-slate-200 p-1 shadow-sm">
+            {availableViews.map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${
+                  view === option ? 'bg-blue-600 text-white' : 'text-slate-600 hover:text-slate-800'
+                }`}
+                aria-pressed={view === option}
+              >
+                {VIEW_LABELS[option]}
+              </button>
+            ))}
           </div>
-          <button
-            onClick={handleCopy}
-            className={`flex items-center gap-3 text-base font-semibold py-3 px-6 rounded-2xl transition-all duration-300 focus:outline-none focus:ring-4 shadow-lg ${
-              copySuccess 
-                ? 'bg-green-500 hover:bg-green-600 text-white focus:ring-green-500/30' 
-                : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white focus:ring-blue-500/30'
-            }`}
-          >
-            {copySuccess ? <CheckIcon className="w-5 h-5" /> : <ClipboardIcon className="w-5 h-5" />}
-            {copySuccess ? 'Copied!' : 'Copy Code'}
-          </button>
         </div>
-        
-        {/* Code Display */}
-        <div className="relative">
-          <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-6 overflow-auto max-h-[60vh]">
-            <div className="flex items-center gap-2 mb-4">
-              <div className="w-3 h-3 bg-red-500 rounded-full"></div>
-              <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
-              <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-              <span className="text-slate-400 text-sm ml-4 font-mono">JSON-LD Schema</span>
+      )}
+
+      {view === 'compare' ? (
+        <SchemaDiffView schemas={currentSchemas} validationRules={validationRules} />
+      ) : (
+        <>
+          {/* Modern Tab Navigation */}
+          {!isGraphView && (
+            <div className="bg-gradient-to-r from-slate-50 to-blue-50 border-b border-slate-200 px-6 pt-4 overflow-x-auto">
+              <div className="flex gap-2">
+                {validatedSchemas.map((item, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setActiveTab(index)}
+                    className={`px-6 py-4 text-base font-semibold transition-all duration-300 focus:outline-none rounded-t-2xl flex items-center gap-3 whitespace-nowrap ${
+                      activeTab === index
+                        ? 'text-slate-800 bg-white shadow-lg border-t-2 border-blue-500'
+                        : 'text-slate-600 hover:text-slate-800 hover:bg-white/50'
+                    }`}
+                    aria-current={activeTab === index ? 'page' : undefined}
+                  >
+                    {getValidationIcon(item.validation)}
+                    <span>{item.type}</span>
+                    {item.source === 'existing' && (
+                      <span className="text-xs px-2 py-1 rounded-full font-semibold bg-slate-200 text-slate-700" title="Already present in the page markup">
+                        Existing
+                      </span>
+                    )}
+                    <span className={`text-xs px-2 py-1 rounded-full font-bold ${getValidationColor(item.validation)}`}>
+                      {item.validation.score}
+                    </span>
+                  </button>
+                ))}
+              </div>
             </div>
-            <pre className="text-sm leading-relaxed text-slate-100 font-mono">
-              <SyntaxHighlightedCode code={activeSchema.schema} />
-            </pre>
-          </div>
-        </div>
-      </div>
-
-      {/* Validation Results */}
-      <div className="border-t border-slate-200 p-6 bg-gradient-to-r from-slate-50 to-blue-50">
-        <ValidationResults
-          validation={activeSchema.validation}
-          schemaType={activeSchema.type}
-        />
-      </div>
-
-      {/* Implementation Instructions */}
-      <div className="border-t border-slate-200 p-6 bg-gradient-to-r from-blue-50 to-indigo-50">
-        <div className="max-w-4xl mx-auto">
-          <div className="flex items-center gap-3 mb-6">
-            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full flex items-center justify-center">
-              <span className="text-white font-bold text-sm">?</span>
+          )}
+
+          <div className="flex-grow">
+            {/* Header with Copy Button */}
+            <div className="flex justify-between items-center p-6 bg-gradient-to-r from-white to-slate-50 border-b border-slate-200">
+              <div>
+                <h3 className="text-2xl font-bold text-slate-800">{isGraphView ? 'Schema Graph' : `${activeSchema.type} Schema`}</h3>
+                <p className="text-slate-600 mt-1">
+                  {isGraphView
+                    ? 'Every entity in one @graph, linked by @id references'
+                    : activeSchema.source === 'existing'
+                    ? 'Found in the page markup today'
+                    : activeSchema.source === 'imported'
+                      ? 'Supplied for validation'
+                      : "Copy this code to your website's HTML"}
+                  {!isGraphView && fixedTexts[activeTab] !== undefined && (
+                    <>
+                      {' · Fixes applied '}
+                      <button
+                        onClick={() => setActiveSchemaText(undefined)}
+                        className="text-blue-600 hover:underline font-semibold"
+                      >
+                        Undo
+                      </button>
+                    </>
+                  )}
+                </p>
+              </div>
+              <button
+                onClick={handleCopy}
+                className={`flex items-center gap-3 text-base font-semibold py-3 px-6 rounded-2xl transition-all duration-300 focus:outline-none focus:ring-4 shadow-lg ${
+                  copySuccess 
+                    ? 'bg-green-500 hover:bg-green-600 text-white focus:ring-green-500/30' 
+                    : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white focus:ring-blue-500/30'
+                }`}
+              >
+                {copySuccess ? <CheckIcon className="w-5 h-5" /> : <ClipboardIcon className="w-5 h-5" />}
+                {copySuccess ? 'Copied!' : 'Copy Code'}
+              </button>
+            </div>
+        
+            {/* Code Display */}
+            <div className="relative">
+              <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-6 overflow-auto max-h-[60vh]">
+                <div className="flex items-center gap-2 mb-4">
+                  <div className="w-3 h-3 bg-red-500 rounded-full"></div>
+                  <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
+                  <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                  <span className="text-slate-400 text-sm ml-4 font-mono">JSON-LD Schema</span>
+                </div>
+                <pre className="text-sm leading-relaxed text-slate-100 font-mono">
+                  <SyntaxHighlightedCode code={displayedCode} highlightLines={isGraphView ? null : highlightLines} />
+                </pre>
+              </div>
             </div>
-            <h3 className="text-xl font-bold text-slate-800">How to Implement This Schema</h3>
           </div>
 
-          {/* Quick Implementation */}
-          <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-blue-200 mb-6">
-            <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
-              <span className="w-6 h-6 bg-green-500 rounded-full flex items-center justify-center text-white text-sm">1</span>
-              Quick Implementation
-            </h4>
-            <p className="text-slate-600 mb-4">
-              Add this JSON-LD code to the <code className="bg-slate-100 px-2 py-1 rounded text-sm font-mono">&lt;head&gt;</code> section of your HTML page:
-            </p>
-            <div className="bg-slate-900 rounded-lg p-4 font-mono text-sm text-slate-100 overflow-x-auto">
-              <div className="text-slate-400 mb-2">&lt;!-- Add this to your HTML head section --&gt;</div>
-              <div className="text-slate-400">&lt;script type="application/ld+json"&gt;</div>
-              <div className="text-slate-100 pl-4">{activeSchema.schema}</div>
-              <div className="text-slate-400">&lt;/script&gt;</div>
-            </div>
+          {/* Validation Results */}
+          <div className="border-t border-slate-200 p-6 bg-gradient-to-r from-slate-50 to-blue-50">
+            {isGraphView ? (
+              <SchemaGraphSummary graph={graph} validationRules={validationRules} />
+            ) : (
+              <ValidationResults
+                validation={activeSchema.validation}
+                schemaType={activeSchema.type}
+                selectedIssue={selectedIssue}
+                onSelectIssue={handleSelectIssue}
+                onApplyFix={handleApplyFix}
+                onApplyAllFixes={handleApplyAllFixes}
+              />
+            )}
           </div>
 
-          {/* Step-by-Step Guide */}
-          <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-blue-200 mb-6">
-            <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
-              <span className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm">2</span>
-              Step-by-Step Instructions
-            </h4>
-            <div className="space-y-4">
-              <div className="flex gap-4">
-                <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">1</div>
-                <div>
-                  <h5 className="font-semibold text-slate-800">Copy the JSON-LD Code</h5>
-                  <p className="text-slate-600">Use the "Copy Code" button above to copy the complete schema markup</p>
+          {/* Implementation Instructions */}
+          <div className="border-t border-slate-200 p-6 bg-gradient-to-r from-blue-50 to-indigo-50">
+            <div className="max-w-4xl mx-auto">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full flex items-center justify-center">
+                  <span className="text-white font-bold text-sm">?</span>
                 </div>
+                <h3 className="text-xl font-bold text-slate-800">How to Implement This Schema</h3>
               </div>
-              <div className="flex gap-4">
-                <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-emerald-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">2</div>
-                <div>
-                  <h5 className="font-semibold text-slate-800">Open Your Website's HTML</h5>
-                  <p className="text-slate-600">Locate the HTML file for the page where you want to add the schema markup</p>
-                </div>
-              </div>
-              <div className="flex gap-4">
-                <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">3</div>
-                <div>
-                  <h5 className="font-semibold text-slate-800">Add to Head Section</h5>
-                  <p className="text-slate-600">Paste the JSON-LD script tag between the <code className="bg-slate-100 px-1 py-0.5 rounded text-sm">&lt;head&gt;</code> and <code className="bg-slate-100 px-1 py-0.5 rounded text-sm">&lt;/head&gt;</code> tags</p>
+
+              {/* Quick Implementation */}
+              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-blue-200 mb-6">
+                <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
+                  <span className="w-6 h-6 bg-green-500 rounded-full flex items-center justify-center text-white text-sm">1</span>
+                  Quick Implementation
+                </h4>
+                <p className="text-slate-600 mb-4">
+                  Add this JSON-LD code to the <code className="bg-slate-100 px-2 py-1 rounded text-sm font-mono">&lt;head&gt;</code> section of your HTML page:
+                </p>
+                <div className="bg-slate-900 rounded-lg p-4 font-mono text-sm text-slate-100 overflow-x-auto">
+                  <div className="text-slate-400 mb-2">&lt;!-- Add this to your HTML head section --&gt;</div>
+                  <div className="text-slate-400">&lt;script type="application/ld+json"&gt;</div>
+                  <div className="text-slate-100 pl-4">{displayedCode}</div>
+                  <div className="text-slate-400">&lt;/script&gt;</div>
                 </div>
               </div>
-              <div className="flex gap-4">
-                <div className="w-8 h-8 bg-gradient-to-r from-orange-500 to-red-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">4</div>
-                <div>
-                  <h5 className="font-semibold text-slate-800">Test Your Implementation</h5>
-                  <p className="text-slate-600">Use Google's Rich Results Test or Schema Markup Validator to verify your schema is working correctly</p>
+
+              {/* Step-by-Step Guide */}
+              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-blue-200 mb-6">
+                <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
+                  <span className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm">2</span>
+                  Step-by-Step Instructions
+                </h4>
+                <div className="space-y-4">
+                  <div className="flex gap-4">
+                    <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">1</div>
+                    <div>
+                      <h5 className="font-semibold text-slate-800">Copy the JSON-LD Code</h5>
+                      <p className="text-slate-600">Use the "Copy Code" button above to copy the complete schema markup</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-4">
+                    <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-emerald-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">2</div>
+                    <div>
+                      <h5 className="font-semibold text-slate-800">Open Your Website's HTML</h5>
+                      <p className="text-slate-600">Locate the HTML file for the page where you want to add the schema markup</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-4">
+                    <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">3</div>
+                    <div>
+                      <h5 className="font-semibold text-slate-800">Add to Head Section</h5>
+                      <p className="text-slate-600">Paste the JSON-LD script tag between the <code className="bg-slate-100 px-1 py-0.5 rounded text-sm">&lt;head&gt;</code> and <code className="bg-slate-100 px-1 py-0.5 rounded text-sm">&lt;/head&gt;</code> tags</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-4">
+                    <div className="w-8 h-8 bg-gradient-to-r from-orange-500 to-red-500 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">4</div>
+                    <div>
+                      <h5 className="font-semibold text-slate-800">Test Your Implementation</h5>
+                      <p className="text-slate-600">Use Google's Rich Results Test or Schema Markup Validator to verify your schema is working correctly</p>
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
 
-          {/* Alternative Implementation Methods */}
-          <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-blue-200 mb-6">
-            <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
-              <span className="w-6 h-6 bg-purple-500 rounded-full flex items-center justify-center text-white text-sm">3</span>
-              Alternative Implementation Methods
-            </h4>
-            <div className="grid md:grid-cols-2 gap-6">
-              <div className="space-y-3">
-                <h5 className="font-semibold text-slate-800">WordPress</h5>
-                <p className="text-slate-600 text-sm">Use a schema plugin like "Schema & Structured Data for WP" or add the code to your theme's header.php file</p>
-              </div>
-              <div className="space-y-3">
-                <h5 className="font-semibold text-slate-800">Shopify</h5>
-                <p className="text-slate-600 text-sm">Add the JSON-LD to your theme.liquid file in the head section, or use the Google Tag Manager method</p>
-              </div>
-              <div className="space-y-3">
-                <h5 className="font-semibold text-slate-800">Google Tag Manager</h5>
-                <p className="text-slate-600 text-sm">Create a custom HTML tag with the JSON-LD script and add it to your GTM container</p>
-              </div>
-              <div className="space-y-3">
-                <h5 className="font-semibold text-slate-800">JavaScript/React</h5>
-                <p className="text-slate-600 text-sm">Add the script tag dynamically using document.head.appendChild() or use a library like react-helmet</p>
+              {/* Alternative Implementation Methods */}
+              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-blue-200 mb-6">
+                <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
+                  <span className="w-6 h-6 bg-purple-500 rounded-full flex items-center justify-center text-white text-sm">3</span>
+                  Alternative Implementation Methods
+                </h4>
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div className="space-y-3">
+                    <h5 className="font-semibold text-slate-800">WordPress</h5>
+                    <p className="text-slate-600 text-sm">Use a schema plugin like "Schema & Structured Data for WP" or add the code to your theme's header.php file</p>
+                  </div>
+                  <div className="space-y-3">
+                    <h5 className="font-semibold text-slate-800">Shopify</h5>
+                    <p className="text-slate-600 text-sm">Add the JSON-LD to your theme.liquid file in the head section, or use the Google Tag Manager method</p>
+                  </div>
+                  <div className="space-y-3">
+                    <h5 className="font-semibold text-slate-800">Google Tag Manager</h5>
+                    <p className="text-slate-600 text-sm">Create a custom HTML tag with the JSON-LD script and add it to your GTM container</p>
+                  </div>
+                  <div className="space-y-3">
+                    <h5 className="font-semibold text-slate-800">JavaScript/React</h5>
+                    <p className="text-slate-600 text-sm">Add the script tag dynamically using document.head.appendChild() or use a library like react-helmet</p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* Testing and Validation */}
-          <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-green-200">
-            <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
-              <span className="w-6 h-6 bg-green-500 rounded-full flex items-center justify-center text-white text-sm">4</span>
-              Testing & Validation
-            </h4>
-            <div className="grid md:grid-cols-2 gap-6">
-              <div>
-                <h5 className="font-semibold text-slate-800 mb-2">Recommended Tools:</h5>
-                <ul className="space-y-2 text-sm text-slate-600">
-                  <li>• <strong>Google Rich Results Test</strong> - Test for rich snippet eligibility</li>
-                  <li>• <strong>Schema Markup Validator</strong> - Validate JSON-LD syntax</li>
-                  <li>• <strong>Google Search Console</strong> - Monitor schema performance</li>
-                  <li>• <strong>Structured Data Testing Tool</strong> - Alternative validation tool</li>
-                </ul>
-              </div>
-              <div>
-                <h5 className="font-semibold text-slate-800 mb-2">Best Practices:</h5>
-                <ul className="space-y-2 text-sm text-slate-600">
-                  <li>• Test on the actual live URL, not just localhost</li>
-                  <li>• Wait 24-48 hours for search engines to recrawl</li>
-                  <li>• Use only one schema type per page when possible</li>
-                  <li>• Ensure schema data matches your page content</li>
-                </ul>
+              {/* Testing and Validation */}
+              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-green-200">
+                <h4 className="font-bold text-lg text-slate-800 mb-4 flex items-center gap-2">
+                  <span className="w-6 h-6 bg-green-500 rounded-full flex items-center justify-center text-white text-sm">4</span>
+                  Testing & Validation
+                </h4>
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div>
+                    <h5 className="font-semibold text-slate-800 mb-2">Recommended Tools:</h5>
+                    <ul className="space-y-2 text-sm text-slate-600">
+                      <li>• <strong>Google Rich Results Test</strong> - Test for rich snippet eligibility</li>
+                      <li>• <strong>Schema Markup Validator</strong> - Validate JSON-LD syntax</li>
+                      <li>• <strong>Google Search Console</strong> - Monitor schema performance</li>
+                      <li>• <strong>Structured Data Testing Tool</strong> - Alternative validation tool</li>
+                    </ul>
+                  </div>
+                  <div>
+                    <h5 className="font-semibold text-slate-800 mb-2">Best Practices:</h5>
+                    <ul className="space-y-2 text-sm text-slate-600">
+                      <li>• Test on the actual live URL, not just localhost</li>
+                      <li>• Wait 24-48 hours for search engines to recrawl</li>
+                      <li>• Use only one schema type per page when possible</li>
+                      <li>• Ensure schema data matches your page content</li>
+                    </ul>
+                  </div>
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
     </div>
   );
 };
\ No newline at end of file
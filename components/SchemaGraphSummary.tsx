@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { SchemaGraph } from '../services/schemaGraphService';
+import { SchemaValidationService, ValidationError } from '../services/schemaValidationService';
+import { ValidationRuleSet } from '../services/validationRules';
+import { CheckCircleIcon, ExclamationTriangleIcon, XCircleIcon } from './Icons';
+
+interface SchemaGraphSummaryProps {
+  graph: SchemaGraph;
+  validationRules?: ValidationRuleSet;
+}
+
+export const SchemaGraphSummary: React.FC<SchemaGraphSummaryProps> = ({ graph, validationRules }) => {
+  // The graph is validated as one document, so references between its entities resolve;
+  // issues are attributed to an entity through their "@graph[i]" path
+  const validation = useMemo(() => SchemaValidationService.validateSchema({
+    type: graph.nodes[0]?.type || 'Thing',
+    schema: JSON.stringify(graph.document)
+  }, validationRules), [graph, validationRules]);
+
+  const entities = graph.nodes.map((entity, index) => {
+    const prefix = `@graph[${index}]`;
+    const belongs = (issue: ValidationError) => !!issue.path
+      && (issue.path === prefix || issue.path.startsWith(`${prefix}.`) || issue.path.startsWith(`${prefix}[`));
+    return {
+      ...entity,
+      errorCount: validation.errors.filter(belongs).length,
+      warningCount: validation.warnings.filter(belongs).length
+    };
+  });
+
+  const knownIds = new Set(graph.nodes.map(entity => entity.id));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-bold text-lg text-slate-800">Entities in the graph</h4>
+        <span className="text-sm font-semibold text-slate-600">Graph score {validation.score}</span>
+      </div>
+      <ul className="space-y-3">
+        {entities.map(entity => (
+          <li key={entity.id || entity.type} className="bg-white/80 border border-slate-200 rounded-xl px-4 py-3">
+            <div className="flex flex-wrap items-center gap-3">
+              {entity.errorCount > 0
+                ? <XCircleIcon className="w-4 h-4 text-red-600" />
+                : entity.warningCount > 0
+                  ? <ExclamationTriangleIcon className="w-4 h-4 text-yellow-600" />
+                  : <CheckCircleIcon className="w-4 h-4 text-green-600" />}
+              <span className="font-semibold text-slate-800">{entity.type}</span>
+              <code className="text-xs text-slate-600 break-all">{entity.id || 'no @id'}</code>
+              <span className="ml-auto text-xs font-semibold text-slate-600">
+                {entity.errorCount} errors · {entity.warningCount} warnings
+              </span>
+            </div>
+            {entity.references.length > 0 && (
+              <p className="mt-1 text-xs text-slate-600">
+                Links to{' '}
+                {entity.references.map((id, index) => (
+                  <React.Fragment key={id}>
+                    {index > 0 && ', '}
+                    <code className={knownIds.has(id) ? 'text-blue-700' : 'text-red-600'} title={knownIds.has(id) ? undefined : 'Not defined in this graph'}>
+                      {id}
+                    </code>
+                  </React.Fragment>
+                ))}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import {
+  SitemapLoadResult,
+  SitemapPageTypeFilter,
+  filterSitemapEntries,
+  loadSitemap
+} from '../services/sitemapService';
+import { PAGE_TYPE_LABELS, PageType, URL_PAGE_TYPE_RULES } from '../services/pageTypeService';
+import { GlobeIcon, StopIcon, UploadIcon } from './Icons';
+
+interface SitemapImportProps {
+  onAddUrls: (urls: string[]) => void;
+}
+
+const PAGE_TYPE_OPTIONS: { id: SitemapPageTypeFilter; label: string }[] = [
+  ...(Object.keys(URL_PAGE_TYPE_RULES) as PageType[]).map(id => ({ id, label: PAGE_TYPE_LABELS[id] })),
+  { id: 'other', label: 'Other' }
+];
+
+const PREVIEW_LIMIT = 8;
+
+export const SitemapImport: React.FC<SitemapImportProps> = ({ onAddUrls }) => {
+  const [sitemapUrl, setSitemapUrl] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [result, setResult] = useState<SitemapLoadResult | null>(null);
+  const [pathPattern, setPathPattern] = useState<string>('');
+  const [pageTypes, setPageTypes] = useState<SitemapPageTypeFilter[]>([]);
+  const [modifiedSince, setModifiedSince] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const filtered = useMemo(() => {
+    if (!result) return { entries: [], error: '' };
+    try {
+      return { entries: filterSitemapEntries(result.entries, { pathPattern, pageTypes, modifiedSince }), error: '' };
+    } catch (filterError) {
+      return { entries: [], error: filterError instanceof Error ? filterError.message : 'Invalid path pattern' };
+    }
+  }, [result, pathPattern, pageTypes, modifiedSince]);
+
+  const runLoad = async (source: Parameters<typeof loadSitemap>[0]) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsLoading(true);
+    setError('');
+    setResult(null);
+    setProgress('');
+
+    try {
+      const loaded = await loadSitemap(source, {
+        signal: controller.signal,
+        onProgress: (sitemapsRead, urlsFound) => setProgress(`${sitemapsRead} sitemap(s) read, ${urlsFound} URLs found`)
+      });
+      setResult(loaded);
+      if (loaded.entries.length === 0) {
+        setError('The sitemap did not list any URLs.');
+      }
+    } catch (loadError) {
+      if (!controller.signal.aborted) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to read the sitemap');
+      }
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleLoadUrl = () => {
+    try {
+      if (!['http:', 'https:'].includes(new URL(sitemapUrl).protocol)) throw new Error();
+    } catch {
+      setError('Please enter a sitemap URL such as https://example.com/sitemap.xml');
+      return;
+    }
+    runLoad(sitemapUrl);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    runLoad({ fileName: file.name, buffer: await file.arrayBuffer(), baseUrl: sitemapUrl || undefined });
+  };
+
+  const togglePageType = (pageType: SitemapPageTypeFilter) => {
+    setPageTypes(previous => previous.includes(pageType)
+      ? previous.filter(candidate => candidate !== pageType)
+      : [...previous, pageType]);
+  };
+
+  return (
+    <div className="space-y-3 border-t border-slate-200 pt-4">
+      <h3 className="text-sm font-semibold text-slate-800">Import from a sitemap</h3>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          type="url"
+          value={sitemapUrl}
+          onChange={(e) => {
+            setSitemapUrl(e.target.value);
+            if (error) setError('');
+          }}
+          placeholder="https://example.com/sitemap.xml"
+          className="flex-grow bg-white/90 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-400"
+          aria-label="Sitemap URL"
+          disabled={isLoading}
+        />
+        {isLoading ? (
+          <button
+            type="button"
+            onClick={() => abortControllerRef.current?.abort()}
+            className="inline-flex items-center justify-center gap-1.5 text-red-600 font-medium bg-white/80 px-4 py-2 rounded-lg border border-red-200 text-sm"
+          >
+            <StopIcon className="w-3.5 h-3.5" />
+            Stop
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={handleLoadUrl}
+              className="inline-flex items-center justify-center gap-1.5 text-slate-700 hover:text-slate-900 font-medium bg-white/80 px-4 py-2 rounded-lg border border-slate-200 text-sm"
+            >
+              <GlobeIcon className="w-4 h-4" />
+              Read Sitemap
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex items-center justify-center gap-1.5 text-slate-700 hover:text-slate-900 font-medium bg-white/80 px-4 py-2 rounded-lg border border-slate-200 text-sm"
+              title="Upload a sitemap.xml or sitemap.xml.gz file; the URL field, if filled, is used to resolve relative entries"
+            >
+              <UploadIcon className="w-4 h-4" />
+              Upload
+            </button>
+          </>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xml,.gz,application/xml,text/xml,application/gzip"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {isLoading && progress && <p className="text-xs text-slate-600">{progress}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && result.entries.length > 0 && (
+        <div className="space-y-3">
+          <div className="grid md:grid-cols-3 gap-3">
+            <label className="text-sm text-slate-700">
+              <span className="block font-medium mb-1">Path pattern</span>
+              <input
+                type="text"
+                value={pathPattern}
+                onChange={(e) => setPathPattern(e.target.value)}
+                placeholder="/blog/*, /products/ or /^\/p\/\d+/"
+                className="w-full bg-white/90 border border-slate-200 rounded-lg px-3 py-2 font-mono text-xs"
+              />
+            </label>
+            <label className="text-sm text-slate-700">
+              <span className="block font-medium mb-1">Modified since</span>
+              <input
+                type="date"
+                value={modifiedSince}
+                onChange={(e) => setModifiedSince(e.target.value)}
+                className="w-full bg-white/90 border border-slate-200 rounded-lg px-3 py-2"
+              />
+            </label>
+            <div className="text-sm text-slate-700">
+              <span className="block font-medium mb-1">Page type (guessed from URL)</span>
+              <div className="flex flex-wrap gap-2">
+                {PAGE_TYPE_OPTIONS.map(option => (
+                  <label key={option.id} className="inline-flex items-center gap-1 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={pageTypes.includes(option.id)}
+                      onChange={() => togglePageType(option.id)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {filtered.error && <p className="text-sm text-red-600">{filtered.error}</p>}
+
+          <div className="bg-white/80 border border-slate-200 rounded-lg p-3 text-xs text-slate-700">
+            <p className="font-semibold mb-1">
+              {filtered.entries.length} of {result.entries.length} URLs match
+              <span className="font-normal text-slate-500"> · {result.sitemapsRead} sitemap(s) read</span>
+            </p>
+            <ul className="font-mono space-y-0.5">
+              {filtered.entries.slice(0, PREVIEW_LIMIT).map(entry => (
+                <li key={entry.url} className="truncate">
+                  {entry.url}
+                  {entry.lastmod && <span className="text-slate-400"> · {entry.lastmod}</span>}
+                </li>
+              ))}
+              {filtered.entries.length > PREVIEW_LIMIT && (
+                <li className="text-slate-500">…and {filtered.entries.length - PREVIEW_LIMIT} more</li>
+              )}
+            </ul>
+            {result.errors.length > 0 && (
+              <ul className="mt-2 text-yellow-700">
+                {result.errors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <button
+            type="button"
+            onClick={() => onAddUrls(filtered.entries.map(entry => entry.url))}
+            disabled={filtered.entries.length === 0}
+            className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-bold py-2 px-5 rounded-xl shadow-lg text-sm disabled:opacity-50"
+          >
+            Add {filtered.entries.length} URLs to Queue
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+
+interface SyntaxHighlightedCodeProps {
+  code: string;
+  // 1-based, inclusive line range to highlight and scroll into view
+  highlightLines?: { start: number; end: number } | null;
+}
+
+export const SyntaxHighlightedCode: React.FC<SyntaxHighlightedCodeProps> = React.memo(({ code, highlightLines }) => {
+  const containerRef = useRef<HTMLSpanElement>(null);
+
+  const highlightedHtml = useMemo(() => {
+    if (!code) return '';
+
+    // Ensure code is a string
+    const codeString = typeof code === 'string' ? code : JSON.stringify(code, null, 2);
+
+    let tempCode = codeString
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+
+    // Keys
+    tempCode = tempCode.replace(/"([^"\\]|\\.)*"(?=\s*:)/g, (match) => {
+        return `<span style="color: #c084fc;">${match}</span>`;
+    });
+    
+    // String values
+    tempCode = tempCode.replace(/:\s*("([^"\\]|\\.)*")/g, (match, group) => {
+        return `: <span style="color: #4ade80;">${group}</span>`;
+    });
+
+    // Numbers
+    tempCode = tempCode.replace(/\b-?(?:\d+|\d+\.\d+|\.\d+)(?:[eE][-+]?\d+)?\b/g, '<span style="color: #60a5fa;">$&</span>');
+
+    // Booleans
+    tempCode = tempCode.replace(/\b(true|false)\b/g, '<span style="color: #fbbf24;">$&</span>');
+
+    // Null
+    tempCode = tempCode.replace(/\b(null)\b/g, '<span style="color: #94a3b8;">$&</span>');
+
+    return tempCode;
+  }, [code]);
+
+  // Tokens never span lines, so the highlighted markup can be split per line
+  const lines = useMemo(() => highlightedHtml.split('\n'), [highlightedHtml]);
+
+  useEffect(() => {
+    if (!highlightLines) return;
+    containerRef.current
+      ?.querySelector(`[data-line="${highlightLines.start}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightLines]);
+
+  return (
+    <span ref={containerRef} className="block">
+      {lines.map((line, index) => {
+        const lineNumber = index + 1;
+        const isHighlighted = !!highlightLines && lineNumber >= highlightLines.start && lineNumber <= highlightLines.end;
+        return (
+          <span
+            key={index}
+            data-line={lineNumber}
+            className={`block ${isHighlighted ? 'bg-yellow-400/20 -mx-2 px-2 rounded-sm' : ''}`}
+            dangerouslySetInnerHTML={{ __html: line || ' ' }}
+          />
+        );
+      })}
+    </span>
+  );
+});
@@ -1,24 +1,52 @@
-import React, { useState } from 'react';
-import { SparklesIcon, MagicWandIcon, StopIcon } from './Icons';
+import React, { useState, useRef } from 'react';
+import { SparklesIcon, MagicWandIcon, StopIcon, FileSearchIcon, UploadIcon, CheckCircleIcon } from './Icons';
+import { PageInput } from '../types';
+
+type InputMode = 'url' | 'paste' | 'upload' | 'validate';
+
+const INPUT_MODES: { id: InputMode; label: string }[] = [
+  { id: 'url', label: 'URL' },
+  { id: 'paste', label: 'Paste HTML' },
+  { id: 'upload', label: 'Upload HTML File' },
+  { id: 'validate', label: 'Validate JSON-LD' }
+];
+
+interface JsonLdFile {
+  name: string;
+  text: string;
+}
 
 interface UrlInputFormProps {
-  onGenerate: (url: string) => void;
+  onGenerate: (input: PageInput) => void;
+  onCheckExisting: (input: PageInput) => void;
+  onValidateJsonLd: (documents: string[]) => void;
   isLoading: boolean;
   onExample: () => void;
   onCancel: () => void;
   onUrlChange: (url: string) => void;
+  // Lets keyboard shortcuts submit the form as if its button was pressed
+  formRef?: React.Ref<HTMLFormElement>;
 }
 
-export const UrlInputForm: React.FC<UrlInputFormProps> = ({ onGenerate, isLoading, onExample, onCancel, onUrlChange }) => {
+export const UrlInputForm: React.FC<UrlInputFormProps> = ({ onGenerate, onCheckExisting, onValidateJsonLd, isLoading, onExample, onCancel, onUrlChange, formRef }) => {
+  const [mode, setMode] = useState<InputMode>('url');
   const [url, setUrl] = useState<string>('');
   const [isFocused, setIsFocused] = useState<boolean>(false);
   const [urlError, setUrlError] = useState<string>('');
+  const [html, setHtml] = useState<string>('');
+  const [fileName, setFileName] = useState<string>('');
+  const [htmlError, setHtmlError] = useState<string>('');
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [jsonLd, setJsonLd] = useState<string>('');
+  const [jsonLdFiles, setJsonLdFiles] = useState<JsonLdFile[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const jsonLdFileInputRef = useRef<HTMLInputElement>(null);
 
   const validateUrl = (inputUrl: string): string => {
     if (!inputUrl.trim()) {
-      return 'Please enter a URL';
+      return mode === 'url' ? 'Please enter a URL' : 'Please enter the base URL the HTML belongs to';
     }
-    
+
     try {
       const urlObj = new URL(inputUrl);
       if (!['http:', 'https:'].includes(urlObj.protocol)) {
@@ -34,76 +62,293 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ onGenerate, isLoadin
     const newUrl = e.target.value;
     setUrl(newUrl);
     onUrlChange(newUrl); // Notify parent component
-    
+
     // Clear error when user starts typing
     if (urlError) {
       setUrlError('');
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleModeChange = (newMode: InputMode) => {
+    setMode(newMode);
+    setUrlError('');
+    setHtmlError('');
+  };
+
+  const loadFile = async (file: File) => {
+    if (!/\.html?$/i.test(file.name) && file.type !== 'text/html') {
+      setHtmlError('Please choose an .html or .htm file');
+      return;
+    }
+    setHtml(await file.text());
+    setFileName(file.name);
+    setHtmlError('');
+  };
+
+  const loadJsonLdFiles = async (files: FileList) => {
+    const accepted = Array.from(files).filter(file => /\.(jsonld|json|html?)$/i.test(file.name));
+    setHtmlError(accepted.length < files.length ? 'Only .jsonld, .json and .html files can be validated' : '');
+
+    const loaded = await Promise.all(accepted.map(async file => ({ name: file.name, text: await file.text() })));
+    setJsonLdFiles(previous => [...previous, ...loaded]);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  // Validates the form and builds the input for the current mode, or returns null
+  const buildInput = (): PageInput | null => {
     const error = validateUrl(url);
-    
-    if (error) {
-      setUrlError(error);
+    const missingHtml = mode !== 'url' && !html.trim()
+      ? (mode === 'paste' ? 'Please paste the page HTML' : 'Please choose an HTML file')
+      : '';
+
+    setUrlError(error);
+    setHtmlError(missingHtml);
+    if (error || missingHtml) return null;
+
+    return mode === 'url'
+      ? { kind: 'url', url }
+      : { kind: 'html', html, baseUrl: url, fileName: mode === 'upload' ? fileName : undefined };
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (mode === 'validate') {
+      const documents = [jsonLd, ...jsonLdFiles.map(file => file.text)].filter(text => text.trim());
+      if (documents.length === 0) {
+        setHtmlError('Please paste JSON-LD or choose one or more files');
+        return;
+      }
+      setHtmlError('');
+      onValidateJsonLd(documents);
       return;
     }
-    
-    onGenerate(url);
+
+    const input = buildInput();
+    if (input) onGenerate(input);
+  };
+
+  const handleCheckExisting = () => {
+    const input = buildInput();
+    if (input) onCheckExisting(input);
   };
 
   const isInputActive = isFocused || url.length > 0;
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-4">
+    <form ref={formRef} onSubmit={handleSubmit} className="space-y-4">
       <div className="text-center mb-4">
         <h2 className="text-xl font-bold text-slate-800 mb-2">Generate Schema Markup</h2>
-        <p className="text-slate-600 text-sm">Enter any website URL to get started</p>
+        <p className="text-slate-600 text-sm">
+          {mode === 'url'
+            ? 'Enter any website URL to get started'
+            : mode === 'validate'
+              ? 'Check JSON-LD you already have, without fetching a page or generating anything'
+              : 'Use HTML from staging sites, saved pages or CMS previews'}
+        </p>
       </div>
 
-      <div className="flex flex-col lg:flex-row gap-3">
-        {/* Modern input container */}
-        <div className="flex-grow relative">
-          <div className="relative">
-            <input
-              type="url"
-              value={url}
-              onChange={handleUrlChange}
-              onFocus={() => setIsFocused(true)}
-              onBlur={() => setIsFocused(false)}
-              className={`w-full bg-white/90 backdrop-blur-sm border-2 rounded-xl px-4 py-3 text-slate-900 text-base transition-all duration-300 focus:outline-none shadow-lg ${
-                urlError
-                  ? 'border-red-400 shadow-red-200'
-                  : isInputActive
-                    ? 'border-blue-400 shadow-blue-200'
-                    : 'border-slate-200 hover:border-slate-300 shadow-slate-200'
-              } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+      <div className="flex justify-center">
+        <div className="inline-flex bg-white/80 rounded-full border border-slate-200 p-1 shadow-sm" role="tablist" aria-label="Input mode">
+          {INPUT_MODES.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              role="tab"
+              aria-selected={mode === option.id}
+              onClick={() => handleModeChange(option.id)}
               disabled={isLoading}
-              required
-              placeholder="https://example.com"
-              aria-label="Website URL to analyze for schema generation"
-              aria-invalid={urlError ? 'true' : 'false'}
-              aria-describedby={urlError ? 'url-error' : 'url-help'}
-              aria-required="true"
+              className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors disabled:opacity-50 ${
+                mode === option.id ? 'bg-blue-600 text-white' : 'text-slate-600 hover:text-slate-800'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'paste' && (
+        <textarea
+          value={html}
+          onChange={(e) => {
+            setHtml(e.target.value);
+            if (htmlError) setHtmlError('');
+          }}
+          disabled={isLoading}
+          rows={8}
+          placeholder="<!DOCTYPE html><html>...</html>"
+          className={`w-full bg-white/90 border-2 rounded-xl px-4 py-3 text-slate-900 text-sm font-mono focus:outline-none shadow-lg ${
+            htmlError ? 'border-red-400' : 'border-slate-200 focus:border-blue-400'
+          }`}
+          aria-label="Page HTML"
+        />
+      )}
+
+      {mode === 'upload' && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          className={`cursor-pointer border-2 border-dashed rounded-xl p-6 text-center transition-colors ${
+            isDragging
+              ? 'border-blue-400 bg-blue-50'
+              : htmlError
+                ? 'border-red-400 bg-white/80'
+                : 'border-slate-300 bg-white/80 hover:border-slate-400'
+          }`}
+        >
+          <UploadIcon className="w-8 h-8 text-slate-400 mx-auto mb-2" />
+          {fileName ? (
+            <p className="text-sm text-slate-700">
+              <strong>{fileName}</strong> ({Math.ceil(html.length / 1024)} KB) — click or drop to replace
+            </p>
+          ) : (
+            <p className="text-sm text-slate-600">Drop an .html file here, or click to choose one</p>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".html,.htm,text/html"
+            onChange={handleFileChange}
+            className="hidden"
+            disabled={isLoading}
+          />
+        </div>
+      )}
+
+      {mode === 'validate' && (
+        <div className="space-y-3">
+          <textarea
+            value={jsonLd}
+            onChange={(e) => {
+              setJsonLd(e.target.value);
+              if (htmlError) setHtmlError('');
+            }}
+            rows={8}
+            placeholder='{ "@context": "https://schema.org", "@type": "Product", ... }'
+            className={`w-full bg-white/90 border-2 rounded-xl px-4 py-3 text-slate-900 text-sm font-mono focus:outline-none shadow-lg ${
+              htmlError ? 'border-red-400' : 'border-slate-200 focus:border-blue-400'
+            }`}
+            aria-label="JSON-LD to validate"
+          />
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              loadJsonLdFiles(e.dataTransfer.files);
+            }}
+            onClick={() => jsonLdFileInputRef.current?.click()}
+            className={`cursor-pointer border-2 border-dashed rounded-xl p-4 text-center transition-colors ${
+              isDragging ? 'border-blue-400 bg-blue-50' : 'border-slate-300 bg-white/80 hover:border-slate-400'
+            }`}
+          >
+            <p className="text-sm text-slate-600">Or drop .jsonld / .json files here, or click to choose them</p>
+            <input
+              ref={jsonLdFileInputRef}
+              type="file"
+              multiple
+              accept=".jsonld,.json,.html,.htm,application/ld+json,application/json"
+              onChange={(e) => {
+                if (e.target.files) loadJsonLdFiles(e.target.files);
+                e.target.value = '';
+              }}
+              className="hidden"
             />
-            <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-              <div className="w-5 h-5 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-full flex items-center justify-center">
-                <span className="text-white text-xs">🔗</span>
-              </div>
-            </div>
           </div>
+          {jsonLdFiles.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {jsonLdFiles.map((file, index) => (
+                <li key={`${file.name}-${index}`} className="inline-flex items-center gap-2 bg-white/80 border border-slate-200 rounded-full px-3 py-1 text-xs text-slate-700">
+                  {file.name}
+                  <button
+                    type="button"
+                    onClick={() => setJsonLdFiles(previous => previous.filter((_, i) => i !== index))}
+                    className="text-slate-400 hover:text-red-600"
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {htmlError && (
+        <div className="flex items-center gap-1.5 text-red-600 font-medium text-sm">
+          <div className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center">
+            <span className="text-red-600 text-xs">!</span>
+          </div>
+          {htmlError}
+        </div>
+      )}
 
-          {/* Error message */}
-          {urlError && (
-            <div id="url-error" className="mt-2 flex items-center gap-1.5 text-red-600 font-medium text-sm">
-              <div className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center">
-                <span className="text-red-600 text-xs">!</span>
+      <div className={`flex flex-col lg:flex-row gap-3 ${mode === 'validate' ? 'lg:justify-center' : ''}`}>
+        {/* Modern input container */}
+        {mode !== 'validate' && (
+          <div className="flex-grow relative">
+            <div className="relative">
+              <input
+                type="url"
+                value={url}
+                onChange={handleUrlChange}
+                onFocus={() => setIsFocused(true)}
+                onBlur={() => setIsFocused(false)}
+                className={`w-full bg-white/90 backdrop-blur-sm border-2 rounded-xl px-4 py-3 text-slate-900 text-base transition-all duration-300 focus:outline-none shadow-lg ${
+                  urlError
+                    ? 'border-red-400 shadow-red-200'
+                    : isInputActive
+                      ? 'border-blue-400 shadow-blue-200'
+                      : 'border-slate-200 hover:border-slate-300 shadow-slate-200'
+                } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                disabled={isLoading}
+                required
+                placeholder={mode === 'url' ? 'https://example.com' : 'Base URL, e.g. https://example.com/products/widget'}
+                aria-label={mode === 'url' ? 'Website URL to analyze for schema generation' : 'Base URL used to resolve links and @id values'}
+                aria-invalid={urlError ? 'true' : 'false'}
+                aria-describedby={urlError ? 'url-error' : 'url-help'}
+                aria-required="true"
+              />
+              <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                <div className="w-5 h-5 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-full flex items-center justify-center">
+                  <span className="text-white text-xs">🔗</span>
+                </div>
               </div>
-              {urlError}
             </div>
-          )}
-        </div>
+
+            {/* Error message */}
+            {urlError && (
+              <div id="url-error" className="mt-2 flex items-center gap-1.5 text-red-600 font-medium text-sm">
+                <div className="w-4 h-4 bg-red-100 rounded-full flex items-center justify-center">
+                  <span className="text-red-600 text-xs">!</span>
+                </div>
+                {urlError}
+              </div>
+            )}
+          </div>
+        )}
 
         {isLoading ? (
           <button
@@ -115,11 +360,20 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ onGenerate, isLoadin
             <StopIcon className="w-4 h-4" />
             Stop
           </button>
+        ) : mode === 'validate' ? (
+          <button
+            type="submit"
+            className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-blue-500/30 shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95 text-sm min-w-[140px]"
+            aria-label="Validate the supplied JSON-LD"
+          >
+            <CheckCircleIcon className="w-4 h-4" />
+            Validate
+          </button>
         ) : (
           <button
             type="submit"
             className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-blue-500/30 shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95 text-sm min-w-[140px]"
-            aria-label="Generate schema markup for the entered URL"
+            aria-label={mode === 'url' ? 'Generate schema markup for the entered URL' : 'Generate schema markup for the supplied HTML'}
             title="Generate schema markup (Ctrl+Enter)"
           >
             <SparklesIcon className="w-4 h-4" />
@@ -128,7 +382,19 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ onGenerate, isLoadin
         )}
       </div>
 
-      <div className="text-center pt-2">
+      <div className="flex flex-wrap items-center justify-center gap-2 pt-2">
+        {mode !== 'validate' && (
+           <button
+              type="button"
+              onClick={handleCheckExisting}
+              disabled={isLoading}
+              className="inline-flex items-center gap-1.5 text-slate-600 hover:text-slate-800 active:text-slate-900 transition-colors disabled:opacity-50 font-medium bg-white/50 hover:bg-white/80 px-4 py-2 rounded-full border border-slate-200 shadow-sm text-sm"
+              title="Validate the structured data the page already has, without generating new schemas"
+          >
+              <FileSearchIcon className="w-4 h-4" />
+              Check Existing Markup
+          </button>
+        )}
          <button
             type="button"
             onClick={onExample}
@@ -141,4 +407,4 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ onGenerate, isLoadin
       </div>
     </form>
   );
-};
\ No newline at end of file
+};
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { ValidationResult, ValidationError } from '../services/schemaValidationService';
+import { ValidationResult, ValidationError, ValidationFix } from '../services/schemaValidationService';
+import { RichResultEligibility, RICH_RESULT_STATUS_LABELS } from '../services/richResultsService';
+import { VALIDATION_RULES } from '../services/validationRules';
 import { 
   CheckCircleIcon, 
   ExclamationTriangleIcon, 
@@ -12,10 +14,24 @@ import {
 interface ValidationResultsProps {
   validation: ValidationResult;
   schemaType: string;
+  // Called when an issue with a source position is clicked, to show it in the code view
+  onSelectIssue?: (issue: ValidationError) => void;
+  selectedIssue?: ValidationError | null;
+  // Called to rewrite the schema with one issue's fix, or with every available fix
+  onApplyFix?: (fix: ValidationFix) => void;
+  onApplyAllFixes?: () => void;
 }
 
 
-const ValidationErrorItem: React.FC<{ error: ValidationError; index: number }> = ({ error, index }) => {
+const ValidationErrorItem: React.FC<{
+  error: ValidationError;
+  index: number;
+  isSelected?: boolean;
+  onSelect?: (issue: ValidationError) => void;
+  onApplyFix?: (fix: ValidationFix) => void;
+}> = ({ error, index, isSelected = false, onSelect, onApplyFix }) => {
+  const isLocatable = !!onSelect && error.line !== undefined;
+
   const getIcon = () => {
     switch (error.type) {
       case 'error':
@@ -56,7 +72,11 @@ const ValidationErrorItem: React.FC<{ error: ValidationError; index: number }> =
   };
 
   return (
-    <div className={`border rounded-xl p-4 shadow-sm ${getBorderColor()}`}>
+    <div
+      className={`border rounded-xl p-4 shadow-sm ${getBorderColor()} ${isLocatable ? 'cursor-pointer hover:shadow-md transition-shadow' : ''} ${isSelected ? 'ring-2 ring-blue-400' : ''}`}
+      onClick={isLocatable ? () => onSelect!(error) : undefined}
+      title={isLocatable ? 'Show in code' : undefined}
+    >
       <div className="flex items-start gap-3">
         <div className="w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 mt-1">
           {getIcon()}
@@ -65,9 +85,11 @@ const ValidationErrorItem: React.FC<{ error: ValidationError; index: number }> =
           <p className={`text-base font-semibold ${getTextColor()}`}>
             {error.message}
           </p>
-          {error.path && (
+          {(error.path || error.line !== undefined) && (
             <p className="text-sm text-slate-600 mt-2 font-mono bg-slate-100 px-2 py-1 rounded">
-              Path: {error.path}
+              {error.path && <>Path: {error.path}</>}
+              {error.path && error.line !== undefined && ' · '}
+              {error.line !== undefined && <>Line {error.line}, column {error.column}</>}
             </p>
           )}
           {error.suggestion && (
@@ -77,6 +99,35 @@ const ValidationErrorItem: React.FC<{ error: ValidationError; index: number }> =
               </p>
             </div>
           )}
+          {error.fix && onApplyFix && (
+            <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-white/80 rounded-lg border border-green-200">
+              <p className="text-sm text-slate-700 min-w-0 break-words">
+                <strong className="text-slate-800">Fix:</strong> {error.fix.description}
+              </p>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onApplyFix(error.fix!);
+                }}
+                className="text-sm font-semibold px-3 py-1.5 rounded-full bg-green-600 hover:bg-green-700 text-white flex-shrink-0 transition-colors"
+              >
+                Apply fix
+              </button>
+            </div>
+          )}
+          <p className="text-xs text-slate-500 mt-2" title={VALIDATION_RULES[error.rule].description}>
+            Rule <code className="font-mono">{error.rule}</code>
+            {' · '}
+            <a
+              href={VALIDATION_RULES[error.rule].docUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              className="text-blue-600 hover:underline"
+            >
+              Documentation
+            </a>
+          </p>
         </div>
       </div>
     </div>
@@ -89,7 +140,10 @@ const ValidationSection: React.FC<{
   icon: React.ReactNode; 
   color: string;
   defaultExpanded?: boolean;
-}> = ({ title, errors, icon, color, defaultExpanded = false }) => {
+  selectedIssue?: ValidationError | null;
+  onSelectIssue?: (issue: ValidationError) => void;
+  onApplyFix?: (fix: ValidationFix) => void;
+}> = ({ title, errors, icon, color, defaultExpanded = false, selectedIssue, onSelectIssue, onApplyFix }) => {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
 
   if (errors.length === 0) return null;
@@ -116,7 +170,14 @@ const ValidationSection: React.FC<{
       {isExpanded && (
         <div className="border-t border-white/20 p-4 space-y-3 bg-gradient-to-r from-slate-50/50 to-blue-50/50">
           {errors.map((error, index) => (
-            <ValidationErrorItem key={index} error={error} index={index} />
+            <ValidationErrorItem
+              key={index}
+              error={error}
+              index={index}
+              isSelected={error === selectedIssue}
+              onSelect={onSelectIssue}
+              onApplyFix={onApplyFix}
+            />
           ))}
         </div>
       )}
@@ -124,8 +185,81 @@ const ValidationSection: React.FC<{
   );
 };
 
-export const ValidationResults: React.FC<ValidationResultsProps> = ({ validation, schemaType }) => {
+const RichResultItem: React.FC<{ result: RichResultEligibility }> = ({ result }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const missing = [...result.missingRequired, ...result.missingRecommended];
+
+  const getStatusClasses = () => {
+    switch (result.status) {
+      case 'eligible':
+        return 'bg-green-100 text-green-700';
+      case 'eligible-with-warnings':
+        return 'bg-yellow-100 text-yellow-700';
+      default:
+        return 'bg-red-100 text-red-700';
+    }
+  };
+
+  const getIcon = () => {
+    switch (result.status) {
+      case 'eligible':
+        return <CheckCircleIcon className="w-4 h-4 text-green-600" />;
+      case 'eligible-with-warnings':
+        return <ExclamationTriangleIcon className="w-4 h-4 text-yellow-600" />;
+      default:
+        return <XCircleIcon className="w-4 h-4 text-red-600" />;
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg bg-white/80">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={missing.length === 0}
+        className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left"
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          {getIcon()}
+          <span className="font-semibold text-slate-800">{result.label}</span>
+          {result.path && <span className="text-xs text-slate-500 font-mono truncate">{result.path}</span>}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className={`text-xs font-semibold px-2 py-1 rounded-full ${getStatusClasses()}`}>
+            {RICH_RESULT_STATUS_LABELS[result.status]}
+          </span>
+          {missing.length > 0 && (isExpanded
+            ? <ChevronDownIcon className="w-4 h-4 text-slate-500" />
+            : <ChevronRightIcon className="w-4 h-4 text-slate-500" />)}
+        </div>
+      </button>
+      {isExpanded && missing.length > 0 && (
+        <div className="border-t border-slate-200 px-3 py-2 space-y-1 text-sm">
+          {result.missingRequired.length > 0 && (
+            <p className="text-red-700">
+              <strong>Missing required:</strong> <span className="font-mono">{result.missingRequired.join(', ')}</span>
+            </p>
+          )}
+          {result.missingRecommended.length > 0 && (
+            <p className="text-yellow-700">
+              <strong>Missing recommended:</strong> <span className="font-mono">{result.missingRecommended.join(', ')}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ValidationResults: React.FC<ValidationResultsProps> = ({
+  validation,
+  schemaType,
+  onSelectIssue,
+  selectedIssue,
+  onApplyFix,
+  onApplyAllFixes
+}) => {
   const [showDetails, setShowDetails] = useState(false);
+  const fixableCount = [...validation.errors, ...validation.warnings, ...validation.info].filter(issue => issue.fix).length;
 
   const getStatusIcon = () => {
     if (validation.isValid && validation.warnings.length === 0) {
@@ -186,6 +320,16 @@ export const ValidationResults: React.FC<ValidationResultsProps> = ({ validation
         </div>
         
         <div className="flex items-center gap-4">
+          {fixableCount > 0 && onApplyAllFixes && (
+            <button
+              onClick={onApplyAllFixes}
+              className="text-base font-semibold px-4 py-2 rounded-full bg-green-600 hover:bg-green-700 text-white shadow-lg transition-colors"
+              title="Apply every suggested fix and validate again"
+            >
+              Fix all ({fixableCount})
+            </button>
+          )}
+
           {/* Score Badge */}
           <div className={`px-4 py-2 rounded-full shadow-lg ${getScoreBgColor()}`}>
             <span className={`text-lg font-bold ${getScoreColor()}`}>
@@ -267,6 +411,16 @@ export const ValidationResults: React.FC<ValidationResultsProps> = ({ validation
         )}
       </div>
 
+      {/* Google Rich Results */}
+      {validation.richResults.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-bold text-slate-800">Google rich results</h4>
+          {validation.richResults.map((result, index) => (
+            <RichResultItem key={index} result={result} />
+          ))}
+        </div>
+      )}
+
       {/* Detailed Results */}
       {showDetails && (
         <div className="space-y-4">
@@ -276,6 +430,9 @@ export const ValidationResults: React.FC<ValidationResultsProps> = ({ validation
             icon={<XCircleIcon className="w-5 h-5 text-red-500" />}
             color="text-red-600"
             defaultExpanded={validation.errors.length > 0}
+            selectedIssue={selectedIssue}
+            onSelectIssue={onSelectIssue}
+            onApplyFix={onApplyFix}
           />
           
           <ValidationSection
@@ -284,6 +441,9 @@ export const ValidationResults: React.FC<ValidationResultsProps> = ({ validation
             icon={<ExclamationTriangleIcon className="w-5 h-5 text-yellow-500" />}
             color="text-yellow-600"
             defaultExpanded={validation.warnings.length > 0 && validation.errors.length === 0}
+            selectedIssue={selectedIssue}
+            onSelectIssue={onSelectIssue}
+            onApplyFix={onApplyFix}
           />
           
           <ValidationSection
@@ -292,6 +452,9 @@ export const ValidationResults: React.FC<ValidationResultsProps> = ({ validation
             icon={<InformationCircleIcon className="w-5 h-5 text-blue-500" />}
             color="text-blue-600"
             defaultExpanded={validation.info.length > 0 && validation.errors.length === 0 && validation.warnings.length === 0}
+            selectedIssue={selectedIssue}
+            onSelectIssue={onSelectIssue}
+            onApplyFix={onApplyFix}
           />
         </div>
       )}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseUrlList } from './batchService';
+
+describe('parseUrlList', () => {
+  it('reads one URL per line or several comma separated ones', () => {
+    expect(parseUrlList('https://example.com/a\n\n  https://example.com/b  \r\nhttps://example.com/c, https://example.com/d')).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+      'https://example.com/c',
+      'https://example.com/d'
+    ]);
+  });
+
+  it('uses the column a CSV header names', () => {
+    const csv = 'Title,Address,Canonical\n"Home, sweet home",https://example.com/,https://example.com/index\nAbout,https://example.com/about,';
+    expect(parseUrlList(csv)).toEqual(['https://example.com/', 'https://example.com/about']);
+  });
+
+  it('takes the first URL of each row without a URL header', () => {
+    expect(parseUrlList('Home;https://example.com/;https://example.com/index\nAbout\thttps://example.com/about')).toEqual([
+      'https://example.com/',
+      'https://example.com/about'
+    ]);
+  });
+
+  it('drops invalid entries and duplicates', () => {
+    expect(parseUrlList('https://example.com/\nexample.com/about\nftp://example.com/file\nhttps://example.com/')).toEqual([
+      'https://example.com/'
+    ]);
+    expect(parseUrlList('  \n ')).toEqual([]);
+  });
+});
@@ -0,0 +1,319 @@
+import { generateSchemaForPage } from './geminiService';
+import { SchemaValidationService } from './schemaValidationService';
+import { ValidationRuleSet } from './validationRules';
+import WebsiteProfileService from './websiteProfileService';
+import { SchemaObject } from '../types';
+
+// Development-only logging utility
+const devLog = (...args: any[]) => {
+  if (process.env.NODE_ENV === 'development') {
+    console.log(...args);
+  }
+};
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  url: string;
+  status: BatchItemStatus;
+  attempts: number;
+  schemas: SchemaObject[];
+  types: string[];
+  averageScore?: number;
+  lowestScore?: number;
+  errorCount: number;
+  warningCount: number;
+  error?: string;
+}
+
+export type BatchRunner = (url: string, signal: AbortSignal) => Promise<SchemaObject[]>;
+
+export interface BatchQueueOptions {
+  concurrency: number; // pages processed at once, across all hosts
+  perHostConcurrency: number; // pages processed at once on the same host
+  perHostDelayMs: number; // minimum gap between starting two pages on the same host
+  runner?: BatchRunner;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchQueueOptions = {
+  concurrency: 4,
+  perHostConcurrency: 1,
+  perHostDelayMs: 1000
+};
+
+// Header names recognised as the URL column of a CSV export
+const URL_COLUMN_NAMES = ['url', 'urls', 'address', 'link', 'page', 'loc'];
+
+/**
+ * Splits one CSV line into cells, honouring double-quoted cells
+ */
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads URLs from a pasted list (one per line, or comma separated) or a CSV export.
+ * A CSV header naming a URL column picks that column; otherwise the first URL-looking cell
+ * of each row is used. Invalid entries are dropped and duplicates removed.
+ */
+export const parseUrlList = (text: string): string[] => {
+  const rows = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(parseCsvLine);
+  if (rows.length === 0) return [];
+
+  const urlColumn = rows[0].findIndex(cell => URL_COLUMN_NAMES.includes(cell.toLowerCase()));
+  const dataRows = urlColumn >= 0 ? rows.slice(1) : rows;
+
+  const urls = dataRows.flatMap(cells => {
+    if (urlColumn >= 0) return cells[urlColumn] ? [cells[urlColumn]] : [];
+    // Plain lists may put several comma separated URLs on one line
+    const looksLikeList = cells.every(cell => !cell || isHttpUrl(cell));
+    return looksLikeList ? cells : cells.filter(isHttpUrl).slice(0, 1);
+  });
+
+  return Array.from(new Set(urls.filter(isHttpUrl)));
+};
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Default runner: the same fetch, extract and generate pipeline used for single pages
+ */
+const generateForUrl: BatchRunner = async (url, signal) => {
+  const result = await generateSchemaForPage({ kind: 'url', url }, signal);
+  return (JSON.parse(result) as SchemaObject[]).map(item => {
+    try {
+      return { ...item, schema: JSON.stringify(JSON.parse(item.schema), null, 2) };
+    } catch {
+      return item;
+    }
+  });
+};
+
+/**
+ * Validation summary shown per URL in the results table, under the rule set of the URL's profile
+ */
+const summarize = (
+  schemas: SchemaObject[],
+  ruleSet?: ValidationRuleSet
+): Pick<BatchItem, 'types' | 'averageScore' | 'lowestScore' | 'errorCount' | 'warningCount'> => {
+  const validated = SchemaValidationService.validateSchemas(schemas, ruleSet);
+  const scores = validated.map(item => item.validation.score);
+
+  return {
+    types: Array.from(new Set(schemas.map(schema => schema.type))),
+    averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : undefined,
+    lowestScore: scores.length > 0 ? Math.min(...scores) : undefined,
+    errorCount: validated.reduce((sum, item) => sum + item.validation.errors.length, 0),
+    warningCount: validated.reduce((sum, item) => sum + item.validation.warnings.length, 0)
+  };
+};
+
+/**
+ * Runs schema generation and validation for many URLs with a global concurrency limit and
+ * per-host politeness (limited parallelism and a minimum delay between requests to one host).
+ * Every item has its own AbortController so it can be cancelled or retried on its own.
+ */
+export class BatchQueue {
+  private items: BatchItem[] = [];
+  private options: BatchQueueOptions;
+  private controllers = new Map<string, AbortController>();
+  private activeByHost = new Map<string, number>();
+  private lastStartByHost = new Map<string, number>();
+  private listeners = new Set<(items: BatchItem[]) => void>();
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 0;
+
+  constructor(options: Partial<BatchQueueOptions> = {}) {
+    this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  }
+
+  getItems(): BatchItem[] {
+    return this.items;
+  }
+
+  setOptions(options: Partial<BatchQueueOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.pump();
+  }
+
+  /**
+   * Registers a listener called with the full item list on every change; returns an unsubscribe function
+   */
+  subscribe(listener: (items: BatchItem[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queues URLs that are not already in the batch
+   */
+  add(urls: string[]): void {
+    const known = new Set(this.items.map(item => item.url));
+    const added: BatchItem[] = urls
+      .filter(url => !known.has(url))
+      .map(url => ({
+        id: `batch-${++this.nextId}`,
+        url,
+        status: 'queued',
+        attempts: 0,
+        schemas: [],
+        types: [],
+        errorCount: 0,
+        warningCount: 0
+      }));
+
+    if (added.length === 0) return;
+    this.items = [...this.items, ...added];
+    this.notify();
+    this.pump();
+  }
+
+  retry(id: string): void {
+    const item = this.items.find(candidate => candidate.id === id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+
+    this.update(id, { status: 'queued', error: undefined });
+    this.pump();
+  }
+
+  cancel(id: string): void {
+    const item = this.items.find(candidate => candidate.id === id);
+    if (!item) return;
+
+    if (item.status === 'queued') {
+      this.update(id, { status: 'cancelled' });
+    } else if (item.status === 'running') {
+      this.controllers.get(id)?.abort();
+    }
+  }
+
+  cancelAll(): void {
+    this.items.forEach(item => this.cancel(item.id));
+  }
+
+  /**
+   * Cancels everything and empties the batch
+   */
+  clear(): void {
+    this.cancelAll();
+    this.items = [];
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.items));
+  }
+
+  private update(id: string, patch: Partial<BatchItem>): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...patch } : item));
+    this.notify();
+  }
+
+  /**
+   * Starts as many queued items as the limits allow, and schedules a wake-up for
+   * items held back only by the per-host delay
+   */
+  private pump(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    const now = Date.now();
+    let running = this.items.filter(item => item.status === 'running').length;
+    let nextWake = Infinity;
+
+    for (const item of this.items) {
+      if (running >= this.options.concurrency) break;
+      if (item.status !== 'queued') continue;
+
+      const host = getHost(item.url);
+      if ((this.activeByHost.get(host) || 0) >= this.options.perHostConcurrency) continue;
+
+      const readyAt = (this.lastStartByHost.get(host) ?? -Infinity) + this.options.perHostDelayMs;
+      if (readyAt > now) {
+        nextWake = Math.min(nextWake, readyAt);
+        continue;
+      }
+
+      this.lastStartByHost.set(host, now);
+      this.activeByHost.set(host, (this.activeByHost.get(host) || 0) + 1);
+      running++;
+      this.run(item, host);
+    }
+
+    if (nextWake !== Infinity) {
+      this.wakeTimer = setTimeout(() => this.pump(), nextWake - now);
+    }
+  }
+
+  private async run(item: BatchItem, host: string): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.update(item.id, { status: 'running', attempts: item.attempts + 1, error: undefined });
+
+    try {
+      const runner = this.options.runner || generateForUrl;
+      const schemas = await runner(item.url, controller.signal);
+      if (controller.signal.aborted) {
+        this.update(item.id, { status: 'cancelled' });
+      } else {
+        // The profile generation matched to the URL, as the single-page view would use
+        const ruleSet = WebsiteProfileService.findProfileForUrl(item.url)?.profile.validationRules;
+        this.update(item.id, { status: 'done', schemas, ...summarize(schemas, ruleSet) });
+      }
+    } catch (error) {
+      devLog(`Batch item failed: ${item.url}`, error);
+      this.update(item.id, controller.signal.aborted
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      this.controllers.delete(item.id);
+      this.activeByHost.set(host, (this.activeByHost.get(host) || 1) - 1);
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedByRobots, normalizeCrawlUrl, parseRobotsTxt } from './crawlerService';
+
+describe('parseRobotsTxt', () => {
+  it('uses the "*" group when no group names the crawler', () => {
+    const rules = parseRobotsTxt('User-agent: *\nDisallow: /private/\n\nUser-agent: Googlebot\nDisallow: /');
+    expect(isAllowedByRobots(rules, '/private/page')).toBe(false);
+    expect(isAllowedByRobots(rules, '/public')).toBe(true);
+  });
+
+  it('prefers the group naming the crawler, case-insensitively and with a version', () => {
+    const rules = parseRobotsTxt('User-agent: *\nDisallow: /\n\nUser-agent: SEOSchemaGenerator/2.0\nDisallow: /drafts/');
+    expect(isAllowedByRobots(rules, '/blog/post')).toBe(true);
+    expect(isAllowedByRobots(rules, '/drafts/post')).toBe(false);
+  });
+
+  it('does not treat groups for substrings of the product token as ours', () => {
+    const rules = parseRobotsTxt('User-agent: S\nUser-agent: Schema\nDisallow: /\n\nUser-agent: *\nDisallow: /admin');
+    expect(isAllowedByRobots(rules, '/blog')).toBe(true);
+    expect(isAllowedByRobots(rules, '/admin')).toBe(false);
+  });
+
+  it('shares rules between consecutive user-agent lines and ignores comments', () => {
+    const rules = parseRobotsTxt('User-agent: Bingbot\nUser-agent: seoschemagenerator # us\nDisallow: /tmp # scratch');
+    expect(isAllowedByRobots(rules, '/tmp/file')).toBe(false);
+  });
+
+  it('treats an empty Disallow as allowing everything', () => {
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: *\nDisallow:'), '/anything')).toBe(true);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const rules = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /shop/',
+    'Allow: /shop/products/',
+    'Disallow: /*.pdf$',
+    'Disallow: /search*q='
+  ].join('\n'));
+
+  it('lets the longest matching rule decide', () => {
+    expect(isAllowedByRobots(rules, '/shop/cart')).toBe(false);
+    expect(isAllowedByRobots(rules, '/shop/products/widget')).toBe(true);
+  });
+
+  it('supports "*" wildcards and "$" anchors', () => {
+    expect(isAllowedByRobots(rules, '/files/report.pdf')).toBe(false);
+    expect(isAllowedByRobots(rules, '/files/report.pdf?download=1')).toBe(true);
+    expect(isAllowedByRobots(rules, '/search?page=2&q=shoes')).toBe(false);
+  });
+
+  it('lets Allow win a tie', () => {
+    const tied = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(isAllowedByRobots(tied, '/page')).toBe(true);
+  });
+
+  it('allows everything without rules', () => {
+    expect(isAllowedByRobots([], '/any/path')).toBe(true);
+  });
+});
+
+describe('normalizeCrawlUrl', () => {
+  it('drops fragments and trailing index.html', () => {
+    expect(normalizeCrawlUrl('https://example.com/docs/index.html#top')).toBe('https://example.com/docs/');
+  });
+});
@@ -0,0 +1,254 @@
+import WebsiteProfileService from './websiteProfileService';
+import { buildProxyUrl, scrapePage, resolveUrl } from './pageScraperService';
+
+// Development-only logging utility
+const devLog = (...args: any[]) => {
+  if (process.env.NODE_ENV === 'development') {
+    console.log(...args);
+  }
+};
+
+// Product token matched against robots.txt user-agent lines (see PAGE_FETCH_USER_AGENT in vite.config.ts)
+const ROBOTS_USER_AGENT = 'seoschemagenerator';
+
+// Links to these are never HTML pages worth crawling
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|webm|mov|avi|docx?|xlsx?|pptx?|woff2?|ttf|eot)$/i;
+
+export type CrawledPageStatus = 'indexed' | 'noindex' | 'blocked' | 'duplicate' | 'failed';
+
+export interface CrawledPage {
+  url: string;
+  canonicalUrl: string;
+  depth: number;
+  status: CrawledPageStatus;
+  title?: string;
+  error?: string;
+}
+
+export interface CrawlOptions {
+  maxDepth: number; // 0 crawls only the seed page
+  maxPages: number; // pages fetched, whatever their outcome
+  delayMs?: number; // pause between page requests
+  signal?: AbortSignal;
+  onPage?: (page: CrawledPage) => void;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  indexableUrls: string[]; // canonical URLs of pages that may be indexed, ready for batch generation
+  budgetExhausted: boolean;
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxDepth: 2,
+  maxPages: 50,
+  delayMs: 500
+};
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // specificity: longer patterns win
+}
+
+/**
+ * Parses robots.txt and returns the rules for our crawler: the most specific matching
+ * user-agent group, or the "*" group when none names us.
+ */
+export const parseRobotsTxt = (text: string): RobotsRule[] => {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+
+    const field = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow allows everything
+      if (!value) return;
+      // "*" matches any characters and a trailing "$" anchors the end of the URL
+      const anchored = value.endsWith('$');
+      const body = (anchored ? value.slice(0, -1) : value)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      current.rules.push({ allow: field === 'allow', pattern: new RegExp(`^${body}${anchored ? '$' : ''}`), length: value.length });
+    }
+  });
+
+  // Groups name a product token, optionally with a version ("SEOSchemaGenerator/2.0"); case does not matter
+  const named = groups.find(group => group.agents.some(agent => agent.split('/')[0].trim() === ROBOTS_USER_AGENT));
+  const wildcard = groups.filter(group => group.agents.includes('*'));
+  return named ? named.rules : wildcard.flatMap(group => group.rules);
+};
+
+/**
+ * Longest matching rule decides; Allow wins ties; no matching rule means allowed
+ */
+export const isAllowedByRobots = (rules: RobotsRule[], pathAndQuery: string): boolean => {
+  let best: RobotsRule | null = null;
+  rules.forEach(rule => {
+    if (!rule.pattern.test(pathAndQuery)) return;
+    if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+      best = rule;
+    }
+  });
+  return best ? (best as RobotsRule).allow : true;
+};
+
+/**
+ * Loads the site's robots.txt. A missing file (4xx) allows everything; a server error
+ * disallows everything, as search engines do.
+ */
+const loadRobotsRules = async (origin: string, signal?: AbortSignal): Promise<RobotsRule[]> => {
+  const response = await fetch(buildProxyUrl(`${origin}/robots.txt`), { signal });
+  if (response.status >= 400 && response.status < 500) return [];
+  if (!response.ok) {
+    return [{ allow: false, pattern: /^/, length: 0 }];
+  }
+  return parseRobotsTxt(await response.text());
+};
+
+/**
+ * Normalizes a URL for de-duplication: no fragment, no trailing "index.html"
+ */
+export const normalizeCrawlUrl = (url: string): string => {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.pathname = parsed.pathname.replace(/\/index\.html?$/i, '/');
+  return parsed.href;
+};
+
+const hasDirective = (value: string | null | undefined, directive: string): boolean =>
+  !!value && value.toLowerCase().split(/[\s,]+/).includes(directive);
+
+const getRobotsMeta = (doc: Document): string =>
+  Array.from(doc.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'))
+    .map(meta => meta.getAttribute('content') || '')
+    .join(',');
+
+const extractLinks = (doc: Document, baseUrl: string, origin: string): string[] => {
+  const links = new Set<string>();
+  doc.querySelectorAll('a[href]').forEach(anchor => {
+    if (hasDirective(anchor.getAttribute('rel'), 'nofollow')) return;
+
+    const resolved = resolveUrl(anchor.getAttribute('href'), baseUrl);
+    if (!resolved) return;
+
+    const parsed = new URL(resolved);
+    if (parsed.origin !== origin || NON_HTML_EXTENSIONS.test(parsed.pathname)) return;
+    links.add(normalizeCrawlUrl(resolved));
+  });
+  return Array.from(links);
+};
+
+// Removes its abort listener once the delay is over, so a long crawl does not pile one up per page
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (ms <= 0) return resolve();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error('Operation was cancelled'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Crawls a site breadth-first from a seed URL, following same-origin links up to a depth
+ * and page budget. Honours robots.txt, meta robots / X-Robots-Tag noindex and nofollow, and
+ * skips pages whose canonical URL was already seen. Scraped data of every indexable page is
+ * stored with WebsiteProfileService.storeScrapedData.
+ */
+export const crawlSite = async (seedUrl: string, options: Partial<CrawlOptions> = {}): Promise<CrawlResult> => {
+  const settings: CrawlOptions = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+  const origin = new URL(seedUrl).origin;
+  const robotsRules = await loadRobotsRules(origin, settings.signal);
+
+  const pages: CrawledPage[] = [];
+  const queued = new Set<string>();
+  const canonicals = new Set<string>();
+  const queue: { url: string; depth: number }[] = [];
+
+  const enqueue = (url: string, depth: number) => {
+    if (queued.has(url)) return;
+    queued.add(url);
+    queue.push({ url, depth });
+  };
+
+  const record = (page: CrawledPage) => {
+    pages.push(page);
+    settings.onPage?.(page);
+  };
+
+  enqueue(normalizeCrawlUrl(seedUrl), 0);
+  let fetched = 0;
+
+  while (queue.length > 0 && fetched < settings.maxPages) {
+    if (settings.signal?.aborted) throw new Error('Operation was cancelled');
+    const { url, depth } = queue.shift()!;
+
+    const target = new URL(url);
+    if (!isAllowedByRobots(robotsRules, target.pathname + target.search)) {
+      record({ url, canonicalUrl: url, depth, status: 'blocked' });
+      continue;
+    }
+
+    if (fetched > 0) await wait(settings.delayMs ?? 0, settings.signal);
+    fetched++;
+
+    try {
+      const { page, document, data } = await scrapePage(url, settings.signal);
+      const finalUrl = normalizeCrawlUrl(page.finalUrl);
+      const canonicalHref = resolveUrl(document.querySelector('link[rel~="canonical" i]')?.getAttribute('href'), page.finalUrl);
+      const canonicalUrl = canonicalHref ? normalizeCrawlUrl(canonicalHref) : finalUrl;
+      const robots = [getRobotsMeta(document), page.robotsTag].join(',');
+
+      // Redirects to another site are not followed further
+      if (new URL(finalUrl).origin !== origin) {
+        record({ url, canonicalUrl, depth, status: 'failed', error: `Redirected off-site to ${finalUrl}` });
+        continue;
+      }
+
+      if (!hasDirective(robots, 'nofollow') && !hasDirective(robots, 'none') && depth < settings.maxDepth) {
+        extractLinks(document, page.finalUrl, origin).forEach(link => enqueue(link, depth + 1));
+      }
+
+      if (hasDirective(robots, 'noindex') || hasDirective(robots, 'none')) {
+        record({ url, canonicalUrl, depth, status: 'noindex', title: data.title });
+      } else if (new URL(canonicalUrl).origin !== origin) {
+        // The page defers to a copy on another site, which this crawl does not cover
+        record({ url, canonicalUrl, depth, status: 'duplicate', title: data.title, error: `Canonical URL is on another site: ${canonicalUrl}` });
+      } else if (canonicals.has(canonicalUrl)) {
+        record({ url, canonicalUrl, depth, status: 'duplicate', title: data.title });
+      } else {
+        canonicals.add(canonicalUrl);
+        WebsiteProfileService.storeScrapedData(canonicalUrl, data);
+        record({ url, canonicalUrl, depth, status: 'indexed', title: data.title });
+      }
+    } catch (error) {
+      if (settings.signal?.aborted) throw new Error('Operation was cancelled');
+      devLog(`Crawl failed for ${url}:`, error);
+      record({ url, canonicalUrl: url, depth, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return {
+    pages,
+    indexableUrls: pages.filter(page => page.status === 'indexed').map(page => page.canonicalUrl),
+    budgetExhausted: queue.length > 0
+  };
+};
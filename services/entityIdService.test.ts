@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { applyEntityIds, getEntityIdKind, mintEntityId, resolveIdPolicy, slugify } from './entityIdService';
+
+describe('mintEntityId', () => {
+  const context = { pageUrl: 'https://acme.com/a#reviews' };
+
+  it('gives organization subtypes the site organization id', () => {
+    expect(mintEntityId({ '@type': 'Restaurant', name: 'Acme' }, { pageUrl: 'https://acme.com/a' })).toBe('https://acme.com/#organization');
+    expect(getEntityIdKind({ '@type': 'NewsMediaOrganization' })).toBe('organization');
+    expect(getEntityIdKind({ '@type': 'Dentist' })).toBe('organization');
+  });
+
+  it('classifies page, article and product subtypes by their parent type', () => {
+    expect(mintEntityId({ '@type': 'FAQPage' }, context)).toBe('https://acme.com/a#webpage');
+    expect(mintEntityId({ '@type': 'ScholarlyArticle', headline: 'Results' }, context)).toBe('https://acme.com/a#article');
+    expect(mintEntityId({ '@type': 'ProductGroup', name: 'Shirts' }, context)).toBe('https://acme.com/a#product');
+  });
+
+  it('uses the name slug for people and the lowercased type for other entities', () => {
+    expect(mintEntityId({ '@type': 'Person', name: "Zoë O'Brien" }, context)).toBe('https://acme.com/#/person/zoe-o-brien');
+    expect(mintEntityId({ '@type': 'Event', name: 'Launch' }, context)).toBe('https://acme.com/a#event');
+  });
+
+  it('gives organizations other than the site organization a slug-based id', () => {
+    const id = mintEntityId({ '@type': 'Corporation', name: 'Widget Co' }, { ...context, siteOrganizationName: 'Acme' });
+    expect(id).toBe('https://acme.com/#/organization/widget-co');
+  });
+
+  it('applies policy templates over the defaults', () => {
+    const policy = { article: '{canonical}#/article/{slug}', product: '  ' };
+    expect(mintEntityId({ '@type': 'BlogPosting', headline: 'Hello World' }, { ...context, policy })).toBe('https://acme.com/a#/article/hello-world');
+    expect(resolveIdPolicy(policy).product).toBe('{canonical}#product');
+  });
+});
+
+describe('slugify', () => {
+  it('strips accents and punctuation', () => {
+    expect(slugify('  Café & Bar!  ')).toBe('cafe-bar');
+  });
+});
+
+describe('applyEntityIds', () => {
+  it('de-duplicates page-level ids and rewrites references to replaced ids', () => {
+    const schemas = [
+      { type: 'Organization', schema: JSON.stringify({ '@type': 'Organization', '@id': '#org', name: 'Acme' }) },
+      { type: 'Article', schema: JSON.stringify({ '@type': 'Article', headline: 'One', publisher: { '@id': '#org' } }) },
+      { type: 'Article', schema: JSON.stringify({ '@type': 'Article', headline: 'Two' }) }
+    ];
+    const [organization, first, second] = applyEntityIds(schemas, { pageUrl: 'https://acme.com/a' }).map(item => JSON.parse(item.schema));
+    expect(organization['@id']).toBe('https://acme.com/#organization');
+    expect(first.publisher).toEqual({ '@id': 'https://acme.com/#organization' });
+    expect(first['@id']).toBe('https://acme.com/a#article');
+    expect(second['@id']).toBe('https://acme.com/a#article-2');
+  });
+});
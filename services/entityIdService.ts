@@ -0,0 +1,191 @@
+import { JsonLdNode, getTypes, hasType, isPlainObject } from './jsonLdNodes';
+
+// Entity kinds that get their own @id template
+export type EntityIdKind = 'organization' | 'website' | 'webpage' | 'breadcrumb' | 'article' | 'product' | 'person' | 'other';
+
+// @id templates per entity kind. Placeholders: {origin}, {canonical} (page URL without fragment),
+// {slug} (the entity's name, lowercased and hyphenated) and {type} (its @type, lowercased)
+export type EntityIdPolicy = Record<EntityIdKind, string>;
+
+export const DEFAULT_ID_POLICY: EntityIdPolicy = {
+  organization: '{origin}/#organization',
+  website: '{origin}/#website',
+  webpage: '{canonical}#webpage',
+  breadcrumb: '{canonical}#breadcrumb',
+  article: '{canonical}#article',
+  product: '{canonical}#product',
+  person: '{origin}/#/person/{slug}',
+  other: '{canonical}#{type}'
+};
+
+export const ENTITY_ID_KIND_LABELS: Record<EntityIdKind, string> = {
+  organization: 'Organization',
+  website: 'WebSite',
+  webpage: 'WebPage',
+  breadcrumb: 'BreadcrumbList',
+  article: 'Article',
+  product: 'Product',
+  person: 'Person',
+  other: 'Other types'
+};
+
+export interface EntityIdContext {
+  pageUrl: string; // canonical URL of the page when known
+  policy?: Partial<EntityIdPolicy>;
+  // Name of the site's own organization; other organizations (organizers, brands' owners) get slug-based ids
+  siteOrganizationName?: string;
+}
+
+const OTHER_ORGANIZATION_TEMPLATE = '{origin}/#/organization/{slug}';
+
+// Kinds that describe the same real-world entity on every page, so repeated copies share one @id
+const SITE_WIDE_KINDS = new Set<EntityIdKind>(['organization', 'website', 'person']);
+
+// Properties whose nested Person or Organization values get an @id of their own
+const NESTED_ENTITY_PROPERTIES = ['publisher', 'author', 'creator', 'editor', 'contributor', 'copyrightHolder', 'provider', 'organizer', 'performer', 'founder', 'worksFor', 'parentOrganization'];
+
+/**
+ * Lowercase, ASCII-only, hyphen-separated form of a name, e.g. "Zoë O'Brien" → "zoe-o-brien"
+ */
+export const slugify = (value: string): string => {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Which template applies to a node; subtypes share their parent's kind (a Restaurant is an organization)
+ */
+export const getEntityIdKind = (node: JsonLdNode): EntityIdKind => {
+  if (hasType(node, ['Organization'])) return 'organization';
+  if (hasType(node, ['WebSite'])) return 'website';
+  if (hasType(node, ['WebPage'])) return 'webpage';
+  if (hasType(node, ['BreadcrumbList'])) return 'breadcrumb';
+  if (hasType(node, ['Article'])) return 'article';
+  if (hasType(node, ['Product'])) return 'product';
+  if (hasType(node, ['Person'])) return 'person';
+  return 'other';
+};
+
+/**
+ * Policy with the profile's templates over the defaults; blank templates fall back to the default
+ */
+export const resolveIdPolicy = (policy?: Partial<EntityIdPolicy>): EntityIdPolicy => {
+  const resolved = { ...DEFAULT_ID_POLICY };
+  Object.entries(policy || {}).forEach(([kind, template]) => {
+    if (template && template.trim()) {
+      resolved[kind as EntityIdKind] = template.trim();
+    }
+  });
+  return resolved;
+};
+
+/**
+ * Deterministic @id for a node: the same entity on the same page always gets the same value
+ */
+export const mintEntityId = (node: JsonLdNode, context: EntityIdContext): string => {
+  const policy = resolveIdPolicy(context.policy);
+  const canonical = context.pageUrl.split('#')[0];
+  let origin = '';
+  try {
+    origin = new URL(canonical).origin;
+  } catch {
+    // Relative or missing page URLs leave {origin} empty
+  }
+
+  const type = getTypes(node)[0] || 'Thing';
+  const name = [node.name, node.headline, node.alternateName].find(value => typeof value === 'string' && value.trim());
+  const kind = getEntityIdKind(node);
+  const isOtherOrganization = kind === 'organization' && !!context.siteOrganizationName && !!name && name !== context.siteOrganizationName;
+  return (isOtherOrganization ? OTHER_ORGANIZATION_TEMPLATE : policy[kind])
+    .replace(/\{origin\}/g, origin)
+    .replace(/\{canonical\}/g, canonical)
+    .replace(/\{slug\}/g, slugify(name || type))
+    .replace(/\{type\}/g, type.toLowerCase());
+};
+
+// Sets @id right after @context and @type, keeping the node object itself so references to it stay valid
+export const setEntityId = (node: JsonLdNode, id: string): void => {
+  const { '@context': context, '@type': type, '@id': _previousId, ...rest } = node;
+  Object.keys(node).forEach(key => delete node[key]);
+  Object.assign(node, { ...(context !== undefined && { '@context': context }), '@type': type, '@id': id, ...rest });
+};
+
+/**
+ * Gives every top-level entity, and every nested Person or Organization, the @id its policy template
+ * produces. Ids the documents already had are replaced and references to them rewritten, so output is
+ * identical across runs. Two page-level entities of the same kind get "-2", "-3" suffixes.
+ */
+export const applyEntityIds = <T extends { type: string; schema: string }>(schemas: T[], context: EntityIdContext): T[] => {
+  const parsed = schemas.map(item => {
+    try {
+      const node = JSON.parse(item.schema);
+      return isPlainObject(node) ? node : null;
+    } catch {
+      return null;
+    }
+  });
+
+  // The site's organization is the top-level Organization, otherwise the publisher
+  const siteOrganizationName = context.siteOrganizationName
+    || parsed.find(node => node && getEntityIdKind(node) === 'organization')?.name
+    || parsed.map(node => node?.publisher).find(publisher => isPlainObject(publisher) && publisher.name)?.name;
+  const idContext: EntityIdContext = { ...context, siteOrganizationName };
+
+  const renamed = new Map<string, string>();
+  const usedIds = new Set<string>();
+
+  const assign = (node: JsonLdNode, isTopLevel: boolean) => {
+    const kind = getEntityIdKind(node);
+    const baseId = mintEntityId(node, idContext);
+    let id = baseId;
+    if (isTopLevel && !SITE_WIDE_KINDS.has(kind)) {
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `${baseId}-${suffix}`;
+      }
+    }
+    usedIds.add(id);
+    if (typeof node['@id'] === 'string' && node['@id'] !== id) {
+      renamed.set(node['@id'], id);
+    }
+    setEntityId(node, id);
+  };
+
+  const assignNested = (node: JsonLdNode) => {
+    NESTED_ENTITY_PROPERTIES.forEach(property => {
+      const values = Array.isArray(node[property]) ? node[property] : [node[property]];
+      values.forEach((value: unknown) => {
+        if (isPlainObject(value) && value['@type'] && ['person', 'organization'].includes(getEntityIdKind(value))) {
+          assign(value, false);
+          assignNested(value);
+        }
+      });
+    });
+  };
+
+  parsed.forEach(node => {
+    if (!node || !node['@type']) return;
+    assign(node, true);
+    assignNested(node);
+  });
+
+  // Point bare {"@id": ...} references at the new identifiers
+  const rewriteReferences = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(rewriteReferences);
+    } else if (isPlainObject(value)) {
+      if (Object.keys(value).length === 1 && typeof value['@id'] === 'string' && renamed.has(value['@id'])) {
+        value['@id'] = renamed.get(value['@id']);
+      }
+      Object.values(value).forEach(rewriteReferences);
+    }
+  };
+  parsed.forEach(rewriteReferences);
+
+  return schemas.map((item, index) => parsed[index]
+    ? { ...item, schema: JSON.stringify(parsed[index], null, 2) }
+    : item);
+};
@@ -1,7 +1,60 @@
-if (!process.env.VITE_GEMINI_API_KEY) {
-    throw new Error("VITE_GEMINI_API_KEY environment variable not set");
+import WebsiteProfileService, { ProfileMatch, ScrapedWebsiteData, WebsiteProfile } from './websiteProfileService';
+import { scrapePage, parseHtmlDocument, extractScrapedData } from './pageScraperService';
+import { extractStructuredData } from './structuredDataExtractor';
+import { PageClassification, PageType, buildPageClassification } from './pageTypeService';
+import { applyProfileToSchemas } from './profileSchemaService';
+import { applyEntityIds } from './entityIdService';
+import { JsonSchema, LlmProvider, getDefaultLlmProvider } from './llm';
+import { PageInput, SchemaObject } from '../types';
+
+// A JSON-LD document as produced by the generators
+export interface JsonLdDocument {
+    "@context": string;
+    "@type": string | string[];
+    [property: string]: unknown;
+}
+
+// One entry of the array App.tsx parses: the schema type plus the serialized JSON-LD
+export interface GeneratedSchema {
+    type: string;
+    schema: string;
 }
 
+export interface SchemaGenerationOptions {
+    // Defaults to the provider configured through VITE_LLM_* environment variables
+    provider?: LlmProvider;
+    // Only return the structured data already on the page, without generating anything
+    existingOnly?: boolean;
+    // Page types to generate instead of the classifier's choice
+    pageTypeOverride?: PageType[];
+    // Receives the ranked page-type classification once the page has been analyzed
+    onClassification?: (classification: PageClassification) => void;
+    // Website profile whose organization, author and social links replace page-derived placeholders.
+    // Left undefined, the best profile for the page URL is looked up; null generates without a profile
+    profile?: WebsiteProfile | null;
+    // Receives the profile applied to this run, or null when none was
+    onProfileMatch?: (match: ProfileMatch | null) => void;
+}
+
+// Structured output schema mirroring GeneratedSchema[]
+const GENERATED_SCHEMAS_RESPONSE_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            type: {
+                type: 'string',
+                description: 'The schema.org @type of the document, e.g. "Article" or "Organization"'
+            },
+            schema: {
+                type: 'string',
+                description: 'The complete JSON-LD document serialized as a JSON string, including "@context": "https://schema.org"'
+            }
+        },
+        required: ['type', 'schema']
+    }
+};
+
 // Development-only logging utility
 const devLog = (...args: any[]) => {
   if (process.env.NODE_ENV === 'development') {
@@ -39,103 +92,364 @@ const processHtmlContent = (html: string): string => {
     return finalContent;
 };
 
-// Function to generate schema without scraping - uses URL-based analysis only
-const generateSchemaFromUrl = async (url: string, signal?: AbortSignal): Promise<string> => {
-    try {
-        devLog(`Generating schema for URL: ${url}`);
-        
-        // Parse URL to extract basic information
-        const urlObj = new URL(url);
-        const domain = urlObj.hostname;
-        const pathname = urlObj.pathname;
-        
-        // Create a basic schema based on URL patterns and domain
-        const basicSchema = {
+// Builds schemas from the data extracted from the fetched page, for the classified page types.
+// Scraped products and FAQs add their schemas too, unless the user overrode the page type
+const generateSchemaFromScrapedData = (data: ScrapedWebsiteData, pageText: string, classification: PageClassification): string => {
+    devLog(`Generating schema for URL: ${data.url}`);
+
+    const pageTypes = classification.selected;
+    const followsScrapedData = !classification.overridden;
+
+    const urlObj = new URL(data.url);
+    const domain = urlObj.hostname;
+    const origin = `${urlObj.protocol}//${urlObj.hostname}`;
+    const siteName = data.organization || domain.replace('www.', '');
+
+    // Fall back to the opening page text when the page has no meta description
+    const description = data.description || (pageText ? pageText.substring(0, 160).trim() : undefined);
+    const primaryImage = data.images?.[0];
+
+    const publisher = {
+        "@type": "Organization",
+        "name": siteName,
+        "url": origin
+    };
+
+    const basicSchema = {
+        "@context": "https://schema.org",
+        "@type": "WebSite",
+        "name": siteName,
+        "url": origin,
+        ...(description && { "description": description }),
+        "publisher": publisher
+    };
+
+    const additionalSchemas: Record<string, any>[] = [];
+
+    if (pageTypes.includes('Article')) {
+        additionalSchemas.push({
             "@context": "https://schema.org",
-            "@type": "WebSite",
-            "name": domain.replace('www.', ''),
-            "url": url,
-            "description": `Website content from ${domain}`,
-            "publisher": {
-                "@type": "Organization",
-                "name": domain.replace('www.', ''),
-                "url": `${urlObj.protocol}//${urlObj.hostname}`
-            }
-        };
-
-        // Add additional schema types based on URL patterns
-        const additionalSchemas = [];
-
-        // Check for common page types based on URL structure
-        if (pathname.includes('/blog/') || pathname.includes('/article/') || pathname.includes('/post/')) {
-            additionalSchemas.push({
-                "@context": "https://schema.org",
-                "@type": "Article",
-                "headline": `Article from ${domain}`,
-                "url": url,
-                "publisher": {
-                    "@type": "Organization",
-                    "name": domain.replace('www.', ''),
-                    "url": `${urlObj.protocol}//${urlObj.hostname}`
-                }
-            });
-        }
+            "@type": "Article",
+            "headline": data.title || siteName,
+            "url": data.url,
+            ...(description && { "description": description }),
+            ...(primaryImage && { "image": data.images }),
+            ...(data.author && { "author": { "@type": "Person", "name": data.author } }),
+            ...(data.publishDate && { "datePublished": data.publishDate }),
+            ...(data.modifiedDate && { "dateModified": data.modifiedDate }),
+            "publisher": publisher
+        });
+    }
 
-        if (pathname.includes('/product/') || pathname.includes('/shop/') || pathname.includes('/item/')) {
-            additionalSchemas.push({
-                "@context": "https://schema.org",
-                "@type": "Product",
-                "name": `Product from ${domain}`,
-                "url": url,
-                "offers": {
-                    "@type": "Offer",
-                    "url": url,
-                    "availability": "https://schema.org/InStock"
+    const product = data.products?.[0];
+    if (pageTypes.includes('Product') || (product && followsScrapedData)) {
+        const ratings = (data.reviews || []).map(review => review.rating);
+        additionalSchemas.push({
+            "@context": "https://schema.org",
+            "@type": "Product",
+            "name": product?.name || data.title || siteName,
+            "url": data.url,
+            ...((product?.description || description) && { "description": product?.description || description }),
+            ...(primaryImage && { "image": data.images }),
+            ...(product?.brand && { "brand": { "@type": "Brand", "name": product.brand } }),
+            "offers": {
+                "@type": "Offer",
+                "url": data.url,
+                ...(product?.price && { "price": product.price }),
+                ...(product?.currency && { "priceCurrency": product.currency }),
+                "availability": /out.?of.?stock/i.test(product?.availability || '')
+                    ? "https://schema.org/OutOfStock"
+                    : "https://schema.org/InStock"
+            },
+            ...(ratings.length > 0 && {
+                "aggregateRating": {
+                    "@type": "AggregateRating",
+                    "ratingValue": Number((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length).toFixed(1)),
+                    "reviewCount": ratings.length
                 }
-            });
-        }
+            })
+        });
+    }
+
+    if (pageTypes.includes('Recipe')) {
+        additionalSchemas.push({
+            "@context": "https://schema.org",
+            "@type": "Recipe",
+            "name": data.title || siteName,
+            "url": data.url,
+            ...(description && { "description": description }),
+            ...(primaryImage && { "image": data.images }),
+            ...(data.author && { "author": { "@type": "Person", "name": data.author } }),
+            ...(data.publishDate && { "datePublished": data.publishDate })
+        });
+    }
+
+    if (pageTypes.includes('Event')) {
+        additionalSchemas.push({
+            "@context": "https://schema.org",
+            "@type": "Event",
+            "name": data.title || siteName,
+            "url": data.url,
+            ...(description && { "description": description }),
+            ...(primaryImage && { "image": data.images }),
+            "organizer": publisher
+        });
+    }
+
+    if (pageTypes.includes('AboutPage')) {
+        additionalSchemas.push({
+            "@context": "https://schema.org",
+            "@type": "AboutPage",
+            "name": data.title || `About ${siteName}`,
+            "url": data.url,
+            ...(description && { "description": description })
+        });
+    }
+
+    if (pageTypes.includes('ContactPage')) {
+        additionalSchemas.push({
+            "@context": "https://schema.org",
+            "@type": "ContactPage",
+            "name": data.title || `Contact ${siteName}`,
+            "url": data.url,
+            ...(description && { "description": description })
+        });
+    }
+
+    if (data.breadcrumbs && data.breadcrumbs.length > 1) {
+        additionalSchemas.push({
+            "@context": "https://schema.org",
+            "@type": "BreadcrumbList",
+            "itemListElement": data.breadcrumbs.map((crumb, index) => ({
+                "@type": "ListItem",
+                "position": index + 1,
+                "name": crumb.name,
+                "item": crumb.url
+            }))
+        });
+    }
+
+    const hasFaqs = !!data.faqs && data.faqs.length > 0;
+    if (pageTypes.includes('FAQPage') || (hasFaqs && followsScrapedData)) {
+        additionalSchemas.push({
+            "@context": "https://schema.org",
+            "@type": "FAQPage",
+            "url": data.url,
+            // Left out when no questions were found, so validation reports it missing
+            ...(hasFaqs && {
+                "mainEntity": data.faqs!.map(faq => ({
+                    "@type": "Question",
+                    "name": faq.question,
+                    "acceptedAnswer": {
+                        "@type": "Answer",
+                        "text": faq.answer
+                    }
+                }))
+            })
+        });
+    }
+
+    // Combine all schemas and format them for the UI
+    const allSchemas = [basicSchema, ...additionalSchemas];
+
+    // Convert to the format expected by the UI: array of {type, schema} objects
+    const formattedSchemas: GeneratedSchema[] = allSchemas.map((schema, index) => ({
+        type: schema["@type"] || `Schema${index + 1}`,
+        schema: JSON.stringify(schema, null, 2)
+    }));
+
+    devLog(`Generated ${formattedSchemas.length} schema(s) for URL: ${data.url}`);
+    return JSON.stringify(formattedSchemas);
+};
+
+// Builds the prompt from the cleaned page text, the extracted metadata and the page classification
+const buildSchemaPrompt = (data: ScrapedWebsiteData, pageText: string, classification: PageClassification): string => {
+    const { url, ...metadata } = data;
+    const rankedTypes = classification.candidates
+        .map(candidate => `${candidate.type} (${Math.round(candidate.confidence * 100)}%)`)
+        .join(', ');
+    return [
+        'You are an SEO expert generating schema.org JSON-LD structured data for a web page.',
+        'Identify every schema type the page content supports (for example WebSite, Organization, Article, Product, FAQPage, BreadcrumbList, Event, LocalBusiness, Recipe, HowTo).',
+        'Rules:',
+        '- Only use facts present in the page content or metadata below. Never invent prices, ratings, dates or people.',
+        '- Every document must be a single JSON object with "@context": "https://schema.org" and an "@type".',
+        '- Use absolute URLs and ISO 8601 dates.',
+        '- Return one array entry per document, with "schema" holding the serialized JSON-LD.',
+        '',
+        `Page URL: ${url}`,
+        classification.overridden
+            ? `The page is a ${classification.selected.join(' and ')} page: generate schemas for that type, not for other page types.`
+            : `Likely page types, from URL, markup and content signals: ${rankedTypes}.`,
+        `Extracted metadata: ${JSON.stringify(metadata)}`,
+        '',
+        'Page text:',
+        pageText
+    ].join('\n');
+};
+
+// Checks the model output and normalizes it into the {type, schema}[] format the UI expects
+const normalizeModelResponse = (responseText: string | undefined): string => {
+    if (!responseText) {
+        throw new Error('Model returned an empty response');
+    }
+
+    const parsed: unknown = JSON.parse(responseText);
+    if (!Array.isArray(parsed)) {
+        throw new Error('Model response is not an array');
+    }
+
+    const schemas: GeneratedSchema[] = parsed.flatMap((item: Partial<GeneratedSchema>) => {
+        try {
+            const document = (typeof item.schema === 'string' ? JSON.parse(item.schema) : item.schema) as Partial<JsonLdDocument>;
+            if (!document || typeof document !== 'object' || Array.isArray(document) || !document['@type']) {
+                return [];
+            }
 
-        if (pathname.includes('/about') || pathname.includes('/contact')) {
-            additionalSchemas.push({
-                "@context": "https://schema.org",
-                "@type": "AboutPage",
-                "name": `About page from ${domain}`,
-                "url": url
-            });
+            const jsonLd: JsonLdDocument = {
+                ...document,
+                "@context": document['@context'] || 'https://schema.org',
+                "@type": document['@type']
+            };
+            const type = Array.isArray(jsonLd['@type']) ? jsonLd['@type'][0] : jsonLd['@type'];
+
+            return [{ type: type || item.type || 'Thing', schema: JSON.stringify(jsonLd, null, 2) }];
+        } catch (error) {
+            devError('Skipping unparseable schema from model response:', error, item);
+            return [];
         }
+    });
 
-        // Combine all schemas and format them for the UI
-        const allSchemas = [basicSchema, ...additionalSchemas];
-        
-        // Convert to the format expected by the UI: array of {type, schema} objects
-        const formattedSchemas = allSchemas.map((schema, index) => ({
-            type: schema["@type"] || `Schema${index + 1}`,
-            schema: JSON.stringify(schema, null, 2)
-        }));
-        
-        devLog(`Generated ${formattedSchemas.length} schema(s) for URL: ${url}`);
-        return JSON.stringify(formattedSchemas);
+    if (schemas.length === 0) {
+        throw new Error('Model response contained no valid schemas');
+    }
 
-    } catch (error) {
-        devError('Error in generateSchemaFromUrl:', error);
-        if (signal?.aborted) {
-            throw new Error("Operation was cancelled");
+    return JSON.stringify(schemas);
+};
+
+// Shortens the page text until the prompt fits the provider's input budget
+const fitPageTextToBudget = async (provider: LlmProvider, data: ScrapedWebsiteData, pageText: string, classification: PageClassification, signal?: AbortSignal): Promise<string> => {
+    let text = pageText;
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const tokens = await provider.countTokens(buildSchemaPrompt(data, text, classification), signal);
+        devLog(`Prompt uses ${tokens} of ${provider.maxInputTokens} tokens`);
+        if (tokens <= provider.maxInputTokens) {
+            return text;
         }
-        throw new Error(`Failed to generate schema from URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        text = text.substring(0, Math.floor(text.length * (provider.maxInputTokens / tokens) * 0.9));
     }
+
+    return text;
 };
 
-export const generateSchemaForUrl = async (url: string, signal?: AbortSignal): Promise<string> => {
-    devLog(`Starting schema generation for URL: ${url}`);
+// Asks the LLM provider for schemas using structured JSON output
+const generateSchemaWithLlm = async (
+    provider: LlmProvider,
+    data: ScrapedWebsiteData,
+    pageText: string,
+    classification: PageClassification,
+    signal?: AbortSignal
+): Promise<string> => {
+    devLog(`Requesting schemas from ${provider.id}/${provider.model} for URL: ${data.url}`);
+
+    const fittedText = await fitPageTextToBudget(provider, data, pageText, classification, signal);
+    const responseText = await provider.generate({
+        prompt: buildSchemaPrompt(data, fittedText, classification),
+        responseSchema: GENERATED_SCHEMAS_RESPONSE_SCHEMA,
+        temperature: 0.2
+    }, signal);
+
+    return normalizeModelResponse(responseText);
+};
+
+// Fetches (or parses) the page and extracts its metadata
+const loadPage = async (input: PageInput, signal?: AbortSignal): Promise<{ html: string; pageUrl: string; document: Document; data: ScrapedWebsiteData }> => {
+    if (input.kind === 'url') {
+        const { page, document, data } = await scrapePage(input.url, signal);
+        return { html: page.html, pageUrl: page.finalUrl, document, data };
+    }
+
+    // Supplied HTML resolves relative links and @id values against the separately given base URL
+    const document = parseHtmlDocument(input.html);
+    return { html: input.html, pageUrl: input.baseUrl, document, data: extractScrapedData(document, input.baseUrl) };
+};
+
+// The caller's profile when one was given, otherwise the stored profile that best matches the URL
+const resolveProfile = (url: string, profile: WebsiteProfile | null | undefined): ProfileMatch | null => {
+    if (profile === null) {
+        return null;
+    }
+    if (profile) {
+        return { profile, reason: 'manual' };
+    }
+    return WebsiteProfileService.findProfileForUrl(url);
+};
+
+export const generateSchemaForPage = async (input: PageInput, signal?: AbortSignal, options: SchemaGenerationOptions = {}): Promise<string> => {
+    const requestedUrl = input.kind === 'url' ? input.url : input.baseUrl;
+    devLog(`Starting schema generation for ${input.kind === 'url' ? 'URL' : 'supplied HTML of'}: ${requestedUrl}`);
 
-    // Generate schema based on URL analysis only (no scraping)
     try {
-        return await generateSchemaFromUrl(url, signal);
+        const { html, pageUrl, document, data } = await loadPage(input, signal);
+        WebsiteProfileService.storeScrapedData(requestedUrl, data);
+
+        // Structured data the site already ships comes first, tagged as "existing"
+        const existingSchemas = extractStructuredData(document, pageUrl);
+        const classification = buildPageClassification(document, pageUrl, existingSchemas, options.pageTypeOverride);
+        devLog('Page classification:', classification.candidates);
+        options.onClassification?.(classification);
+
+        if (options.existingOnly) {
+            return JSON.stringify(existingSchemas);
+        }
+
+        const pageText = processHtmlContent(html);
+
+        // The provider may be shared with other runs (e.g. a batch), so this run is cancelled
+        // through its own signal rather than provider.cancel()
+        let generated: string;
+        try {
+            const provider = options.provider || getDefaultLlmProvider();
+            generated = await generateSchemaWithLlm(provider, data, pageText, classification, signal);
+        } catch (modelError) {
+            if (signal?.aborted) {
+                throw modelError;
+            }
+            // Fall back to the heuristic generator when the model call fails
+            devError('LLM generation failed, using heuristic generator instead:', modelError);
+            generated = generateSchemaFromScrapedData(data, pageText, classification);
+        }
+
+        const profileMatch = resolveProfile(requestedUrl, options.profile);
+        options.onProfileMatch?.(profileMatch);
+
+        let parsedSchemas = JSON.parse(generated) as GeneratedSchema[];
+        if (profileMatch) {
+            devLog(`Applying website profile "${profileMatch.profile.name}" (${profileMatch.reason})`);
+            parsedSchemas = applyProfileToSchemas(parsedSchemas, profileMatch.profile);
+        }
+        // Stable identifiers so the same entity gets the same @id on every page and run
+        parsedSchemas = applyEntityIds(parsedSchemas, {
+            pageUrl: data.canonicalUrl || pageUrl,
+            policy: profileMatch?.profile.idPolicy,
+            siteOrganizationName: profileMatch?.profile.organization?.name
+        });
+        const generatedSchemas: SchemaObject[] = parsedSchemas.map(schema => ({ ...schema, source: 'generated' }));
+        return JSON.stringify([...existingSchemas, ...generatedSchemas]);
     } catch (error) {
-        devError('Error generating schema from URL:', error);
+        devError('Error generating schema from page:', error);
         if (signal?.aborted) {
             throw new Error("Operation was cancelled");
         }
         throw new Error(`Failed to generate schema: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-};
\ No newline at end of file
+};
+
+export const generateSchemaForUrl = async (url: string, signal?: AbortSignal, options: SchemaGenerationOptions = {}): Promise<string> => {
+    return generateSchemaForPage({ kind: 'url', url }, signal, options);
+};
+
+export const generateSchemaForHtml = async (html: string, baseUrl: string, signal?: AbortSignal, options: SchemaGenerationOptions = {}): Promise<string> => {
+    return generateSchemaForPage({ kind: 'html', html, baseUrl }, signal, options);
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { parseIsoDate, parseIsoDateTime, parseIsoDuration, parseIsoTime, parseTemporal, toIsoTemporal } from './iso8601';
+
+describe('parseIsoDate', () => {
+  it('parses calendar dates at UTC midnight', () => {
+    expect(parseIsoDate('2024-02-29')).toEqual({
+      type: 'Date',
+      date: '2024-02-29',
+      hasTime: false,
+      hasTimezone: false,
+      timestamp: Date.UTC(2024, 1, 29)
+    });
+  });
+
+  it('rejects dates that do not exist or are not zero-padded', () => {
+    expect(parseIsoDate('2023-02-29')).toBeNull();
+    expect(parseIsoDate('2024-13-01')).toBeNull();
+    expect(parseIsoDate('2024-1-5')).toBeNull();
+  });
+});
+
+describe('parseIsoDateTime', () => {
+  it('applies the UTC offset', () => {
+    const parsed = parseIsoDateTime('2024-01-15T14:30:00+01:00');
+    expect(parsed?.timestamp).toBe(Date.UTC(2024, 0, 15, 13, 30));
+    expect(parsed?.hasTimezone).toBe(true);
+  });
+
+  it('accepts fractions, "Z" and missing offsets', () => {
+    expect(parseIsoDateTime('2024-01-15T14:30:00.250Z')?.timestamp).toBe(Date.UTC(2024, 0, 15, 14, 30, 0, 250));
+    expect(parseIsoDateTime('2024-01-15T14:30')?.hasTimezone).toBe(false);
+  });
+
+  it('rejects values without a valid time', () => {
+    expect(parseIsoDateTime('2024-01-15')).toBeNull();
+    expect(parseIsoDateTime('2024-01-15T25:00')).toBeNull();
+    expect(parseIsoDateTime('2024-01-15T10:00+15:00')).toBeNull();
+  });
+});
+
+describe('parseIsoTime', () => {
+  it('parses times of day, including 24:00 as the end of a day', () => {
+    expect(parseIsoTime('09:15')?.timestamp).toBe((9 * 60 + 15) * 60000);
+    expect(parseIsoTime('24:00')?.timestamp).toBe(24 * 3600000);
+    expect(parseIsoTime('24:01')).toBeNull();
+  });
+});
+
+describe('parseIsoDuration', () => {
+  it('adds up the components', () => {
+    expect(parseIsoDuration('PT1H30M')).toEqual({ seconds: 5400 });
+    expect(parseIsoDuration('P1W2D')).toEqual({ seconds: 9 * 86400 });
+    expect(parseIsoDuration('PT0,5S')).toEqual({ seconds: 0.5 });
+  });
+
+  it('rejects empty durations and fractions before the last component', () => {
+    expect(parseIsoDuration('P')).toBeNull();
+    expect(parseIsoDuration('P1DT')).toBeNull();
+    expect(parseIsoDuration('PT1.5H30M')).toBeNull();
+    expect(parseIsoDuration('1H')).toBeNull();
+  });
+});
+
+describe('parseTemporal', () => {
+  it('uses the first allowed type that matches', () => {
+    expect(parseTemporal(' 2024-01-15 ', ['DateTime', 'Date'])).toMatchObject({ type: 'Date' });
+    expect(parseTemporal('2024-01-15T10:00Z', ['DateTime', 'Date'])).toMatchObject({ type: 'DateTime' });
+    expect(parseTemporal('PT10M', ['Date'])).toBeNull();
+  });
+});
+
+describe('toIsoTemporal', () => {
+  it('rewrites written-out and slashed dates', () => {
+    expect(toIsoTemporal('January 15, 2024', ['Date'])).toBe('2024-01-15');
+    expect(toIsoTemporal('3rd Sept 2024', ['Date'])).toBe('2024-09-03');
+    expect(toIsoTemporal('2024/1/5', ['Date'])).toBe('2024-01-05');
+    expect(toIsoTemporal('25/12/2024', ['Date'])).toBe('2024-12-25');
+  });
+
+  it('puts a "T" in date-times written with a space', () => {
+    expect(toIsoTemporal('2024-01-15 14:30', ['DateTime', 'Date'])).toBe('2024-01-15T14:30');
+  });
+
+  it('gives null for ambiguous or impossible dates and disallowed types', () => {
+    expect(toIsoTemporal('01/02/2024', ['Date'])).toBeNull();
+    expect(toIsoTemporal('February 30, 2024', ['Date'])).toBeNull();
+    expect(toIsoTemporal('January 15, 2024', ['Time'])).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+// Temporal value types schema.org properties can expect
+export type TemporalType = 'Date' | 'DateTime' | 'Time' | 'Duration';
+
+export const TEMPORAL_TYPES: TemporalType[] = ['Date', 'DateTime', 'Time', 'Duration'];
+
+export interface ParsedTemporal {
+  type: Exclude<TemporalType, 'Duration'>;
+  date?: string; // YYYY-MM-DD as written, for dates and date-times
+  hasTime: boolean;
+  hasTimezone: boolean;
+  // Milliseconds since the epoch (dates at UTC midnight; times since midnight). Values without
+  // a timezone are read as UTC, which is only exact when both sides of a comparison lack one.
+  timestamp: number;
+}
+
+export interface ParsedDuration {
+  seconds: number; // approximate for years (365 days) and months (30 days)
+}
+
+export const TEMPORAL_EXAMPLES: Record<TemporalType, string> = {
+  Date: '"2024-01-15"',
+  DateTime: '"2024-01-15T14:30:00+01:00"',
+  Time: '"14:30" or "14:30:00+01:00"',
+  Duration: '"PT1H30M" or "P3D"'
+};
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?(Z|[+-]\d{2}(?::?\d{2})?)?$/;
+const DURATION_PATTERN = /^P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/;
+
+// Seconds per duration component, in the order DURATION_PATTERN captures them
+const DURATION_UNITS = [365 * 86400, 30 * 86400, 7 * 86400, 86400, 3600, 60, 1];
+
+const parseDatePart = (value: string): number | null => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  // Rejects overflowing dates such as 2023-02-29, which Date would roll into March
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.getTime();
+};
+
+const parseTimePart = (value: string): { milliseconds: number; hasTimezone: boolean } | null => {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return null;
+  const [, hours, minutes, seconds = '0', fraction = '0', zone] = match;
+  const [h, m, s] = [hours, minutes, seconds].map(Number);
+  // 24:00 marks the end of a day, e.g. a closing time
+  const isEndOfDay = h === 24 && m === 0 && s === 0 && Number(fraction) === 0;
+  if ((h > 23 && !isEndOfDay) || m > 59 || s > 59) return null;
+
+  let offsetMinutes = 0;
+  if (zone && zone !== 'Z') {
+    const digits = zone.slice(1).replace(':', '');
+    const offsetHours = Number(digits.slice(0, 2));
+    const offsetRest = Number(digits.slice(2) || '0');
+    if (offsetHours > 14 || offsetRest > 59) return null;
+    offsetMinutes = (zone.startsWith('-') ? -1 : 1) * (offsetHours * 60 + offsetRest);
+  }
+
+  const milliseconds = ((h * 60 + m - offsetMinutes) * 60 + s) * 1000 + Math.round(Number(`0.${fraction}`) * 1000);
+  return { milliseconds, hasTimezone: !!zone };
+};
+
+/**
+ * Calendar date, "YYYY-MM-DD"
+ */
+export const parseIsoDate = (value: string): ParsedTemporal | null => {
+  const timestamp = parseDatePart(value);
+  return timestamp === null ? null : { type: 'Date', date: value, hasTime: false, hasTimezone: false, timestamp };
+};
+
+/**
+ * Date and time, "YYYY-MM-DDThh:mm[:ss[.fff]]" with an optional "Z" or ±hh:mm offset
+ */
+export const parseIsoDateTime = (value: string): ParsedTemporal | null => {
+  const [datePart, timePart, ...rest] = value.split('T');
+  if (timePart === undefined || rest.length > 0) return null;
+  const date = parseDatePart(datePart);
+  const time = parseTimePart(timePart);
+  if (date === null || time === null) return null;
+  return { type: 'DateTime', date: datePart, hasTime: true, hasTimezone: time.hasTimezone, timestamp: date + time.milliseconds };
+};
+
+/**
+ * Time of day, "hh:mm[:ss[.fff]]" with an optional "Z" or ±hh:mm offset
+ */
+export const parseIsoTime = (value: string): ParsedTemporal | null => {
+  const time = parseTimePart(value);
+  return time === null ? null : { type: 'Time', hasTime: true, hasTimezone: time.hasTimezone, timestamp: time.milliseconds };
+};
+
+/**
+ * Duration, "PnYnMnWnDTnHnMnS" with at least one component; only the last may have a fraction
+ */
+export const parseIsoDuration = (value: string): ParsedDuration | null => {
+  const match = DURATION_PATTERN.exec(value);
+  if (!match || value === 'P' || value.endsWith('T')) return null;
+  const components = match.slice(1);
+  const present = components.map((component, index) => (component === undefined ? -1 : index)).filter(index => index >= 0);
+  if (present.length === 0) return null;
+  const lastIndex = present[present.length - 1];
+  if (present.some(index => index !== lastIndex && /[.,]/.test(components[index]))) return null;
+  const seconds = components.reduce((total, component, index) => (
+    component === undefined ? total : total + Number(component.replace(',', '.')) * DURATION_UNITS[index]
+  ), 0);
+  return { seconds };
+};
+
+/**
+ * Parses a value as the first of the allowed date/time types it matches
+ */
+export const parseTemporal = (value: string, allowed: TemporalType[]): ParsedTemporal | ParsedDuration | null => {
+  const parsers: Record<TemporalType, (value: string) => ParsedTemporal | ParsedDuration | null> = {
+    Date: parseIsoDate,
+    DateTime: parseIsoDateTime,
+    Time: parseIsoTime,
+    Duration: parseIsoDuration
+  };
+  for (const type of allowed) {
+    const parsed = parsers[type](value.trim());
+    if (parsed) return parsed;
+  }
+  return null;
+};
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const formatDate = (year: number, month: number, day: number): string | null => {
+  const value = `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return parseIsoDate(value) ? value : null;
+};
+
+// Full or abbreviated English month name ("Jan", "Sept"); 0 when it is not one
+const monthNumber = (name: string): number => MONTH_NAMES.findIndex(month => month.startsWith(name.toLowerCase())) + 1;
+
+/**
+ * Rewrites common non-ISO ways of writing a date as an ISO 8601 Date: "January 15, 2024", "15 Jan 2024",
+ * "2024/01/15", "2024-1-5" and numeric day/month orders where only one reading is possible ("25/12/2024").
+ * A date-time with a space instead of "T" becomes a DateTime. Ambiguous values such as "01/02/2024" give null.
+ */
+export const toIsoTemporal = (value: string, allowed: TemporalType[]): string | null => {
+  const trimmed = value.trim();
+
+  if (allowed.includes('DateTime')) {
+    const dateTime = trimmed.replace(/^(\d{4}-\d{2}-\d{2})\s+(\d{2}:\d{2})/, '$1T$2');
+    if (dateTime !== trimmed && parseIsoDateTime(dateTime)) return dateTime;
+  }
+  if (!allowed.includes('Date')) return null;
+
+  let match = /^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i.exec(trimmed);
+  if (match && monthNumber(match[1]) > 0) return formatDate(Number(match[3]), monthNumber(match[1]), Number(match[2]));
+
+  match = /^(\d{1,2})(?:st|nd|rd|th)?\.?\s+([a-z]{3,9})\.?,?\s+(\d{4})$/i.exec(trimmed);
+  if (match && monthNumber(match[2]) > 0) return formatDate(Number(match[3]), monthNumber(match[2]), Number(match[1]));
+
+  match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(trimmed);
+  if (match) return formatDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(trimmed);
+  if (match) {
+    const [first, second, year] = match.slice(1).map(Number);
+    if (first > 12 && second <= 12) return formatDate(year, second, first);
+    if (second > 12 && first <= 12) return formatDate(year, first, second);
+    if (first === second) return formatDate(year, first, second);
+  }
+  return null;
+};
@@ -0,0 +1,20 @@
+import { isSubtypeOf } from './schemaVocabulary';
+
+// A JSON-LD node object as parsed from a schema
+export type JsonLdNode = Record<string, any>;
+
+export const isPlainObject = (value: unknown): value is JsonLdNode => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * The node's @type values; a single type becomes a one-element list and non-strings are dropped
+ */
+export const getTypes = (node: Record<string, unknown>): string[] => {
+  const type = node['@type'];
+  return (Array.isArray(type) ? type : [type]).filter((value): value is string => typeof value === 'string');
+};
+
+/**
+ * Whether one of the node's types is one of the given types or a subtype of one, per the vocabulary
+ */
+export const hasType = (node: Record<string, unknown>, types: string[]): boolean =>
+  getTypes(node).some(type => types.some(expected => isSubtypeOf(type, expected)));
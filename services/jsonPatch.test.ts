@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { applyJsonPatch, toJsonPointer } from './jsonPatch';
+
+describe('toJsonPointer', () => {
+  it('converts validator paths to JSON Pointers', () => {
+    expect(toJsonPointer('offers[0].price')).toBe('/offers/0/price');
+    expect(toJsonPointer('@graph[1].name')).toBe('/@graph/1/name');
+    expect(toJsonPointer('')).toBe('');
+  });
+
+  it('escapes "~" and "/" in keys', () => {
+    expect(toJsonPointer('a/b.c~d')).toBe('/a~1b/c~0d');
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = { name: 'Widget', offers: [{ price: '$10' }], 'a/b': 1 };
+
+  it('adds, replaces and removes values without changing the original', () => {
+    const patched = applyJsonPatch(document, [
+      { op: 'test', path: '/offers/0/price', value: '$10' },
+      { op: 'replace', path: '/offers/0/price', value: '10' },
+      { op: 'add', path: '/offers/-', value: { price: '12' } },
+      { op: 'add', path: '/brand', value: 'Acme' },
+      { op: 'remove', path: '/a~1b' }
+    ]);
+    expect(patched).toEqual({ name: 'Widget', offers: [{ price: '10' }, { price: '12' }], brand: 'Acme' });
+    expect(document).toEqual({ name: 'Widget', offers: [{ price: '$10' }], 'a/b': 1 });
+  });
+
+  it('keeps the order of properties on replace', () => {
+    const patched = applyJsonPatch(document, [{ op: 'replace', path: '/name', value: 'Gadget' }]);
+    expect(Object.keys(patched)).toEqual(['name', 'offers', 'a/b']);
+  });
+
+  it('moves and copies values', () => {
+    expect(applyJsonPatch({ price: '10', offers: {} }, [{ op: 'move', from: '/price', path: '/offers/price' }]))
+      .toEqual({ offers: { price: '10' } });
+    expect(applyJsonPatch({ image: ['a.jpg'] }, [{ op: 'copy', from: '/image/0', path: '/logo' }]))
+      .toEqual({ image: ['a.jpg'], logo: 'a.jpg' });
+    expect(() => applyJsonPatch({ a: { b: 1 } }, [{ op: 'move', from: '/a', path: '/a/c' }])).toThrow('into itself');
+  });
+
+  it('compares values deeply in "test"', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: '/offers', value: [{ price: '$10' }] }])).not.toThrow();
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: '/offers', value: [{ price: '10' }] }])).toThrow('Test failed at "/offers"');
+  });
+
+  it('fails as a whole when an operation does not apply', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: '/brand', value: 'Acme' }])).toThrow('Path not found');
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/offers/1' }])).toThrow('out of bounds');
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/offers/x', value: 1 }])).toThrow('Invalid array index');
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: 'name', value: 1 }])).toThrow('Invalid JSON Pointer');
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '' }])).toThrow('whole document');
+  });
+
+  it('replaces the whole document with an empty path', () => {
+    expect(applyJsonPatch(document, [{ op: 'replace', path: '', value: { name: 'New' } }])).toEqual({ name: 'New' });
+  });
+});
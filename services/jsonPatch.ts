@@ -0,0 +1,128 @@
+// JSON Patch (RFC 6902) operations; paths are JSON Pointers (RFC 6901) such as "/offers/0/price"
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+const escapeToken = (token: string): string => token.replace(/~/g, '~0').replace(/\//g, '~1');
+const unescapeToken = (token: string): string => token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+/**
+ * JSON Pointer for a path in the validator's notation ("offers[0].price" -> "/offers/0/price")
+ */
+export const toJsonPointer = (path = ''): string => {
+  const tokens = path.match(/\[\d+\]|[^.[\]]+/g) || [];
+  return tokens.map(token => `/${escapeToken(token.startsWith('[') ? token.slice(1, -1) : token)}`).join('');
+};
+
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer: "${pointer}"`);
+  return pointer.slice(1).split('/').map(unescapeToken);
+};
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] => !!value && typeof value === 'object';
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every(key => key in b && deepEqual(a[key], b[key]));
+};
+
+const arrayIndex = (array: unknown[], token: string, allowEnd: boolean): number => {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) throw new Error(`Invalid array index "${token}"`);
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) throw new Error(`Array index ${index} is out of bounds`);
+  return index;
+};
+
+// The container a pointer's last token refers into
+const resolveParent = (document: unknown, tokens: string[]): Record<string, unknown> | unknown[] => {
+  const parent = tokens.slice(0, -1).reduce<unknown>((value, token) => {
+    if (Array.isArray(value)) return value[arrayIndex(value, token, false)];
+    if (isContainer(value) && Object.prototype.hasOwnProperty.call(value, token)) return value[token];
+    throw new Error(`Path not found: "${token}"`);
+  }, document);
+  if (!isContainer(parent)) throw new Error('Path does not point into an object or array');
+  return parent;
+};
+
+const getValue = (document: unknown, pointer: string): unknown => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return document;
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, key, false)];
+  if (!Object.prototype.hasOwnProperty.call(parent, key)) throw new Error(`Path not found: "${pointer}"`);
+  return parent[key];
+};
+
+const removeValue = (document: unknown, pointer: string): unknown => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) throw new Error('Cannot remove the whole document');
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  const removed = getValue(document, pointer);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, false), 1);
+  else delete parent[key];
+  return removed;
+};
+
+const addValue = (document: unknown, pointer: string, value: unknown): unknown => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, true), 0, value);
+  else parent[key] = value;
+  return document;
+};
+
+// Replaces in place, so an object's properties keep their order
+const replaceValue = (document: unknown, pointer: string, value: unknown): unknown => {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  getValue(document, pointer);
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) parent[arrayIndex(parent, key, false)] = value;
+  else parent[key] = value;
+  return document;
+};
+
+/**
+ * Applies a JSON Patch to a copy of the document. The patch is atomic: if any operation fails
+ * (a missing path, or a "test" that does not match) an error is thrown and nothing is changed.
+ */
+export const applyJsonPatch = <T>(document: T, patch: JsonPatchOperation[]): T => {
+  const copy = (value: unknown) => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+  return patch.reduce<any>((current, operation) => {
+    switch (operation.op) {
+      case 'add':
+        return addValue(current, operation.path, copy(operation.value));
+      case 'remove':
+        removeValue(current, operation.path);
+        return current;
+      case 'replace':
+        return replaceValue(current, operation.path, copy(operation.value));
+      case 'move': {
+        if (operation.path.startsWith(`${operation.from}/`)) throw new Error('Cannot move a value into itself');
+        const value = removeValue(current, operation.from);
+        return addValue(current, operation.path, value);
+      }
+      case 'copy':
+        return addValue(current, operation.path, copy(getValue(current, operation.from)));
+      case 'test':
+        if (!deepEqual(getValue(current, operation.path), operation.value)) {
+          throw new Error(`Test failed at "${operation.path}"`);
+        }
+        return current;
+      default:
+        throw new Error(`Unknown JSON Patch operation: ${(operation as { op: string }).op}`);
+    }
+  }, copy(document));
+};
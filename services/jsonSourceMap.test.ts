@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { findSourceRange, parseJsonWithPositions } from './jsonSourceMap';
+
+const SOURCE = [
+  '{',
+  '  "@type": "Product",',
+  '  "offers": [',
+  '    { "price": 10 }',
+  '  ]',
+  '}'
+].join('\n');
+
+describe('parseJsonWithPositions', () => {
+  it('parses like JSON.parse', () => {
+    const text = '{"a": [1, -2.5e3, true, null, "x\\u00e9\\n"], "__proto__": {"b": false}}';
+    const result = parseJsonWithPositions(text);
+    expect(result.error).toBeUndefined();
+    expect(result.value).toEqual(JSON.parse(text));
+    expect(Object.keys(result.value as object)).toEqual(['a', '__proto__']);
+  });
+
+  it('records ranges by path, starting properties at their key', () => {
+    const { ranges } = parseJsonWithPositions(SOURCE);
+    expect(ranges.get('@type')).toEqual({
+      start: { line: 2, column: 3, offset: 4 },
+      end: { line: 2, column: 21, offset: 22 }
+    });
+    expect(ranges.get('offers[0].price')?.start).toMatchObject({ line: 4, column: 7 });
+    expect(ranges.get('offers')?.end).toMatchObject({ line: 5, column: 4 });
+    expect(ranges.get('')?.start).toMatchObject({ line: 1, column: 1 });
+  });
+
+  it('reports where parsing stopped', () => {
+    expect(parseJsonWithPositions('{\n  "a": 1\n  "b": 2\n}').error).toEqual({
+      message: "Expected ',' or '}' after property value, found '\"'",
+      position: { line: 3, column: 3, offset: 13 }
+    });
+    expect(parseJsonWithPositions('{"a": "open').error?.message).toBe('Unterminated string');
+    expect(parseJsonWithPositions('[1] 2').error?.message).toBe("Unexpected '2' after the end of the JSON value");
+    expect(parseJsonWithPositions('{"a": "line\nbreak"}').error?.message).toBe('Unescaped line break in string');
+  });
+
+  it('rejects what JSON.parse rejects', () => {
+    ['', '{a: 1}', '[1,]', '01', "'x'", '{"a": "\\x"}', 'tru'].forEach(text => {
+      expect(parseJsonWithPositions(text).error, text).toBeDefined();
+    });
+  });
+});
+
+describe('findSourceRange', () => {
+  const { ranges } = parseJsonWithPositions(SOURCE);
+
+  it('finds a path exactly', () => {
+    expect(findSourceRange(ranges, 'offers[0].price')).toEqual({ range: ranges.get('offers[0].price'), exact: true });
+  });
+
+  it('falls back to the nearest ancestor in the source', () => {
+    expect(findSourceRange(ranges, 'offers[0].priceCurrency')).toEqual({ range: ranges.get('offers[0]'), exact: false });
+    expect(findSourceRange(ranges, 'brand.name')).toEqual({ range: ranges.get(''), exact: false });
+  });
+
+  it('gives undefined without ranges', () => {
+    expect(findSourceRange(new Map(), 'name')).toBeUndefined();
+  });
+});
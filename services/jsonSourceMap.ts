@@ -0,0 +1,197 @@
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number; // 0-based character index
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition; // just past the last character
+}
+
+export interface JsonParseResult {
+  value?: unknown;
+  ranges: Map<string, SourceRange>; // keyed by JSON path
+  error?: { message: string; position: SourcePosition }; // set when the text is not valid JSON
+}
+
+// Paths use the validator's notation: "" for the document, then "offers[0].price", "@graph[1].name"...
+const childPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+const indexPath = (path: string, index: number): string => `${path}[${index}]`;
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERALS: [string, unknown][] = [['true', true], ['false', false], ['null', null]];
+
+class ParseFailure {
+  constructor(readonly message: string, readonly offset: number) {}
+}
+
+/**
+ * Parses JSON like JSON.parse, also recording where each value is in the source. The range of an
+ * object property starts at its key. Syntax errors report the position where parsing stopped.
+ */
+export const parseJsonWithPositions = (text: string): JsonParseResult => {
+  const lineStarts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') lineStarts.push(index + 1);
+  }
+  const positionAt = (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+  };
+
+  const ranges = new Map<string, SourceRange>();
+  let offset = 0;
+
+  const fail = (message: string, at = offset): never => {
+    throw new ParseFailure(message, at);
+  };
+  const describe = (at: number): string => (at >= text.length ? 'end of input' : `'${text[at]}'`);
+  const skipWhitespace = () => {
+    while (offset < text.length && ' \t\n\r'.includes(text[offset])) offset++;
+  };
+  const record = (path: string, start: number) => {
+    ranges.set(path, { start: positionAt(start), end: positionAt(offset) });
+  };
+
+  const parseString = (): string => {
+    const start = offset;
+    offset++; // opening quote
+    while (offset < text.length && text[offset] !== '"') {
+      const char = text[offset];
+      if (char === '\\') {
+        const escape = text[offset + 1];
+        if (escape === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(offset + 2, offset + 6))) fail('Invalid \\u escape in string');
+          offset += 6;
+        } else if (escape !== undefined && '"\\/bfnrt'.includes(escape)) {
+          offset += 2;
+        } else {
+          fail(`Invalid escape sequence "\\${escape ?? ''}" in string`);
+        }
+      } else if (char < ' ') {
+        fail(char === '\n' || char === '\r' ? 'Unescaped line break in string' : 'Control character in string');
+      } else {
+        offset++;
+      }
+    }
+    if (offset >= text.length) fail('Unterminated string', start);
+    offset++; // closing quote
+    return JSON.parse(text.slice(start, offset));
+  };
+
+  const parseValue = (path: string, rangeStart?: number): unknown => {
+    skipWhitespace();
+    const start = offset;
+    const char = text[offset];
+    let value: unknown;
+
+    if (char === '{') {
+      offset++;
+      const object: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[offset] === '}') {
+        offset++;
+      } else {
+        for (;;) {
+          skipWhitespace();
+          if (text[offset] !== '"') fail(`Expected a double-quoted property name, found ${describe(offset)}`);
+          const keyStart = offset;
+          const key = parseString();
+          skipWhitespace();
+          if (text[offset] !== ':') fail(`Expected ':' after property name, found ${describe(offset)}`);
+          offset++;
+          // Own property even for "__proto__", as JSON.parse does
+          Object.defineProperty(object, key, {
+            value: parseValue(childPath(path, key), keyStart),
+            writable: true,
+            enumerable: true,
+            configurable: true
+          });
+          skipWhitespace();
+          if (text[offset] === ',') {
+            offset++;
+          } else if (text[offset] === '}') {
+            offset++;
+            break;
+          } else {
+            fail(`Expected ',' or '}' after property value, found ${describe(offset)}`);
+          }
+        }
+      }
+      value = object;
+    } else if (char === '[') {
+      offset++;
+      const array: unknown[] = [];
+      skipWhitespace();
+      if (text[offset] === ']') {
+        offset++;
+      } else {
+        for (;;) {
+          array.push(parseValue(indexPath(path, array.length)));
+          skipWhitespace();
+          if (text[offset] === ',') {
+            offset++;
+          } else if (text[offset] === ']') {
+            offset++;
+            break;
+          } else {
+            fail(`Expected ',' or ']' after array element, found ${describe(offset)}`);
+          }
+        }
+      }
+      value = array;
+    } else if (char === '"') {
+      value = parseString();
+    } else {
+      NUMBER_PATTERN.lastIndex = offset;
+      const number = NUMBER_PATTERN.exec(text);
+      const literal = LITERALS.find(([word]) => text.startsWith(word, offset));
+      if (number && (char === '-' || (char >= '0' && char <= '9'))) {
+        offset += number[0].length;
+        value = Number(number[0]);
+      } else if (literal) {
+        offset += literal[0].length;
+        value = literal[1];
+      } else {
+        fail(`Unexpected ${describe(offset)}`);
+      }
+    }
+
+    record(path, rangeStart ?? start);
+    return value;
+  };
+
+  try {
+    const value = parseValue('');
+    skipWhitespace();
+    if (offset < text.length) fail(`Unexpected ${describe(offset)} after the end of the JSON value`);
+    return { value, ranges };
+  } catch (error) {
+    if (error instanceof ParseFailure) {
+      return { ranges: new Map(), error: { message: error.message, position: positionAt(error.offset) } };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Source range for a path. A path that is not in the source (e.g. a missing property) resolves to
+ * its nearest ancestor that is, with `exact` false.
+ */
+export const findSourceRange = (ranges: Map<string, SourceRange>, path = ''): { range: SourceRange; exact: boolean } | undefined => {
+  let current = path;
+  for (;;) {
+    const range = ranges.get(current);
+    if (range) return { range, exact: current === path };
+    if (!current) return undefined;
+    const parent = current.replace(/(?:\[\d+\]|\.?[^.[\]]+)$/, '');
+    current = parent === current ? '' : parent;
+  }
+};
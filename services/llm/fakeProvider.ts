@@ -0,0 +1,64 @@
+import { BaseLlmProvider, LlmGenerateRequest } from './llmProvider';
+
+export interface FakeProviderOptions {
+  // Canned responses returned in order; once exhausted the default response is used
+  responses?: string[];
+  // Makes every generate() call reject with this error
+  failWith?: Error;
+  maxInputTokens?: number;
+}
+
+/**
+ * Deterministic provider for tests and offline development. Makes no network calls.
+ */
+export class FakeLlmProvider extends BaseLlmProvider {
+  readonly id = 'fake' as const;
+  readonly model = 'fake-model';
+  readonly maxInputTokens: number;
+
+  // Every request received, for assertions
+  readonly requests: LlmGenerateRequest[] = [];
+
+  private readonly responses: string[];
+  private readonly failWith?: Error;
+
+  constructor(options: FakeProviderOptions = {}) {
+    super();
+    this.responses = [...(options.responses || [])];
+    this.failWith = options.failWith;
+    this.maxInputTokens = options.maxInputTokens ?? 8192;
+  }
+
+  async generate(request: LlmGenerateRequest, signal?: AbortSignal): Promise<string> {
+    return this.track(signal, async (abortSignal) => {
+      this.requests.push(request);
+
+      if (abortSignal.aborted) {
+        throw new Error('Operation was cancelled');
+      }
+      if (this.failWith) {
+        throw this.failWith;
+      }
+
+      return this.responses.shift() ?? this.defaultResponse(request.prompt);
+    });
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  /**
+   * Builds a WebSite schema from the "Page URL:" line of the prompt
+   */
+  private defaultResponse(prompt: string): string {
+    const url = prompt.match(/^Page URL: (.+)$/m)?.[1]?.trim() || 'https://example.com/';
+    const schema = {
+      "@context": "https://schema.org",
+      "@type": "WebSite",
+      "name": new URL(url).hostname,
+      "url": url
+    };
+    return JSON.stringify([{ type: 'WebSite', schema: JSON.stringify(schema) }]);
+  }
+}
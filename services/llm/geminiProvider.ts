@@ -0,0 +1,59 @@
+import { GoogleGenAI } from '@google/genai';
+import { BaseLlmProvider, LlmGenerateRequest } from './llmProvider';
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model: string;
+  maxInputTokens: number;
+}
+
+export class GeminiProvider extends BaseLlmProvider {
+  readonly id = 'gemini' as const;
+  readonly model: string;
+  readonly maxInputTokens: number;
+
+  private readonly ai: GoogleGenAI;
+
+  constructor(options: GeminiProviderOptions) {
+    super();
+    if (!options.apiKey) {
+      throw new Error('Gemini provider requires VITE_GEMINI_API_KEY (or VITE_LLM_API_KEY) to be set');
+    }
+    this.ai = new GoogleGenAI({ apiKey: options.apiKey });
+    this.model = options.model;
+    this.maxInputTokens = options.maxInputTokens;
+  }
+
+  async generate(request: LlmGenerateRequest, signal?: AbortSignal): Promise<string> {
+    return this.track(signal, async (abortSignal) => {
+      const response = await this.ai.models.generateContent({
+        model: this.model,
+        contents: request.prompt,
+        config: {
+          ...(request.responseSchema && {
+            responseMimeType: 'application/json',
+            responseJsonSchema: request.responseSchema
+          }),
+          temperature: request.temperature,
+          abortSignal
+        }
+      });
+
+      if (!response.text) {
+        throw new Error('Gemini returned an empty response');
+      }
+      return response.text;
+    });
+  }
+
+  async countTokens(text: string, signal?: AbortSignal): Promise<number> {
+    return this.track(signal, async (abortSignal) => {
+      const response = await this.ai.models.countTokens({
+        model: this.model,
+        contents: text,
+        config: { abortSignal }
+      });
+      return response.totalTokens ?? 0;
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { LlmProvider, LlmProviderId } from './llmProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { FakeLlmProvider } from './fakeProvider';
+
+export * from './llmProvider';
+export { GeminiProvider } from './geminiProvider';
+export { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+export { FakeLlmProvider } from './fakeProvider';
+
+export interface LlmConfig {
+  provider: LlmProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  maxInputTokens: number;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': '',
+  'fake': 'fake-model'
+};
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MAX_INPUT_TOKENS = 8192;
+
+const isProviderId = (value: string | undefined): value is LlmProviderId =>
+  !!value && value in DEFAULT_MODELS;
+
+/**
+ * Reads the provider configuration injected by vite.config.ts
+ */
+export const getLlmConfig = (): LlmConfig => {
+  const requested = process.env.VITE_LLM_PROVIDER?.trim() || 'gemini';
+  if (!isProviderId(requested)) {
+    throw new Error(`Unknown VITE_LLM_PROVIDER "${requested}". Use one of: ${Object.keys(DEFAULT_MODELS).join(', ')}`);
+  }
+  const provider = requested;
+  const maxInputTokens = parseInt(process.env.VITE_LLM_MAX_INPUT_TOKENS || '', 10);
+
+  return {
+    provider,
+    model: process.env.VITE_LLM_MODEL?.trim() || DEFAULT_MODELS[provider],
+    apiKey: process.env.VITE_LLM_API_KEY || (provider === 'gemini' ? process.env.VITE_GEMINI_API_KEY : undefined),
+    baseUrl: process.env.VITE_LLM_BASE_URL?.trim() || DEFAULT_BASE_URL,
+    maxInputTokens: maxInputTokens > 0 ? maxInputTokens : DEFAULT_MAX_INPUT_TOKENS
+  };
+};
+
+/**
+ * Creates the provider described by the config
+ */
+export const createLlmProvider = (config: LlmConfig): LlmProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider({
+        apiKey: config.apiKey || '',
+        model: config.model,
+        maxInputTokens: config.maxInputTokens
+      });
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider({
+        baseUrl: config.baseUrl || DEFAULT_BASE_URL,
+        model: config.model,
+        maxInputTokens: config.maxInputTokens,
+        apiKey: config.apiKey
+      });
+    case 'fake':
+      return new FakeLlmProvider({ maxInputTokens: config.maxInputTokens });
+  }
+};
+
+let defaultProvider: LlmProvider | null = null;
+
+/**
+ * Returns the provider configured through environment variables, created on first use
+ */
+export const getDefaultLlmProvider = (): LlmProvider => {
+  if (!defaultProvider) {
+    defaultProvider = createLlmProvider(getLlmConfig());
+  }
+  return defaultProvider;
+};
@@ -0,0 +1,73 @@
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'fake';
+
+// Plain JSON Schema object describing the expected response shape
+export type JsonSchema = Record<string, unknown>;
+
+export interface LlmGenerateRequest {
+  prompt: string;
+  // When set, the provider is asked to return JSON matching this schema
+  responseSchema?: JsonSchema;
+  temperature?: number;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  // Largest prompt the model should receive, in tokens
+  readonly maxInputTokens: number;
+
+  /**
+   * Sends a prompt to the model and resolves with the raw response text
+   */
+  generate(request: LlmGenerateRequest, signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Counts (or estimates) the number of tokens the text uses for this model
+   */
+  countTokens(text: string, signal?: AbortSignal): Promise<number>;
+
+  /**
+   * Aborts every request this provider still has in flight
+   */
+  cancel(): void;
+}
+
+/**
+ * Shared in-flight request tracking so every provider supports cancel()
+ */
+export abstract class BaseLlmProvider implements LlmProvider {
+  abstract readonly id: LlmProviderId;
+  abstract readonly model: string;
+  abstract readonly maxInputTokens: number;
+
+  private readonly inFlight = new Set<AbortController>();
+
+  abstract generate(request: LlmGenerateRequest, signal?: AbortSignal): Promise<string>;
+  abstract countTokens(text: string, signal?: AbortSignal): Promise<number>;
+
+  cancel(): void {
+    this.inFlight.forEach(controller => controller.abort());
+    this.inFlight.clear();
+  }
+
+  /**
+   * Runs a request with a signal that fires on either the caller's signal or cancel()
+   */
+  protected async track<T>(signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    this.inFlight.add(controller);
+
+    const combined = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+
+    try {
+      return await run(combined);
+    } finally {
+      this.inFlight.delete(controller);
+    }
+  }
+}
+
+/**
+ * Rough token estimate for backends without a token counting endpoint (~4 characters per token)
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
@@ -0,0 +1,86 @@
+import { BaseLlmProvider, LlmGenerateRequest, estimateTokens } from './llmProvider';
+
+export interface OpenAiCompatibleProviderOptions {
+  // e.g. http://localhost:11434/v1 (Ollama), http://localhost:8080/v1 (llama.cpp), http://localhost:8000/v1 (vLLM)
+  baseUrl: string;
+  model: string;
+  maxInputTokens: number;
+  apiKey?: string;
+}
+
+// Structured output in the OpenAI format requires an object at the root
+const WRAPPED_RESULT_KEY = 'result';
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API
+ */
+export class OpenAiCompatibleProvider extends BaseLlmProvider {
+  readonly id = 'openai-compatible' as const;
+  readonly model: string;
+  readonly maxInputTokens: number;
+
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(options: OpenAiCompatibleProviderOptions) {
+    super();
+    if (!options.model) {
+      throw new Error('OpenAI-compatible provider requires VITE_LLM_MODEL to be set');
+    }
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.maxInputTokens = options.maxInputTokens;
+    this.apiKey = options.apiKey;
+  }
+
+  async generate(request: LlmGenerateRequest, signal?: AbortSignal): Promise<string> {
+    const wrapResult = !!request.responseSchema && request.responseSchema.type !== 'object';
+
+    return this.track(signal, async (abortSignal) => {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          stream: false,
+          ...(request.responseSchema && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: {
+                name: 'response',
+                schema: wrapResult
+                  ? { type: 'object', properties: { [WRAPPED_RESULT_KEY]: request.responseSchema }, required: [WRAPPED_RESULT_KEY] }
+                  : request.responseSchema
+              }
+            }
+          })
+        }),
+        signal: abortSignal
+      });
+
+      if (!response.ok) {
+        throw new Error(`LLM server responded with HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      const body = await response.json();
+      const content: unknown = body?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new Error('LLM server returned an empty response');
+      }
+
+      if (!wrapResult) return content;
+      const parsed = JSON.parse(content);
+      return JSON.stringify(parsed && WRAPPED_RESULT_KEY in parsed ? parsed[WRAPPED_RESULT_KEY] : parsed);
+    });
+  }
+
+  async countTokens(text: string): Promise<number> {
+    // The OpenAI API has no token counting endpoint, and local servers disagree on theirs
+    return estimateTokens(text);
+  }
+}
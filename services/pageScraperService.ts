@@ -0,0 +1,280 @@
+import { ScrapedWebsiteData } from './websiteProfileService';
+
+// Development-only logging utility
+const devLog = (...args: any[]) => {
+  if (process.env.NODE_ENV === 'development') {
+    console.log(...args);
+  }
+};
+
+// Served by the page-fetch-proxy plugin in vite.config.ts
+const PAGE_FETCH_ENDPOINT = '/api/fetch';
+
+const MAX_IMAGES = 10;
+
+// Hosts of social networks whose profile links are offered as sameAs entries
+const SOCIAL_HOSTS = /(^|\.)(facebook\.com|twitter\.com|x\.com|instagram\.com|linkedin\.com|youtube\.com|tiktok\.com|pinterest\.com|github\.com|threads\.net)$/i;
+
+// Share buttons and intents link to the network, not to the site's own profile
+const SOCIAL_SHARE_PATH = /\/(sharer|share|intent|shareArticle|pin\/create|dialog)\b/i;
+
+export interface FetchedPage {
+  url: string;
+  finalUrl: string;
+  html: string;
+  robotsTag?: string; // X-Robots-Tag response header, e.g. "noindex, nofollow"
+}
+
+/**
+ * URL of the proxy endpoint that fetches the given page
+ */
+export const buildProxyUrl = (url: string): string => `${PAGE_FETCH_ENDPOINT}?url=${encodeURIComponent(url)}`;
+
+/**
+ * Fetches any URL through the local dev-server proxy, throwing on HTTP errors
+ */
+export const fetchThroughProxy = async (url: string, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(buildProxyUrl(url), { signal });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url} (HTTP ${response.status})`);
+  }
+  return response;
+};
+
+/**
+ * Fetches the raw HTML of a page through the local dev-server proxy
+ */
+export const fetchPageHtml = async (url: string, signal?: AbortSignal): Promise<FetchedPage> => {
+  const response = await fetchThroughProxy(url, signal);
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/html|xml/i.test(contentType)) {
+    throw new Error(`URL did not return an HTML page (content type: ${contentType})`);
+  }
+
+  const html = await response.text();
+  devLog(`Fetched ${html.length} characters of HTML from ${url}`);
+
+  return {
+    url,
+    finalUrl: response.headers.get('x-final-url') || url,
+    html,
+    robotsTag: response.headers.get('x-robots-tag') || undefined
+  };
+};
+
+/**
+ * Parses an HTML string into a detached Document
+ */
+export const parseHtmlDocument = (html: string): Document => {
+  return new DOMParser().parseFromString(html, 'text/html');
+};
+
+/**
+ * Resolves a possibly relative URL against the page URL.
+ * Element properties like `a.href` resolve against the app origin, so raw attributes are used instead.
+ */
+export const resolveUrl = (value: string | null | undefined, baseUrl: string): string | undefined => {
+  if (!value || !value.trim() || value.trim().startsWith('data:')) return undefined;
+  try {
+    return new URL(value.trim(), baseUrl).href;
+  } catch {
+    return undefined;
+  }
+};
+
+const cleanText = (value: string | null | undefined): string | undefined => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text : undefined;
+};
+
+const getMetaContent = (doc: Document, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const element = doc.querySelector(`meta[name="${key}" i], meta[property="${key}" i], meta[itemprop="${key}" i]`);
+    const content = cleanText(element?.getAttribute('content'));
+    if (content) return content;
+  }
+  return undefined;
+};
+
+const getTextContent = (doc: Document, ...selectors: string[]): string | undefined => {
+  for (const selector of selectors) {
+    const text = cleanText(doc.querySelector(selector)?.textContent);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+const extractImages = (doc: Document, baseUrl: string): string[] => {
+  const candidates: Array<string | undefined> = [];
+
+  doc.querySelectorAll('meta[property="og:image" i], meta[property="og:image:url" i], meta[name="twitter:image" i]').forEach(meta => {
+    candidates.push(resolveUrl(meta.getAttribute('content'), baseUrl));
+  });
+
+  const contentRoot = doc.querySelector('article, main, [role="main"]') || doc.body;
+  contentRoot?.querySelectorAll('img').forEach(img => {
+    candidates.push(resolveUrl(img.getAttribute('src') || img.getAttribute('data-src'), baseUrl));
+  });
+
+  return Array.from(new Set(candidates.filter((src): src is string => !!src))).slice(0, MAX_IMAGES);
+};
+
+const extractSocialLinks = (doc: Document, baseUrl: string): string[] => {
+  const links: string[] = [];
+
+  doc.querySelectorAll('a[href], link[rel~="me" i][href]').forEach(element => {
+    const href = resolveUrl(element.getAttribute('href'), baseUrl);
+    if (!href) return;
+    try {
+      const parsed = new URL(href);
+      if (!SOCIAL_HOSTS.test(parsed.hostname) || SOCIAL_SHARE_PATH.test(parsed.pathname) || parsed.pathname.length <= 1) return;
+      parsed.hash = '';
+      links.push(parsed.toString().replace(/\/$/, ''));
+    } catch {
+      // Ignore malformed links
+    }
+  });
+
+  return Array.from(new Set(links));
+};
+
+const extractBreadcrumbs = (doc: Document, baseUrl: string): Array<{ name: string; url: string }> => {
+  const container = doc.querySelector(
+    'nav[aria-label*="breadcrumb" i], [class*="breadcrumb" i], [id*="breadcrumb" i]'
+  );
+  if (!container) return [];
+
+  const crumbs: Array<{ name: string; url: string }> = [];
+  container.querySelectorAll('a[href]').forEach(link => {
+    const name = cleanText(link.textContent);
+    const url = resolveUrl(link.getAttribute('href'), baseUrl);
+    if (name && url) crumbs.push({ name, url });
+  });
+
+  // The current page is usually the last, unlinked crumb
+  const current = container.querySelector('[aria-current="page"]');
+  const currentName = cleanText(current?.textContent);
+  if (currentName && !crumbs.some(crumb => crumb.name === currentName)) {
+    crumbs.push({ name: currentName, url: baseUrl });
+  }
+
+  return crumbs;
+};
+
+const extractFaqs = (doc: Document): Array<{ question: string; answer: string }> => {
+  const faqs: Array<{ question: string; answer: string }> = [];
+
+  // <details><summary>Question</summary>Answer</details>
+  doc.querySelectorAll('details').forEach(details => {
+    const summary = details.querySelector('summary');
+    const question = cleanText(summary?.textContent);
+    const answer = cleanText(
+      Array.from(details.childNodes)
+        .filter(node => node !== summary)
+        .map(node => node.textContent)
+        .join(' ')
+    );
+    if (question && answer) faqs.push({ question, answer });
+  });
+
+  // Headings phrased as questions followed by an answer paragraph
+  if (faqs.length === 0) {
+    doc.querySelectorAll('h2, h3, h4, dt').forEach(heading => {
+      const question = cleanText(heading.textContent);
+      if (!question || !question.endsWith('?')) return;
+      const answer = cleanText(heading.nextElementSibling?.textContent);
+      if (answer) faqs.push({ question, answer });
+    });
+  }
+
+  return faqs;
+};
+
+const extractReviews = (doc: Document): NonNullable<ScrapedWebsiteData['reviews']> => {
+  const reviews: NonNullable<ScrapedWebsiteData['reviews']> = [];
+
+  doc.querySelectorAll('[class*="review" i]').forEach(element => {
+    // Skip wrappers that contain other review elements
+    if (element.querySelector('[class*="review" i]')) return;
+
+    const ratingSource = element.querySelector('[data-rating], [aria-label*="out of" i]');
+    const ratingText = ratingSource?.getAttribute('data-rating') || ratingSource?.getAttribute('aria-label') || '';
+    const rating = parseFloat(ratingText);
+    const reviewBody = cleanText(element.querySelector('p, [class*="body" i], [class*="text" i]')?.textContent);
+    if (!ratingSource || Number.isNaN(rating) || !reviewBody) return;
+
+    reviews.push({
+      author: cleanText(element.querySelector('[class*="author" i], [class*="name" i]')?.textContent) || 'Anonymous',
+      rating,
+      reviewBody,
+      datePublished: element.querySelector('time[datetime]')?.getAttribute('datetime') || undefined
+    });
+  });
+
+  return reviews;
+};
+
+const extractProducts = (doc: Document, title: string | undefined, description: string | undefined): NonNullable<ScrapedWebsiteData['products']> => {
+  const ogType = getMetaContent(doc, 'og:type');
+  const price = getMetaContent(doc, 'product:price:amount', 'og:price:amount', 'price')
+    || cleanText(doc.querySelector('[itemprop="price"]')?.getAttribute('content'));
+
+  if (ogType?.toLowerCase() !== 'product' && !price) return [];
+
+  const name = getMetaContent(doc, 'og:title') || getTextContent(doc, 'h1') || title;
+  if (!name) return [];
+
+  return [{
+    name,
+    description,
+    price: price?.replace(/[^\d.,]/g, '') || undefined,
+    currency: getMetaContent(doc, 'product:price:currency', 'og:price:currency', 'priceCurrency'),
+    availability: getMetaContent(doc, 'product:availability', 'og:availability', 'availability'),
+    brand: getMetaContent(doc, 'product:brand', 'og:brand', 'brand')
+  }];
+};
+
+/**
+ * Extracts page metadata and content signals from a parsed document
+ */
+export const extractScrapedData = (doc: Document, url: string): ScrapedWebsiteData => {
+  const title = getMetaContent(doc, 'og:title', 'twitter:title')
+    || cleanText(doc.title)
+    || getTextContent(doc, 'h1');
+  const description = getMetaContent(doc, 'description', 'og:description', 'twitter:description');
+
+  const data: ScrapedWebsiteData = {
+    url,
+    canonicalUrl: resolveUrl(doc.querySelector('link[rel~="canonical" i]')?.getAttribute('href'), url),
+    title,
+    description,
+    author: getMetaContent(doc, 'author', 'article:author', 'twitter:creator')
+      || getTextContent(doc, '[rel="author"]', '[itemprop="author"]', '[class*="author-name" i]'),
+    publishDate: getMetaContent(doc, 'article:published_time', 'datePublished', 'date')
+      || doc.querySelector('article time[datetime], time[datetime]')?.getAttribute('datetime')
+      || undefined,
+    modifiedDate: getMetaContent(doc, 'article:modified_time', 'og:updated_time', 'dateModified'),
+    images: extractImages(doc, url),
+    socialLinks: extractSocialLinks(doc, url),
+    organization: getMetaContent(doc, 'og:site_name', 'application-name', 'publisher'),
+    breadcrumbs: extractBreadcrumbs(doc, url),
+    faqs: extractFaqs(doc),
+    reviews: extractReviews(doc),
+    products: extractProducts(doc, title, description)
+  };
+
+  devLog('Extracted page data:', data);
+  return data;
+};
+
+/**
+ * Fetches a page and extracts its metadata in one step
+ */
+export const scrapePage = async (url: string, signal?: AbortSignal): Promise<{ page: FetchedPage; document: Document; data: ScrapedWebsiteData }> => {
+  const page = await fetchPageHtml(url, signal);
+  const document = parseHtmlDocument(page.html);
+  const data = extractScrapedData(document, page.finalUrl);
+  return { page, document, data };
+};
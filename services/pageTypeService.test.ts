@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { buildPageClassification, classifyPage, guessPageTypesFromUrl } from './pageTypeService';
+
+const parse = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+
+describe('classifyPage', () => {
+  it('recognises a product page from its URL, metadata and add-to-cart control', () => {
+    const doc = parse(`
+      <head><meta property="og:type" content="product"></head>
+      <body><main><h1>Widget</h1><p class="price">$19.99</p><button>Add to cart</button></main></body>`);
+    const [top] = classifyPage(doc, 'https://shop.example/products/widget');
+    expect(top.type).toBe('Product');
+    expect(top.signals.map(signal => signal.source)).toEqual(['url', 'meta', 'dom', 'dom']);
+    expect(top.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('combines weak signals into one candidate per type', () => {
+    const doc = parse(`<body><article><h1>Hello</h1><time datetime="2026-03-01">1 March</time><p class="byline">Ada</p></article></body>`);
+    const candidates = classifyPage(doc, 'https://example.com/hello');
+    expect(candidates.map(candidate => candidate.type)).toEqual(['Article']);
+    // 1 - (1 - 0.35)(1 - 0.3)(1 - 0.25)
+    expect(candidates[0].confidence).toBe(0.66);
+  });
+
+  it('uses existing markup, counting the same evidence once', () => {
+    const existing = [
+      { type: 'Recipe', schema: '{}' },
+      { type: 'Recipe', schema: '{}' }
+    ];
+    const [top] = classifyPage(parse('<body><p>Pancakes</p></body>'), 'https://example.com/pancakes', existing);
+    expect(top).toMatchObject({ type: 'Recipe', confidence: 0.8 });
+    expect(top.signals).toHaveLength(1);
+  });
+
+  it('falls back to WebPage without strong signals', () => {
+    const candidates = classifyPage(parse('<body><p>Hello</p></body>'), 'https://example.com/');
+    expect(candidates).toEqual([expect.objectContaining({ type: 'WebPage', confidence: 0.5 })]);
+  });
+
+  it('ignores og:type and markup types named after Object.prototype properties', () => {
+    const doc = parse('<head><meta property="og:type" content="constructor"></head><body></body>');
+    const candidates = classifyPage(doc, 'https://example.com/', [{ type: 'toString', schema: '{}' }]);
+    expect(candidates.map(candidate => candidate.type)).toEqual(['WebPage']);
+  });
+});
+
+describe('buildPageClassification', () => {
+  const doc = parse('<body><details><summary>Why?</summary>Because.</details><details><summary>How?</summary>Like so.</details></body>');
+
+  it('selects every candidate above the threshold', () => {
+    const classification = buildPageClassification(doc, 'https://example.com/faq');
+    expect(classification).toMatchObject({ selected: ['FAQPage'], overridden: false });
+  });
+
+  it('selects the override when one is given', () => {
+    const classification = buildPageClassification(doc, 'https://example.com/faq', [], ['Article', 'FAQPage']);
+    expect(classification).toMatchObject({ selected: ['Article', 'FAQPage'], overridden: true });
+    expect(classification.candidates[0].type).toBe('FAQPage');
+  });
+});
+
+describe('guessPageTypesFromUrl', () => {
+  it('returns every type whose path rules match', () => {
+    expect(guessPageTypesFromUrl('https://example.com/blog/2026/03/launch-event/')).toEqual(['Article']);
+    expect(guessPageTypesFromUrl('https://example.com/events/recipes/')).toEqual(['Recipe', 'Event']);
+    expect(guessPageTypesFromUrl('https://example.com/contact-us')).toEqual(['ContactPage']);
+    expect(guessPageTypesFromUrl('https://example.com/')).toEqual([]);
+  });
+});
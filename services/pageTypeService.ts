@@ -0,0 +1,244 @@
+import { SchemaObject } from '../types';
+
+// Page types the classifier can recognise, named after their schema.org types
+export type PageType = 'Article' | 'Product' | 'Recipe' | 'Event' | 'FAQPage' | 'AboutPage' | 'ContactPage' | 'WebPage';
+
+export type PageTypeSignalSource = 'url' | 'meta' | 'dom' | 'markup';
+
+export interface PageTypeSignal {
+  source: PageTypeSignalSource;
+  description: string;
+  weight: number; // 0-1, how strongly this signal alone suggests the type
+}
+
+export interface PageTypeCandidate {
+  type: PageType;
+  confidence: number; // 0-1
+  signals: PageTypeSignal[];
+}
+
+export interface PageClassification {
+  candidates: PageTypeCandidate[]; // ranked, most likely first
+  selected: PageType[]; // types the generator should produce
+  overridden: boolean; // true when `selected` was chosen by the user
+}
+
+export const PAGE_TYPE_LABELS: Record<PageType, string> = {
+  Article: 'Article',
+  Product: 'Product',
+  Recipe: 'Recipe',
+  Event: 'Event',
+  FAQPage: 'FAQ',
+  AboutPage: 'About',
+  ContactPage: 'Contact',
+  WebPage: 'Generic page'
+};
+
+// Candidates at or above this confidence are generated without an override
+export const PAGE_TYPE_CONFIDENCE_THRESHOLD = 0.5;
+
+// URL path patterns per page type; a page may match several
+export const URL_PAGE_TYPE_RULES: Partial<Record<PageType, RegExp[]>> = {
+  Article: [/\/(blog|blogs|article|articles|post|posts|news|stories|story|insights)\//i, /\/\d{4}\/\d{2}(\/\d{2})?\//],
+  Product: [/\/(product|products|shop|item|items|dp)\//i, /\/p\/[^/]+/i, /\/sku[-_]?[\w-]+/i],
+  Recipe: [/\/recipes?\//i],
+  Event: [/\/(event|events|concerts?|webinars?)\//i],
+  FAQPage: [/\/(faq|faqs|help-center)(\/|$)/i],
+  AboutPage: [/\/(about|about-us|company|team)(\/|$|\.)/i],
+  ContactPage: [/\/(contact|contact-us)(\/|$|\.)/i]
+};
+
+// schema.org types in existing markup that reveal the page type
+const MARKUP_PAGE_TYPES: Record<string, PageType> = {
+  Article: 'Article', NewsArticle: 'Article', BlogPosting: 'Article', TechArticle: 'Article', Report: 'Article',
+  Product: 'Product', ProductGroup: 'Product', IndividualProduct: 'Product', Offer: 'Product',
+  Recipe: 'Recipe',
+  Event: 'Event', MusicEvent: 'Event', BusinessEvent: 'Event', EducationEvent: 'Event', SportsEvent: 'Event',
+  FAQPage: 'FAQPage', QAPage: 'FAQPage',
+  AboutPage: 'AboutPage',
+  ContactPage: 'ContactPage'
+};
+
+const OG_PAGE_TYPES: Record<string, PageType> = {
+  article: 'Article',
+  product: 'Product',
+  'product.item': 'Product',
+  'product.group': 'Product',
+  recipe: 'Recipe',
+  event: 'Event'
+};
+
+const PRICE_PATTERN = /(?:[$€£¥]\s?\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{2})?|\d+(?:[.,]\d{2})\s?(?:USD|EUR|GBP|CAD|AUD|kr|zł))/;
+const ADD_TO_CART_PATTERN = /\b(add to (cart|bag|basket|trolley)|buy now|in den warenkorb|ajouter au panier)\b/i;
+const EVENT_TEXT_PATTERN = /\b(tickets?|venue|doors open|register now|rsvp|line-?up)\b/i;
+const RECIPE_TEXT_PATTERN = /\b(prep time|cook time|total time|servings|yield)\b/i;
+
+const getPathname = (url: string): string => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Whether a URL's path matches the rules for a page type
+ */
+export const matchesUrlPageType = (url: string, pageType: PageType): boolean => {
+  const pathname = getPathname(url);
+  return (URL_PAGE_TYPE_RULES[pageType] || []).some(pattern => pattern.test(pathname));
+};
+
+/**
+ * All page types a URL's path suggests; empty when none of the rules match
+ */
+export const guessPageTypesFromUrl = (url: string): PageType[] => {
+  return (Object.keys(URL_PAGE_TYPE_RULES) as PageType[]).filter(pageType => matchesUrlPageType(url, pageType));
+};
+
+const collectUrlSignals = (url: string, add: (type: PageType, signal: PageTypeSignal) => void): void => {
+  guessPageTypesFromUrl(url).forEach(type => {
+    add(type, { source: 'url', description: `URL path looks like a ${PAGE_TYPE_LABELS[type].toLowerCase()} page`, weight: 0.5 });
+  });
+};
+
+const collectMetaSignals = (doc: Document, add: (type: PageType, signal: PageTypeSignal) => void): void => {
+  const ogType = doc.querySelector('meta[property="og:type" i]')?.getAttribute('content')?.trim().toLowerCase();
+  if (ogType && Object.prototype.hasOwnProperty.call(OG_PAGE_TYPES, ogType)) {
+    add(OG_PAGE_TYPES[ogType], { source: 'meta', description: `og:type is "${ogType}"`, weight: 0.6 });
+  }
+
+  if (doc.querySelector('meta[property="article:published_time" i], meta[property="article:author" i]')) {
+    add('Article', { source: 'meta', description: 'article:* Open Graph metadata', weight: 0.4 });
+  }
+  if (doc.querySelector('meta[property="product:price:amount" i], meta[property="og:price:amount" i]')) {
+    add('Product', { source: 'meta', description: 'Product price metadata', weight: 0.5 });
+  }
+};
+
+const collectDomSignals = (doc: Document, add: (type: PageType, signal: PageTypeSignal) => void): void => {
+  const body = doc.body;
+  if (!body) return;
+  const mainText = (doc.querySelector('main, [role="main"]') || body).textContent || '';
+
+  // Article: a single <article> with dated content
+  const articles = doc.querySelectorAll('article');
+  if (articles.length === 1) {
+    add('Article', { source: 'dom', description: 'Page content is a single <article>', weight: 0.35 });
+    if (articles[0].querySelector('time[datetime]')) {
+      add('Article', { source: 'dom', description: 'The article has a <time datetime> publication date', weight: 0.3 });
+    }
+  }
+  if (doc.querySelector('[rel~="author" i], [class*="byline" i], [itemprop="author"]')) {
+    add('Article', { source: 'dom', description: 'Author byline', weight: 0.25 });
+  }
+
+  // Product: prices and purchase controls
+  const addToCart = Array.from(doc.querySelectorAll('button, input[type="submit"], a[role="button"]'))
+    .some(control => ADD_TO_CART_PATTERN.test(control.textContent || control.getAttribute('value') || ''));
+  if (addToCart || doc.querySelector('form[action*="cart" i], [name="add-to-cart"], [class*="add-to-cart" i]')) {
+    add('Product', { source: 'dom', description: 'Add-to-cart control', weight: 0.6 });
+  }
+  if (PRICE_PATTERN.test(mainText) || doc.querySelector('[itemprop="price"], [class*="price" i]')) {
+    add('Product', { source: 'dom', description: 'Price shown on the page', weight: 0.3 });
+  }
+
+  // Recipe: ingredient lists and cooking times
+  const ingredients = doc.querySelector('[class*="ingredient" i], [id*="ingredient" i]');
+  if (ingredients && ingredients.querySelectorAll('li').length >= 2) {
+    add('Recipe', { source: 'dom', description: 'Ingredient list', weight: 0.6 });
+  }
+  if (RECIPE_TEXT_PATTERN.test(mainText)) {
+    add('Recipe', { source: 'dom', description: 'Preparation time or servings', weight: 0.3 });
+  }
+
+  // Event: dates together with ticket or venue wording
+  if (doc.querySelector('time[datetime]') && EVENT_TEXT_PATTERN.test(mainText)) {
+    add('Event', { source: 'dom', description: 'Dates together with ticket or venue details', weight: 0.45 });
+  }
+
+  // FAQ: several question/answer pairs
+  const detailsCount = doc.querySelectorAll('details > summary').length;
+  const questionHeadings = Array.from(doc.querySelectorAll('h2, h3, h4, dt'))
+    .filter(heading => (heading.textContent || '').trim().endsWith('?')).length;
+  if (detailsCount >= 2 || questionHeadings >= 2) {
+    add('FAQPage', {
+      source: 'dom',
+      description: `${Math.max(detailsCount, questionHeadings)} question and answer blocks`,
+      weight: Math.max(detailsCount, questionHeadings) >= 3 ? 0.55 : 0.4
+    });
+  }
+
+  // Contact: a form with an email and a message field
+  if (doc.querySelector('form textarea') && doc.querySelector('form input[type="email"]')) {
+    add('ContactPage', { source: 'dom', description: 'Contact form', weight: 0.35 });
+  }
+};
+
+const collectMarkupSignals = (existingSchemas: SchemaObject[], add: (type: PageType, signal: PageTypeSignal) => void): void => {
+  existingSchemas.forEach(schema => {
+    if (Object.prototype.hasOwnProperty.call(MARKUP_PAGE_TYPES, schema.type)) {
+      add(MARKUP_PAGE_TYPES[schema.type], { source: 'markup', description: `Existing ${schema.type} markup`, weight: 0.8 });
+    }
+  });
+};
+
+/**
+ * Scores candidate page types from URL, metadata, DOM structure and existing markup.
+ * Each signal carries a weight and signals for the same type are combined as independent
+ * evidence (1 - Π(1 - weight)), so several weak hints add up without exceeding 1.
+ */
+export const classifyPage = (doc: Document, url: string, existingSchemas: SchemaObject[] = []): PageTypeCandidate[] => {
+  const signalsByType = new Map<PageType, PageTypeSignal[]>();
+  const add = (type: PageType, signal: PageTypeSignal) => {
+    const signals = signalsByType.get(type) || [];
+    // The same evidence found twice (e.g. two Product blocks) counts once
+    if (!signals.some(existing => existing.description === signal.description)) {
+      signalsByType.set(type, [...signals, signal]);
+    }
+  };
+
+  collectUrlSignals(url, add);
+  collectMetaSignals(doc, add);
+  collectDomSignals(doc, add);
+  collectMarkupSignals(existingSchemas, add);
+
+  const candidates: PageTypeCandidate[] = Array.from(signalsByType.entries()).map(([type, signals]) => ({
+    type,
+    signals,
+    confidence: Math.round((1 - signals.reduce((remaining, signal) => remaining * (1 - signal.weight), 1)) * 100) / 100
+  }));
+
+  if (!candidates.some(candidate => candidate.confidence >= PAGE_TYPE_CONFIDENCE_THRESHOLD)) {
+    candidates.push({
+      type: 'WebPage',
+      confidence: 0.5,
+      signals: [{ source: 'dom', description: 'No strong signals for a more specific type', weight: 0.5 }]
+    });
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+};
+
+/**
+ * Ranks the page and picks the types to generate: every candidate above the threshold,
+ * or the user's override when one is given
+ */
+export const buildPageClassification = (
+  doc: Document,
+  url: string,
+  existingSchemas: SchemaObject[] = [],
+  override?: PageType[]
+): PageClassification => {
+  const candidates = classifyPage(doc, url, existingSchemas);
+
+  if (override && override.length > 0) {
+    return { candidates, selected: override, overridden: true };
+  }
+
+  return {
+    candidates,
+    selected: candidates.filter(candidate => candidate.confidence >= PAGE_TYPE_CONFIDENCE_THRESHOLD).map(candidate => candidate.type),
+    overridden: false
+  };
+};
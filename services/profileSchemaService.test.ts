@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { applyProfileToSchemas } from './profileSchemaService';
+import { WebsiteProfile } from './websiteProfileService';
+
+const profile: WebsiteProfile = {
+  id: 'acme',
+  name: 'Acme',
+  url: 'https://acme.com/',
+  author: { name: 'Sam Cook' },
+  organization: {
+    name: 'Acme Bistro',
+    logo: 'https://acme.com/logo.png',
+    address: { streetAddress: '1 Main St', addressLocality: 'Springfield' },
+    contactPoint: { telephone: '+1-555-0100' },
+    sameAs: ['https://www.facebook.com/acme']
+  },
+  socialProfiles: { instagram: 'https://www.instagram.com/acme' },
+  defaultImage: 'https://acme.com/default.jpg',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+};
+
+const toSchema = (schema: Record<string, unknown>) => ({ type: String(schema['@type']), schema: JSON.stringify(schema) });
+const apply = (...schemas: Record<string, unknown>[]) =>
+  applyProfileToSchemas(schemas.map(toSchema), profile).map(item => JSON.parse(item.schema));
+
+describe('applyProfileToSchemas', () => {
+  it('completes organization subtypes from the profile', () => {
+    const [restaurant] = apply({ '@context': 'https://schema.org', '@type': 'Restaurant', name: 'acme.com', servesCuisine: 'Italian' });
+    expect(restaurant).toMatchObject({
+      '@type': 'Restaurant',
+      name: 'Acme Bistro',
+      servesCuisine: 'Italian',
+      logo: { '@type': 'ImageObject', url: 'https://acme.com/logo.png' },
+      address: { '@type': 'PostalAddress', streetAddress: '1 Main St', addressLocality: 'Springfield' },
+      contactPoint: { '@type': 'ContactPoint', telephone: '+1-555-0100' },
+      sameAs: ['https://www.facebook.com/acme', 'https://www.instagram.com/acme']
+    });
+  });
+
+  it('does not add an Organization schema when an organization subtype was generated', () => {
+    expect(apply({ '@type': 'Dentist', name: 'Acme' }).map(schema => schema['@type'])).toEqual(['Dentist']);
+    expect(apply({ '@type': 'Event', name: 'Launch' }).map(schema => schema['@type'])).toEqual(['Event', 'Organization']);
+  });
+
+  it('sets publisher, author and image on article and page subtypes', () => {
+    const [posting, faqPage] = apply({ '@type': 'BlogPosting', headline: 'Hello' }, { '@type': 'FAQPage', name: 'Questions' });
+    expect(posting.publisher).toMatchObject({ '@type': 'Organization', name: 'Acme Bistro' });
+    expect(posting.author).toEqual({ '@type': 'Person', name: 'Sam Cook' });
+    expect(posting.image).toBe('https://acme.com/default.jpg');
+    expect(faqPage.publisher).toMatchObject({ name: 'Acme Bistro' });
+    expect(faqPage.author).toBeUndefined();
+  });
+
+  it('keeps a byline found on the page', () => {
+    const [article] = apply({ '@type': 'NewsArticle', headline: 'Hello', author: { '@type': 'Person', name: 'Ada' } });
+    expect(article.author).toEqual({ '@type': 'Person', name: 'Ada' });
+  });
+});
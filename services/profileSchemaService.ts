@@ -0,0 +1,147 @@
+import { WebsiteProfile } from './websiteProfileService';
+import { hasType } from './jsonLdNodes';
+import { isSubtypeOf } from './schemaVocabulary';
+
+type JsonLdNode = Record<string, unknown>;
+
+// The type lists below also match their subtypes (NewsArticle, FAQPage, Restaurant...)
+
+// Types whose publisher is the site's organization and whose author defaults to the profile author
+const ARTICLE_TYPES = ['Article'];
+
+// Types that take the site's organization as publisher
+const PUBLISHED_TYPES = [...ARTICLE_TYPES, 'WebSite', 'WebPage', 'Recipe', 'HowTo', 'VideoObject'];
+
+// Types that describe the organization itself and are completed from the profile
+const ORGANIZATION_TYPES = ['Organization'];
+
+// Types that show the profile's default image when they have none
+const IMAGE_TYPES = [...ARTICLE_TYPES, 'Product', 'Recipe', 'Event'];
+
+/**
+ * Drops undefined, empty-string, empty-array and empty-object values
+ */
+const compact = (node: JsonLdNode): JsonLdNode => {
+  return Object.fromEntries(Object.entries(node).filter(([, value]) => {
+    if (value === undefined || value === null || value === '') return false;
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'object') return Object.keys(value as JsonLdNode).some(key => key !== '@type');
+    return true;
+  }));
+};
+
+/**
+ * The organization's sameAs links plus the profile's social profiles, without duplicates
+ */
+export const getProfileSameAs = (profile: WebsiteProfile): string[] => {
+  const links = [
+    ...(profile.organization?.sameAs || []),
+    ...Object.values(profile.socialProfiles || {})
+  ];
+  return Array.from(new Set(links.map(link => link?.trim()).filter((link): link is string => !!link)));
+};
+
+/**
+ * Organization node built from the profile, or null when the profile has no organization name
+ */
+export const buildOrganizationNode = (profile: WebsiteProfile): JsonLdNode | null => {
+  const organization = profile.organization;
+  const name = organization?.name || profile.name;
+  if (!name) return null;
+
+  return compact({
+    '@type': 'Organization',
+    name,
+    url: organization?.url || profile.url,
+    description: organization?.description,
+    logo: organization?.logo ? { '@type': 'ImageObject', url: organization.logo } : undefined,
+    address: organization?.address ? compact({ '@type': 'PostalAddress', ...organization.address }) : undefined,
+    contactPoint: organization?.contactPoint
+      ? compact({ '@type': 'ContactPoint', ...organization.contactPoint })
+      : undefined,
+    sameAs: getProfileSameAs(profile)
+  });
+};
+
+/**
+ * Person node for the profile's default author, or null when none is set
+ */
+export const buildAuthorNode = (profile: WebsiteProfile): JsonLdNode | null => {
+  const author = profile.author;
+  if (!author?.name) return null;
+
+  return compact({
+    '@type': 'Person',
+    name: author.name,
+    url: author.url,
+    image: author.image,
+    jobTitle: author.jobTitle
+  });
+};
+
+const isHostnamePlaceholder = (name: unknown, profileUrl: string): boolean => {
+  if (typeof name !== 'string') return false;
+  try {
+    return name.replace(/^www\./, '') === new URL(profileUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return false;
+  }
+};
+
+const applyProfileToNode = (node: JsonLdNode, profile: WebsiteProfile, organization: JsonLdNode | null, author: JsonLdNode | null): JsonLdNode => {
+  const result: JsonLdNode = { ...node };
+
+  if (organization && hasType(node, ORGANIZATION_TYPES)) {
+    // The profile is the maintained source of truth for the organization; page-derived values fill the gaps
+    const { '@type': _type, ...profileValues } = organization;
+    Object.assign(result, profileValues);
+  }
+
+  if (organization && hasType(node, PUBLISHED_TYPES)) {
+    result.publisher = organization;
+  }
+
+  // The heuristic generator names the WebSite after the hostname when the page has no og:site_name
+  if (organization && hasType(node, ['WebSite']) && (!result.name || isHostnamePlaceholder(result.name, profile.url))) {
+    result.name = organization.name;
+  }
+
+  // A byline found on the page is more specific than the profile's default author
+  if (author && !result.author && hasType(node, ARTICLE_TYPES)) {
+    result.author = author;
+  }
+
+  if (profile.defaultImage && !result.image && hasType(node, IMAGE_TYPES)) {
+    result.image = profile.defaultImage;
+  }
+
+  return result;
+};
+
+/**
+ * Fills publisher, author, logo, sameAs, address and contactPoint in generated schemas from a
+ * website profile, replacing hostname-derived placeholders. Adds an Organization schema when the
+ * profile describes one and none was generated.
+ */
+export const applyProfileToSchemas = <T extends { type: string; schema: string }>(schemas: T[], profile: WebsiteProfile): T[] => {
+  const organization = buildOrganizationNode(profile);
+  const author = buildAuthorNode(profile);
+
+  const updated = schemas.map(item => {
+    try {
+      const node = JSON.parse(item.schema) as JsonLdNode;
+      if (!node || typeof node !== 'object' || Array.isArray(node)) return item;
+      return { ...item, schema: JSON.stringify(applyProfileToNode(node, profile, organization, author), null, 2) };
+    } catch {
+      return item;
+    }
+  });
+
+  const hasOrganization = updated.some(item => isSubtypeOf(item.type, 'Organization'));
+  if (organization && profile.organization?.name && !hasOrganization) {
+    const organizationSchema = { '@context': 'https://schema.org', ...organization };
+    updated.push({ ...updated[0], type: 'Organization', schema: JSON.stringify(organizationSchema, null, 2) } as T);
+  }
+
+  return updated;
+};
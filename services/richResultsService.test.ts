@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRichResults } from './richResultsService';
+
+const evaluate = (node: Record<string, unknown>, entities = new Map<string, Record<string, unknown>>()) =>
+  evaluateRichResults([{ node, path: '' }], entities);
+
+describe('evaluateRichResults', () => {
+  it('marks a complete product eligible', () => {
+    const [product] = evaluate({
+      '@type': 'Product',
+      name: 'Widget',
+      image: 'https://example.com/widget.jpg',
+      description: 'A widget',
+      aggregateRating: { '@type': 'AggregateRating', ratingValue: 4.5, reviewCount: 12 },
+      review: { '@type': 'Review', author: { '@type': 'Person', name: 'Ada' }, reviewRating: { '@type': 'Rating', ratingValue: 5, bestRating: 5 }, datePublished: '2026-03-01' },
+      offers: { '@type': 'Offer', price: '19.99', priceCurrency: 'USD' }
+    }).filter(result => result.feature === 'product');
+    expect(product).toMatchObject({ status: 'eligible', missingRequired: [], missingRecommended: [] });
+  });
+
+  it('lists missing required and recommended properties', () => {
+    const [product] = evaluate({ '@type': 'Product', name: 'Widget', offers: [{ '@type': 'Offer', priceCurrency: 'USD' }] });
+    expect(product.status).toBe('not-eligible');
+    expect(product.missingRequired).toEqual(['offers.price or lowPrice or priceSpecification.price']);
+    expect(product.missingRecommended).toEqual(['image', 'description', 'aggregateRating', 'review']);
+
+    const [article] = evaluate({ '@type': 'NewsArticle', headline: 'Hello', image: 'https://example.com/a.jpg', datePublished: '2026-03-01', dateModified: '2026-03-02', author: { '@type': 'Person', name: 'Ada' } });
+    expect(article).toMatchObject({ feature: 'article', status: 'eligible-with-warnings', missingRecommended: ['author.url'] });
+  });
+
+  it('applies features to subtypes and follows @id references', () => {
+    const entities = new Map([['#address', { '@type': 'PostalAddress', streetAddress: '1 Main St', addressLocality: 'Springfield' }]]);
+    const [business] = evaluate({ '@type': 'Restaurant', name: 'Acme', address: { '@id': '#address' } }, entities);
+    expect(business.feature).toBe('localBusiness');
+    expect(business.missingRequired).toEqual([]);
+    expect(business.missingRecommended).not.toContain('address.streetAddress');
+  });
+
+  it('accepts a virtual event location with a url', () => {
+    const event = (location: unknown) => evaluate({ '@type': 'Event', name: 'Launch', startDate: '2026-05-01T18:00:00Z', location })[0];
+    expect(event({ '@type': 'VirtualLocation', url: 'https://example.com/live' }).missingRequired).toEqual([]);
+    expect(event({ '@type': 'Place', name: 'Hall' }).missingRequired).toEqual(['location.address (or a VirtualLocation with url)']);
+  });
+
+  it('checks FAQ questions and answers', () => {
+    const [faq] = evaluate({
+      '@type': 'FAQPage',
+      mainEntity: [
+        { '@type': 'Question', name: 'Why?', acceptedAnswer: { '@type': 'Answer', text: 'Because.' } },
+        { '@type': 'Question', name: 'How?' }
+      ]
+    });
+    expect(faq.missingRequired).toEqual(['mainEntity.acceptedAnswer.text']);
+  });
+
+  it('evaluates reviews nested in a reviewable item and embedded videos with their paths', () => {
+    const results = evaluate({
+      '@type': 'Recipe',
+      name: 'Pancakes',
+      image: 'https://example.com/pancakes.jpg',
+      review: [{ '@type': 'Review', author: { '@type': 'Person', name: 'Ada' }, reviewRating: { '@type': 'Rating', ratingValue: 5 } }],
+      video: { '@type': 'VideoObject', name: 'How to', uploadDate: '2026-03-01' }
+    });
+    expect(results.map(result => `${result.feature} ${result.path} ${result.status}`)).toEqual([
+      'recipe  eligible-with-warnings',
+      'reviewSnippet review[0] eligible-with-warnings',
+      'video video not-eligible'
+    ]);
+    expect(results[2].missingRequired).toEqual(['thumbnailUrl']);
+  });
+
+  it('requires itemReviewed on a top-level review', () => {
+    const [review] = evaluate({ '@type': 'Review', author: { '@type': 'Person', name: 'Ada' }, reviewRating: { '@type': 'Rating', ratingValue: 5 } });
+    expect(review.missingRequired).toEqual(['itemReviewed']);
+  });
+});
@@ -0,0 +1,291 @@
+import { JsonLdNode, getTypes, hasType, isPlainObject } from './jsonLdNodes';
+
+// Google Search features that structured data can unlock
+export type RichResultFeature = 'product' | 'article' | 'recipe' | 'event' | 'faq' | 'breadcrumb' | 'localBusiness' | 'jobPosting' | 'video' | 'reviewSnippet';
+
+export type RichResultStatus = 'eligible' | 'eligible-with-warnings' | 'not-eligible';
+
+export interface RichResultEligibility {
+  feature: RichResultFeature;
+  label: string;
+  status: RichResultStatus;
+  path: string; // JSON path of the entity the feature was found on ('' for the document itself)
+  missingRequired: string[]; // unmet requirements; any of these makes the entity ineligible
+  missingRecommended: string[];
+}
+
+export const RICH_RESULT_LABELS: Record<RichResultFeature, string> = {
+  product: 'Product snippet',
+  article: 'Article',
+  recipe: 'Recipe',
+  event: 'Event',
+  faq: 'FAQ',
+  breadcrumb: 'Breadcrumb',
+  localBusiness: 'Local business',
+  jobPosting: 'Job posting',
+  video: 'Video',
+  reviewSnippet: 'Review snippet'
+};
+
+export const RICH_RESULT_STATUS_LABELS: Record<RichResultStatus, string> = {
+  eligible: 'Eligible',
+  'eligible-with-warnings': 'Eligible with warnings',
+  'not-eligible': 'Not eligible'
+};
+
+interface RuleContext {
+  entities: Map<string, JsonLdNode>;
+  isNested: boolean; // a review or rating inside the item it reviews
+}
+
+interface RichResultRule {
+  description: string;
+  check: (node: JsonLdNode, context: RuleContext) => boolean;
+}
+
+interface RichResultDefinition {
+  feature: RichResultFeature;
+  types: string[]; // the feature applies to these types and their subtypes
+  required: RichResultRule[];
+  recommended: RichResultRule[];
+}
+
+// Items Google shows review snippets for
+const REVIEWABLE_TYPES = ['Book', 'Course', 'CreativeWorkSeason', 'CreativeWorkSeries', 'Episode', 'Event', 'Game', 'HowTo', 'LocalBusiness', 'MediaObject', 'Movie', 'MusicPlaylist', 'MusicRecording', 'Organization', 'Product', 'Recipe', 'SoftwareApplication'];
+
+const isPresent = (value: unknown): boolean => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.some(isPresent);
+  if (isPlainObject(value)) return Object.keys(value).length > 0;
+  return true;
+};
+
+const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+const resolve = (value: unknown, entities: Map<string, JsonLdNode>): unknown => (
+  isPlainObject(value) && typeof value['@id'] === 'string' && Object.keys(value).length === 1
+    ? entities.get(value['@id']) || value
+    : value
+);
+
+// Follows a dotted path through nested objects, arrays and {"@id": ...} references
+const getValues = (node: JsonLdNode, path: string, entities: Map<string, JsonLdNode>): unknown[] => {
+  return path.split('.')
+    .reduce<unknown[]>((values, key) => values
+      .filter(isPlainObject)
+      .flatMap(value => toArray(value[key]))
+      .map(value => resolve(value, entities)), [node]);
+};
+
+const has = (path: string): RichResultRule => ({
+  description: path,
+  check: (node, { entities }) => getValues(node, path, entities).some(isPresent)
+});
+
+const hasAny = (...paths: string[]): RichResultRule => ({
+  description: paths.join(' or '),
+  check: (node, { entities }) => paths.some(path => getValues(node, path, entities).some(isPresent))
+});
+
+// Passes when the property is absent; otherwise every value must have the sub-property
+const eachHas = (property: string, ...paths: string[]): RichResultRule => ({
+  description: `${property}.${paths.join(' or ')}`,
+  check: (node, { entities }) => getValues(node, property, entities)
+    .filter(isPlainObject)
+    .every(value => paths.some(path => getValues(value, path, entities).some(isPresent)))
+});
+
+const RICH_RESULT_DEFINITIONS: RichResultDefinition[] = [
+  {
+    feature: 'product',
+    types: ['Product'],
+    required: [
+      has('name'),
+      hasAny('review', 'aggregateRating', 'offers'),
+      eachHas('offers', 'price', 'lowPrice', 'priceSpecification.price')
+    ],
+    recommended: [has('image'), has('description'), has('aggregateRating'), has('review'), has('offers'), eachHas('offers', 'priceCurrency', 'priceSpecification.priceCurrency')]
+  },
+  {
+    feature: 'article',
+    types: ['Article'],
+    required: [],
+    recommended: [has('headline'), has('image'), has('datePublished'), has('dateModified'), has('author.name'), has('author.url')]
+  },
+  {
+    feature: 'recipe',
+    types: ['Recipe'],
+    required: [has('name'), has('image')],
+    recommended: [
+      has('author'), has('datePublished'), has('description'), has('recipeIngredient'), has('recipeInstructions'), has('recipeYield'),
+      has('totalTime'), has('prepTime'), has('cookTime'), has('nutrition.calories'), has('recipeCategory'), has('recipeCuisine'),
+      has('keywords'), has('aggregateRating'), has('video')
+    ]
+  },
+  {
+    feature: 'event',
+    types: ['Event'],
+    required: [
+      has('name'),
+      has('startDate'),
+      has('location'),
+      {
+        description: 'location.address (or a VirtualLocation with url)',
+        check: (node, { entities }) => getValues(node, 'location', entities).some(location => isPlainObject(location)
+          && (hasType(location, ['VirtualLocation']) ? isPresent(location.url) : isPresent(location.address)))
+      }
+    ],
+    recommended: [has('description'), has('endDate'), has('eventStatus'), has('eventAttendanceMode'), has('image'), has('offers'), has('organizer'), has('performer')]
+  },
+  {
+    feature: 'faq',
+    types: ['FAQPage'],
+    required: [
+      {
+        description: 'mainEntity with Question entities',
+        check: (node, { entities }) => {
+          const questions = getValues(node, 'mainEntity', entities).filter(isPlainObject);
+          return questions.length > 0 && questions.every(question => hasType(question, ['Question']));
+        }
+      },
+      eachHas('mainEntity', 'name'),
+      eachHas('mainEntity', 'acceptedAnswer.text')
+    ],
+    recommended: []
+  },
+  {
+    feature: 'breadcrumb',
+    types: ['BreadcrumbList'],
+    required: [
+      {
+        description: 'itemListElement with at least two ListItem entries',
+        check: (node, { entities }) => getValues(node, 'itemListElement', entities).filter(isPlainObject).length >= 2
+      },
+      eachHas('itemListElement', 'position'),
+      eachHas('itemListElement', 'name', 'item.name'),
+      {
+        description: 'itemListElement.item (on every entry but the last)',
+        check: (node, { entities }) => getValues(node, 'itemListElement', entities)
+          .filter(isPlainObject)
+          .slice(0, -1)
+          .every(item => isPresent(item.item))
+      }
+    ],
+    recommended: []
+  },
+  {
+    feature: 'localBusiness',
+    types: ['LocalBusiness'],
+    required: [has('name'), has('address')],
+    recommended: [
+      has('address.streetAddress'), has('address.addressLocality'), has('telephone'), has('url'), has('geo'),
+      has('openingHoursSpecification'), has('priceRange'), has('image'), has('aggregateRating')
+    ]
+  },
+  {
+    feature: 'jobPosting',
+    types: ['JobPosting'],
+    required: [
+      has('title'),
+      has('description'),
+      has('datePosted'),
+      has('hiringOrganization.name'),
+      hasAny('jobLocation.address', 'applicantLocationRequirements')
+    ],
+    recommended: [has('baseSalary'), has('employmentType'), has('validThrough'), has('identifier'), has('directApply')]
+  },
+  {
+    feature: 'video',
+    types: ['VideoObject'],
+    required: [has('name'), has('thumbnailUrl'), has('uploadDate')],
+    recommended: [has('description'), hasAny('contentUrl', 'embedUrl'), has('duration')]
+  },
+  {
+    feature: 'reviewSnippet',
+    types: ['Review'],
+    required: [
+      has('author.name'),
+      has('reviewRating.ratingValue'),
+      {
+        description: 'itemReviewed',
+        check: (node, context) => context.isNested || getValues(node, 'itemReviewed', context.entities).some(isPresent)
+      }
+    ],
+    recommended: [has('datePublished'), has('reviewRating.bestRating')]
+  },
+  {
+    feature: 'reviewSnippet',
+    types: ['AggregateRating'],
+    required: [
+      has('ratingValue'),
+      hasAny('ratingCount', 'reviewCount'),
+      {
+        description: 'itemReviewed',
+        check: (node, context) => context.isNested || getValues(node, 'itemReviewed', context.entities).some(isPresent)
+      }
+    ],
+    recommended: [has('bestRating'), has('worstRating')]
+  }
+];
+
+// Features that also count when the entity is nested inside another one
+const REVIEW_DEFINITIONS = RICH_RESULT_DEFINITIONS.filter(definition => definition.feature === 'reviewSnippet');
+const VIDEO_DEFINITIONS = RICH_RESULT_DEFINITIONS.filter(definition => definition.feature === 'video');
+
+const evaluateNode = (
+  node: JsonLdNode,
+  path: string,
+  definitions: RichResultDefinition[],
+  context: RuleContext
+): RichResultEligibility[] => {
+  return definitions
+    .filter(definition => hasType(node, definition.types))
+    .map(definition => {
+      const missingRequired = definition.required.filter(rule => !rule.check(node, context)).map(rule => rule.description);
+      const missingRecommended = definition.recommended.filter(rule => !rule.check(node, context)).map(rule => rule.description);
+      return {
+        feature: definition.feature,
+        label: RICH_RESULT_LABELS[definition.feature],
+        status: missingRequired.length > 0 ? 'not-eligible' : missingRecommended.length > 0 ? 'eligible-with-warnings' : 'eligible',
+        path,
+        missingRequired,
+        missingRecommended
+      };
+    });
+};
+
+/**
+ * Which Google rich results the document's entities qualify for. Each top-level entity is checked
+ * against the features its type supports; reviews and ratings nested in a reviewable item and videos
+ * embedded in a page count as well. Validity as schema.org is checked separately.
+ */
+export const evaluateRichResults = (
+  roots: { node: JsonLdNode; path: string }[],
+  entities: Map<string, JsonLdNode>
+): RichResultEligibility[] => {
+  const joinPath = (base: string, key: string) => (base ? `${base}.${key}` : key);
+
+  return roots.flatMap(({ node, path }) => {
+    const results = evaluateNode(node, path, RICH_RESULT_DEFINITIONS, { entities, isNested: false });
+
+    if (hasType(node, REVIEWABLE_TYPES)) {
+      ['review', 'aggregateRating'].forEach(property => {
+        const values = node[property];
+        toArray(values).forEach((value, index) => {
+          if (!isPlainObject(value)) return;
+          const itemPath = joinPath(path, Array.isArray(values) ? `${property}[${index}]` : property);
+          results.push(...evaluateNode(value, itemPath, REVIEW_DEFINITIONS, { entities, isNested: true }));
+        });
+      });
+    }
+
+    toArray(node.video).forEach((value, index) => {
+      if (!isPlainObject(value)) return;
+      const itemPath = joinPath(path, Array.isArray(node.video) ? `video[${index}]` : 'video');
+      results.push(...evaluateNode(value, itemPath, VIDEO_DEFINITIONS, { entities, isNested: true }));
+    });
+
+    return results;
+  });
+};
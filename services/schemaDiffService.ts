@@ -0,0 +1,146 @@
+import { SchemaObject } from '../types';
+import { SchemaValidationService } from './schemaValidationService';
+import { ValidationRuleSet } from './validationRules';
+
+export type PropertyChangeKind = 'added' | 'removed' | 'changed';
+
+export interface PropertyChange {
+  kind: PropertyChangeKind;
+  path: string; // e.g. "offers.price" or "image[0]"
+  existingValue?: unknown;
+  generatedValue?: unknown;
+}
+
+export interface SchemaDiff {
+  type: string;
+  existing?: SchemaObject;
+  generated?: SchemaObject;
+  changes: PropertyChange[];
+  unchangedCount: number;
+  existingScore?: number;
+  generatedScore?: number;
+  scoreDelta?: number; // generatedScore - existingScore, when both sides exist
+}
+
+// Properties that carry no content worth comparing
+const IGNORED_PROPERTIES = new Set(['@context']);
+
+export class SchemaDiffService {
+  /**
+   * Pairs existing and generated schemas by @type and diffs each pair at property level
+   */
+  static diffSchemas(schemas: SchemaObject[], ruleSet?: ValidationRuleSet): SchemaDiff[] {
+    const existingByType = this.groupByType(schemas.filter(s => s.source === 'existing'));
+    const generatedByType = this.groupByType(schemas.filter(s => s.source !== 'existing' && s.source !== 'imported'));
+    const types = Array.from(new Set([...existingByType.keys(), ...generatedByType.keys()]));
+    // Each side is scored as a page of its own, so references between its schemas resolve
+    const pageEntities = {
+      existing: SchemaValidationService.collectPageEntities(schemas.filter(s => s.source === 'existing')),
+      generated: SchemaValidationService.collectPageEntities(schemas.filter(s => s.source !== 'existing' && s.source !== 'imported'))
+    };
+
+    return types.flatMap(type => {
+      const existing = existingByType.get(type) || [];
+      const generated = generatedByType.get(type) || [];
+      const pairCount = Math.max(existing.length, generated.length);
+
+      return Array.from({ length: pairCount }, (_, index) => this.diffPair(type, existing[index], generated[index], ruleSet, pageEntities));
+    });
+  }
+
+  /**
+   * Diffs one existing/generated pair; either side may be missing
+   */
+  static diffPair(
+    type: string,
+    existing?: SchemaObject,
+    generated?: SchemaObject,
+    ruleSet?: ValidationRuleSet,
+    pageEntities: { existing?: Map<string, any>; generated?: Map<string, any> } = {}
+  ): SchemaDiff {
+    const existingValues = this.flatten(this.parse(existing));
+    const generatedValues = this.flatten(this.parse(generated));
+    const changes: PropertyChange[] = [];
+    let unchangedCount = 0;
+
+    const paths = Array.from(new Set([...existingValues.keys(), ...generatedValues.keys()])).sort();
+    paths.forEach(path => {
+      const inExisting = existingValues.has(path);
+      const inGenerated = generatedValues.has(path);
+      const existingValue = existingValues.get(path);
+      const generatedValue = generatedValues.get(path);
+
+      if (inExisting && !inGenerated) {
+        changes.push({ kind: 'removed', path, existingValue });
+      } else if (!inExisting && inGenerated) {
+        changes.push({ kind: 'added', path, generatedValue });
+      } else if (existingValue !== generatedValue) {
+        changes.push({ kind: 'changed', path, existingValue, generatedValue });
+      } else {
+        unchangedCount++;
+      }
+    });
+
+    const existingScore = existing ? SchemaValidationService.validateSchema(existing, ruleSet, pageEntities.existing).score : undefined;
+    const generatedScore = generated ? SchemaValidationService.validateSchema(generated, ruleSet, pageEntities.generated).score : undefined;
+
+    return {
+      type,
+      existing,
+      generated,
+      changes,
+      unchangedCount,
+      existingScore,
+      generatedScore,
+      scoreDelta: existingScore !== undefined && generatedScore !== undefined ? generatedScore - existingScore : undefined
+    };
+  }
+
+  /**
+   * Summarizes a change as a client-facing sentence
+   */
+  static describeChange(type: string, change: PropertyChange): string {
+    switch (change.kind) {
+      case 'added':
+        return `Your ${type} lacks ${change.path}; the generated schema adds it`;
+      case 'removed':
+        return `Your ${type} has ${change.path}, which the generated schema does not include`;
+      case 'changed':
+        return `Your ${type} has a different value for ${change.path}`;
+    }
+  }
+
+  private static groupByType(schemas: SchemaObject[]): Map<string, SchemaObject[]> {
+    const groups = new Map<string, SchemaObject[]>();
+    schemas.forEach(schema => {
+      groups.set(schema.type, [...(groups.get(schema.type) || []), schema]);
+    });
+    return groups;
+  }
+
+  private static parse(schema?: SchemaObject): unknown {
+    if (!schema) return undefined;
+    try {
+      return JSON.parse(schema.schema);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Flattens a JSON value into leaf paths, e.g. { offers: { price: 1 } } -> "offers.price" => 1
+   */
+  private static flatten(value: unknown, prefix: string = '', result: Map<string, unknown> = new Map()): Map<string, unknown> {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.flatten(item, `${prefix}[${index}]`, result));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+        if (!prefix && IGNORED_PROPERTIES.has(key)) return;
+        this.flatten(child, prefix ? `${prefix}.${key}` : key, result);
+      });
+    } else if (prefix) {
+      result.set(prefix, value);
+    }
+    return result;
+  }
+}
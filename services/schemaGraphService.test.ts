@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildSchemaGraph } from './schemaGraphService';
+
+const toSchema = (schema: Record<string, unknown>) => ({ type: String(schema['@type']), schema: JSON.stringify(schema) });
+
+describe('buildSchemaGraph', () => {
+  const article = {
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    headline: 'Storm hits the coast',
+    publisher: { '@type': 'NewsMediaOrganization', name: 'Daily News', logo: 'https://news.example/logo.png' }
+  };
+  const website = { '@context': 'https://schema.org', '@type': 'WebSite', name: 'Daily News', url: 'https://news.example/' };
+
+  it('promotes a nested publisher subtype to the site organization and references it', () => {
+    const graph = buildSchemaGraph([toSchema(website), toSchema(article)], 'https://news.example/storm');
+    const organization = graph.nodes.find(node => node.type === 'NewsMediaOrganization');
+    expect(organization?.node).toMatchObject({ name: 'Daily News', logo: 'https://news.example/logo.png' });
+    expect(organization?.id).toBeTruthy();
+
+    const newsArticle = graph.nodes.find(node => node.type === 'NewsArticle');
+    expect(newsArticle?.node.publisher).toEqual({ '@id': organization?.id });
+    expect(graph.nodes.find(node => node.type === 'WebSite')?.node.publisher).toEqual({ '@id': organization?.id });
+  });
+
+  it('links a WebPage subtype to the website and main entities instead of adding a WebPage', () => {
+    const aboutPage = { '@context': 'https://schema.org', '@type': 'AboutPage', name: 'About us', url: 'https://news.example/about' };
+    const graph = buildSchemaGraph([toSchema(website), toSchema(aboutPage), toSchema(article)], 'https://news.example/about');
+
+    expect(graph.nodes.filter(node => node.type === 'WebPage')).toEqual([]);
+    const page = graph.nodes.find(node => node.type === 'AboutPage');
+    const websiteId = graph.nodes.find(node => node.type === 'WebSite')?.id;
+    expect(page?.references).toContain(websiteId);
+    expect(graph.nodes.find(node => node.type === 'NewsArticle')?.node.mainEntityOfPage).toEqual({ '@id': page?.id });
+  });
+
+  it('puts every node in one @graph document without their own @context', () => {
+    const graph = buildSchemaGraph([toSchema(website), toSchema(article)], 'https://news.example/storm');
+    expect(graph.document['@context']).toBe('https://schema.org');
+    expect(graph.document['@graph']).toHaveLength(graph.nodes.length);
+    graph.nodes.forEach(node => expect(node.node['@context']).toBeUndefined());
+  });
+});
@@ -0,0 +1,178 @@
+import { EntityIdPolicy, mintEntityId, setEntityId } from './entityIdService';
+import { JsonLdNode, getTypes, hasType, isPlainObject } from './jsonLdNodes';
+
+export interface SchemaGraphNode {
+  id: string;
+  type: string;
+  node: JsonLdNode;
+  references: string[]; // @id values this node points to
+}
+
+export interface SchemaGraph {
+  document: JsonLdNode; // { "@context": ..., "@graph": [...] }
+  nodes: SchemaGraphNode[];
+}
+
+// Matched with their subtypes (NewsMediaOrganization, Restaurant, AboutPage...)
+const ORGANIZATION_TYPES = ['Organization'];
+const WEB_PAGE_TYPES = ['WebPage'];
+
+// Properties whose Organization value is the site's organization and becomes a reference
+const ORGANIZATION_PROPERTIES = ['publisher', 'creator', 'copyrightHolder', 'provider', 'sourceOrganization'];
+
+const getOrigin = (url: string | undefined): string | undefined => {
+  if (!url) return undefined;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+};
+
+const ref = (id: string) => ({ '@id': id });
+
+/**
+ * Combines separate JSON-LD documents into a single @graph. WebSite, Organization, WebPage,
+ * BreadcrumbList and the page's main entities get @id values and point at each other through
+ * {"@id": ...} references instead of repeating nested copies (e.g. the publisher Organization).
+ */
+export const buildSchemaGraph = (
+  schemas: { type: string; schema: string }[],
+  pageUrl?: string,
+  idPolicy?: Partial<EntityIdPolicy>
+): SchemaGraph => {
+  const nodes: JsonLdNode[] = schemas.flatMap(item => {
+    try {
+      const parsed = JSON.parse(item.schema);
+      const documents = isPlainObject(parsed) && Array.isArray(parsed['@graph']) ? parsed['@graph'] : [parsed];
+      return documents.filter(isPlainObject).map(({ '@context': _context, ...node }: JsonLdNode) => node);
+    } catch {
+      return [];
+    }
+  });
+
+  const websiteNode = nodes.find(node => getTypes(node).includes('WebSite'));
+  const basePageUrl = pageUrl
+    || nodes.find(node => !getTypes(node).includes('WebSite') && typeof node.url === 'string')?.url
+    || websiteNode?.url
+    || '';
+  const origin = getOrigin(basePageUrl) || getOrigin(websiteNode?.url) || '';
+
+  // The site's organization: a top-level node, otherwise promoted from the first nested publisher
+  let organization = nodes.find(node => hasType(node, ORGANIZATION_TYPES));
+  const nestedOrganizations = nodes.flatMap(node => ORGANIZATION_PROPERTIES
+    .map(property => node[property])
+    .filter((value): value is JsonLdNode => isPlainObject(value) && hasType(value, ORGANIZATION_TYPES)));
+  if (!organization && nestedOrganizations.length > 0) {
+    organization = { ...nestedOrganizations[0] };
+    nodes.push(organization);
+  }
+  // A nested copy is the site's organization when its @id or, lacking one, its name matches
+  const isSiteOrganization = (value: JsonLdNode): boolean => {
+    if (!organization || value === organization) return false;
+    if (value['@id'] && organization['@id']) return value['@id'] === organization['@id'];
+    return !value.name || value.name === organization.name;
+  };
+  if (organization) {
+    // Nested copies only fill properties the organization node lacks
+    nestedOrganizations
+      .filter(isSiteOrganization)
+      .forEach(nested => Object.entries(nested).forEach(([key, value]) => {
+        if (organization![key] === undefined) organization![key] = value;
+      }));
+  }
+
+  const mainEntities = nodes.filter(node => !hasType(node, ORGANIZATION_TYPES) && !hasType(node, WEB_PAGE_TYPES)
+    && !getTypes(node).includes('WebSite') && !getTypes(node).includes('BreadcrumbList'));
+
+  let webPage = nodes.find(node => hasType(node, WEB_PAGE_TYPES));
+  if (!webPage && basePageUrl && (mainEntities.length > 0 || nodes.some(node => getTypes(node).includes('BreadcrumbList')))) {
+    const title = mainEntities.map(node => node.headline || node.name).find(value => typeof value === 'string');
+    webPage = { '@type': 'WebPage', url: basePageUrl, ...(title && { name: title }) };
+    nodes.push(webPage);
+  }
+
+  // Assign @id values, keeping any the documents already had and de-duplicating collisions
+  const usedIds = new Set<string>();
+  nodes.forEach(node => {
+    if (typeof node['@id'] === 'string') {
+      usedIds.add(node['@id']);
+      return;
+    }
+    if (!basePageUrl && !origin) return;
+    const baseId = mintEntityId(node, { pageUrl: basePageUrl || origin, policy: idPolicy });
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+    setEntityId(node, id);
+  });
+
+  const organizationId: string | undefined = organization?.['@id'];
+  const websiteId: string | undefined = websiteNode?.['@id'];
+  const webPageId: string | undefined = webPage?.['@id'];
+  const breadcrumbId: string | undefined = nodes.find(node => getTypes(node).includes('BreadcrumbList'))?.['@id'];
+
+  if (organizationId) {
+    nodes.filter(node => node !== organization).forEach(node => {
+      ORGANIZATION_PROPERTIES.forEach(property => {
+        const value = node[property];
+        if (isPlainObject(value) && hasType(value, ORGANIZATION_TYPES) && isSiteOrganization(value)) {
+          node[property] = ref(organizationId);
+        }
+      });
+    });
+  }
+
+  if (websiteNode && organizationId && !websiteNode.publisher) {
+    websiteNode.publisher = ref(organizationId);
+  }
+  if (webPage) {
+    if (websiteId && !webPage.isPartOf) webPage.isPartOf = ref(websiteId);
+    if (breadcrumbId && !webPage.breadcrumb) webPage.breadcrumb = ref(breadcrumbId);
+  }
+  if (webPageId) {
+    mainEntities.forEach(node => {
+      if (!node.mainEntityOfPage || node.mainEntityOfPage === basePageUrl) {
+        node.mainEntityOfPage = ref(webPageId);
+      }
+    });
+  }
+
+  const referencedIds = (node: JsonLdNode): string[] => {
+    const found = new Set<string>();
+    const visit = (value: unknown, isRoot: boolean) => {
+      if (Array.isArray(value)) {
+        value.forEach(item => visit(item, false));
+      } else if (isPlainObject(value)) {
+        if (!isRoot && typeof value['@id'] === 'string' && Object.keys(value).length === 1) {
+          found.add(value['@id']);
+        }
+        Object.values(value).forEach(item => visit(item, false));
+      }
+    };
+    visit(node, true);
+    return Array.from(found);
+  };
+
+  // Site-wide entities first, then the page, then what the page is about
+  const rank = (node: JsonLdNode): number => {
+    if (node === organization) return 0;
+    if (node === websiteNode) return 1;
+    if (node === webPage) return 2;
+    if (getTypes(node).includes('BreadcrumbList')) return 3;
+    return 4;
+  };
+  nodes.sort((a, b) => rank(a) - rank(b));
+
+  return {
+    document: { '@context': 'https://schema.org', '@graph': nodes },
+    nodes: nodes.map(node => ({
+      id: node['@id'] || '',
+      type: getTypes(node)[0] || 'Thing',
+      node,
+      references: referencedIds(node)
+    }))
+  };
+};
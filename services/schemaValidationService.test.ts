@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { SchemaValidationService } from './schemaValidationService';
+import { getEnumerationMembers } from './schemaVocabulary';
+
+const validate = (schema: Record<string, unknown>) =>
+  SchemaValidationService.validateSchema({ type: String(schema['@type']), schema: JSON.stringify(schema) });
+
+const issues = (schema: Record<string, unknown>) => {
+  const result = validate(schema);
+  return [...result.errors, ...result.warnings, ...result.info];
+};
+
+describe('SchemaValidationService.validateSchema', () => {
+  it('validates a complete Recipe without HowTo step, supply or tool issues', () => {
+    const result = validate({
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Simple pancakes',
+      image: 'https://example.com/images/pancakes.jpg',
+      description: 'Fluffy pancakes in twenty minutes.',
+      author: { '@type': 'Person', name: 'Sam Cook' },
+      datePublished: '2026-03-01',
+      recipeIngredient: ['200 g flour', '2 eggs', '300 ml milk'],
+      recipeInstructions: [
+        { '@type': 'HowToStep', text: 'Whisk everything into a smooth batter.' },
+        { '@type': 'HowToStep', text: 'Fry ladlefuls in a hot pan until golden.' }
+      ],
+      totalTime: 'PT20M',
+      recipeYield: '8 pancakes',
+      nutrition: { '@type': 'NutritionInformation', calories: '180 calories' },
+      aggregateRating: { '@type': 'AggregateRating', ratingValue: 4.6, ratingCount: 31 }
+    });
+
+    expect(result.errors).toEqual([]);
+    const howToIssues = [...result.warnings, ...result.info].filter(issue => /\b(step|supply|tool)\b/.test(issue.path || ''));
+    expect(howToIssues).toEqual([]);
+  });
+
+  it('requires a Recipe name and image', () => {
+    const missing = validate({ '@context': 'https://schema.org', '@type': 'Recipe', recipeIngredient: ['1 egg'] }).errors
+      .map(error => error.path);
+    expect(missing).toEqual(expect.arrayContaining(['name', 'image']));
+    expect(missing).not.toContain('step');
+  });
+
+  it('skips null and non-object list items instead of throwing', () => {
+    const howTo = issues({ '@context': 'https://schema.org', '@type': 'HowTo', name: 'Tie a knot', step: [null, 'Loop', { '@type': 'HowToStep' }] });
+    expect(howTo.filter(issue => issue.rule === 'howto-step-name').map(issue => issue.path)).toEqual(['step[2].name']);
+
+    const breadcrumbs = issues({ '@context': 'https://schema.org', '@type': 'BreadcrumbList', itemListElement: [null, 3, { '@type': 'ListItem', position: 3 }] });
+    expect(breadcrumbs.filter(issue => issue.rule === 'breadcrumb-item-name').map(issue => issue.path)).toEqual(['itemListElement[2].name']);
+  });
+
+  it('checks content quality only on text values', () => {
+    const result = validate({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: { '@value': 'Widget' },
+      description: 5,
+      brand: { '@type': 'Brand', name: 'Acme', description: { text: 'Brand story' } },
+      offers: { '@type': 'Offer', price: '$10', priceCurrency: 'USD' }
+    });
+    const rules = [...result.errors, ...result.warnings].map(issue => issue.rule);
+    expect(rules).not.toContain('validation-failed');
+    expect(rules).not.toContain('description-length');
+    expect(rules).toContain('price-format');
+  });
+
+  it('accepts valid types the bundled vocabulary lacks', () => {
+    const types = ['SpecialAnnouncement', 'PodcastEpisode', 'PodcastSeries', 'SiteNavigationElement', 'WPHeader', 'WPFooter', 'TouristTrip', 'Flight', 'Reservation'];
+    types.forEach(type => {
+      const rules = issues({ '@context': 'https://schema.org', '@type': type, name: 'Example' }).map(issue => issue.rule);
+      expect(rules, type).not.toContain('unknown-type');
+    });
+  });
+
+  it('reports a known type with the wrong capitalisation', () => {
+    const unknownType = issues({ '@context': 'https://schema.org', '@type': 'localbusiness', name: 'Acme' }).find(issue => issue.rule === 'unknown-type');
+    expect(unknownType?.suggestion).toContain('"LocalBusiness"');
+  });
+
+  it('treats Object.prototype names as unknown types', () => {
+    ['constructor', 'toString', '__proto__'].forEach(type => {
+      const rules = [...validate({ '@context': 'https://schema.org', '@type': type, name: 'Example' }).errors].map(issue => issue.rule);
+      expect(rules, type).toEqual([]);
+    });
+    expect(getEnumerationMembers('constructor')).toEqual([]);
+  });
+
+  it('still requires HowTo steps', () => {
+    expect(issues({ '@context': 'https://schema.org', '@type': 'HowTo', name: 'Tie a knot' }).map(issue => issue.path)).toContain('step');
+  });
+});
+
+describe('SchemaValidationService.validateSchemas', () => {
+  // The nodes of one @graph, extracted as separate schemas
+  const organization = {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    '@id': 'https://example.com/#organization',
+    name: 'Example',
+    url: 'https://example.com/'
+  };
+  const website = {
+    '@context': 'https://schema.org',
+    '@type': 'WebSite',
+    name: 'Example',
+    url: 'https://example.com/',
+    publisher: { '@id': 'https://example.com/#organization' },
+    about: { '@id': 'https://example.com/#missing' }
+  };
+  const toSchema = (schema: Record<string, unknown>) => ({ type: String(schema['@type']), schema: JSON.stringify(schema) });
+
+  it('resolves references to entities defined by other schemas on the page', () => {
+    const [, validated] = SchemaValidationService.validateSchemas([toSchema(organization), toSchema(website)]);
+    const references = validated.validation.warnings.filter(issue => issue.rule === 'undefined-reference').map(issue => issue.path);
+    expect(references).toEqual(['about']);
+  });
+
+  it('reports the reference when the schema is validated alone', () => {
+    const references = SchemaValidationService.validateSchema(toSchema(website)).warnings
+      .filter(issue => issue.rule === 'undefined-reference')
+      .map(issue => issue.path);
+    expect(references).toEqual(['publisher', 'about']);
+  });
+});
+
+describe('Article authors', () => {
+  const article = (author: unknown) => ({
+    type: 'Article',
+    schema: JSON.stringify({ '@context': 'https://schema.org', '@type': 'Article', headline: 'Hello', author }, null, 2)
+  });
+  const authorIssues = (result: ReturnType<typeof SchemaValidationService.validateSchema>) =>
+    [...result.warnings, ...result.info].filter(issue => issue.rule === 'author-object' || issue.rule === 'text-for-object');
+
+  it('points a plain-text author at its place with one issue and a fix', () => {
+    const issues = authorIssues(SchemaValidationService.validateSchema(article('Ada Lovelace')));
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ rule: 'author-object', path: 'author', line: 5 });
+    expect(issues[0].fix?.patch).toEqual([
+      { op: 'test', path: '/author', value: 'Ada Lovelace' },
+      { op: 'replace', path: '/author', value: { '@type': 'Person', name: 'Ada Lovelace' } }
+    ]);
+  });
+
+  it('checks each author in a list', () => {
+    const schemaObj = article(['Ada Lovelace', { '@type': 'Person', name: 'Charles Babbage' }, 'Mary Somerville']);
+    const issues = authorIssues(SchemaValidationService.validateSchema(schemaObj));
+    expect(issues.map(issue => `${issue.rule} ${issue.path}`)).toEqual(['author-object author[0]', 'author-object author[2]']);
+
+    const fixed = JSON.parse(SchemaValidationService.applyAllFixes(schemaObj).schema);
+    expect(fixed.author).toEqual([
+      { '@type': 'Person', name: 'Ada Lovelace' },
+      { '@type': 'Person', name: 'Charles Babbage' },
+      { '@type': 'Person', name: 'Mary Somerville' }
+    ]);
+  });
+});
@@ -1,8 +1,41 @@
+import {
+  findTypeSpelling,
+  getEnumerationMembers,
+  getExpectedTypes,
+  getPropertyDomains,
+  getTypeAncestors,
+  getTypeProperties,
+  isDataType,
+  isEnumeration,
+  isKnownProperty,
+  isKnownType,
+  isSubtypeOf
+} from './schemaVocabulary';
+import { evaluateRichResults, RichResultEligibility } from './richResultsService';
+import { ParsedTemporal, parseTemporal, TEMPORAL_EXAMPLES, TEMPORAL_TYPES, toIsoTemporal } from './iso8601';
+import { findSourceRange, parseJsonWithPositions, SourceRange } from './jsonSourceMap';
+import { applyJsonPatch, JsonPatchOperation, toJsonPointer } from './jsonPatch';
+import { getRuleSetting, resolveRuleSet, ValidationRuleId, ValidationRuleSet } from './validationRules';
+
 export interface ValidationError {
   type: 'error' | 'warning' | 'info';
+  rule: ValidationRuleId;
   message: string;
   path?: string;
   suggestion?: string;
+  // Where the issue is in the schema source (1-based); for a missing property, the object it belongs in
+  line?: number;
+  column?: number;
+  endLine?: number;
+  fix?: ValidationFix;
+}
+
+// A mechanical change that resolves an issue
+export interface ValidationFix {
+  description: string;
+  // Against the whole schema document; it starts by testing the values it changes, so it fails
+  // instead of overwriting them once the schema no longer matches what was validated
+  patch: JsonPatchOperation[];
 }
 
 export interface ValidationResult {
@@ -11,6 +44,7 @@ export interface ValidationResult {
   warnings: ValidationError[];
   info: ValidationError[];
   score: number; // 0-100 validation score
+  richResults: RichResultEligibility[]; // Google rich result features the entities qualify for
 }
 
 export interface ValidatedSchema {
@@ -19,7 +53,7 @@ export interface ValidatedSchema {
   validation: ValidationResult;
 }
 
-// Common Schema.org types and their required properties
+// Required and recommended properties per type; subtypes use the rules of their nearest listed ancestor
 const SCHEMA_REQUIREMENTS: Record<string, { required: string[]; recommended: string[] }> = {
   'Article': {
     required: ['@context', '@type', 'headline'],
@@ -53,6 +87,11 @@ const SCHEMA_REQUIREMENTS: Record<string, { required: string[]; recommended: str
     required: ['@context', '@type', 'name', 'step'],
     recommended: ['description', 'image', 'totalTime', 'supply', 'tool']
   },
+  // A HowTo subtype, but its steps live in recipeInstructions and it has no supplies or tools
+  'Recipe': {
+    required: ['@context', '@type', 'name', 'image'],
+    recommended: ['description', 'author', 'datePublished', 'recipeIngredient', 'recipeInstructions', 'totalTime', 'recipeYield', 'nutrition', 'aggregateRating']
+  },
   'Review': {
     required: ['@context', '@type', 'reviewRating', 'author'],
     recommended: ['itemReviewed', 'reviewBody', 'datePublished']
@@ -71,8 +110,6 @@ const SCHEMA_REQUIREMENTS: Record<string, { required: string[]; recommended: str
 const VALIDATION_PATTERNS = {
   url: /^https?:\/\/.+/,
   email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-  // Strict ISO 8601 date format: YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ (with optional milliseconds and Z suffix)
-  date: /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?)?$/,
   phone: /^[\+]?[1-9][\d]{0,15}$/,
   // Image URL validation
   imageUrl: /\.(jpg|jpeg|png|gif|webp|svg)(\?.*)?$/i,
@@ -86,39 +123,86 @@ const VALIDATION_PATTERNS = {
   currency: /^[A-Z]{3}$/
 };
 
+// Google's values for JobPosting.employmentType, which schema.org leaves as free text
+const EMPLOYMENT_TYPES = ['FULL_TIME', 'PART_TIME', 'CONTRACTOR', 'TEMPORARY', 'INTERN', 'VOLUNTEER', 'PER_DIEM', 'OTHER'];
+
+// Forms an enumeration member may be written in besides its full https URL
+const SCHEMA_ORG_PREFIX = /^(https?:\/\/schema\.org\/|schema:)/;
+
 export class SchemaValidationService {
   /**
-   * Validates a single schema object
+   * Validates a single schema object. pageEntities are the entities the other schemas on the page
+   * define (see collectPageEntities), so references to them resolve.
    */
-  static validateSchema(schemaObj: { type: string; schema: string }): ValidationResult {
-    const errors: ValidationError[] = [];
-    const warnings: ValidationError[] = [];
-    const info: ValidationError[] = [];
-
-    try {
-      // Parse JSON-LD
-      const parsedSchema = JSON.parse(schemaObj.schema);
-      
-      // Basic JSON-LD structure validation
-      this.validateJsonLdStructure(parsedSchema, errors, warnings);
-      
-      // Schema.org specific validation
-      this.validateSchemaOrgStructure(parsedSchema, schemaObj.type, errors, warnings, info);
-      
-      // Data type validation
-      this.validateDataTypes(parsedSchema, errors, warnings);
-      
-      // Content quality validation
-      this.validateContentQuality(parsedSchema, schemaObj.type, warnings, info);
-      
-    } catch (parseError) {
+  static validateSchema(schemaObj: { type: string; schema: string }, ruleSet?: ValidationRuleSet, pageEntities?: Map<string, any>): ValidationResult {
+    let errors: ValidationError[] = [];
+    let warnings: ValidationError[] = [];
+    let info: ValidationError[] = [];
+    let richResults: RichResultEligibility[] = [];
+
+    // Parse JSON-LD, keeping the source position of every value
+    const parsed = parseJsonWithPositions(schemaObj.schema);
+    if (parsed.error) {
+      const { line, column } = parsed.error.position;
       errors.push({
         type: 'error',
-        message: 'Invalid JSON syntax',
-        suggestion: 'Check for missing commas, brackets, or quotes'
+        rule: 'json-syntax',
+        message: `Invalid JSON syntax at line ${line}, column ${column}: ${parsed.error.message}`,
+        suggestion: 'Check for missing commas, brackets, or quotes',
+        line,
+        column,
+        endLine: line
       });
+    } else {
+      try {
+        const parsedSchema: any = parsed.value;
+
+        // Arrays and @graph containers hold several top-level entities; each is validated on its own
+        const roots = this.getRootNodes(parsedSchema);
+        if (roots.length === 0) {
+          errors.push({
+            type: 'error',
+            rule: 'no-entities',
+            message: 'No JSON-LD entities found',
+            suggestion: 'Provide an object, an array of objects or a {"@graph": [...]} container'
+          });
+        }
+        const entities = this.collectEntities(parsedSchema, new Map(pageEntities));
+        roots.forEach(root => this.validateRootNode(root.node, root.path, root.contextPath, schemaObj.type, roots.length === 1, entities, errors, warnings, info));
+
+        if (roots.length > 1 && !roots.some(root => this.getNodeTypes(root.node).some(type => type === schemaObj.type || isSubtypeOf(type, schemaObj.type)))) {
+          warnings.push({
+            type: 'warning',
+            rule: 'type-mismatch',
+            message: `Schema type mismatch: none of the ${roots.length} entities is of type "${schemaObj.type}"`,
+            suggestion: 'Ensure one of the entities has the intended @type'
+          });
+        }
+
+        // {"@id": ...} references that no entity in the document or on the page defines
+        this.validateReferences(parsedSchema, entities, warnings);
+
+        richResults = evaluateRichResults(roots, entities);
+      } catch (validationError) {
+        errors.push({
+          type: 'error',
+          rule: 'validation-failed',
+          message: 'Schema could not be fully validated',
+          suggestion: 'Check that the markup follows the usual JSON-LD structure'
+        });
+      }
+    }
+
+    // Point every issue at its place in the source, keeping only fixes that apply to the document
+    if (!parsed.error) {
+      [errors, warnings, info].forEach(issues => issues.forEach((issue, index) => {
+        issues[index] = this.checkFix(this.locateIssue(issue, parsed.ranges), parsed.value);
+      }));
     }
 
+    // The team's and profile's rule settings decide what is reported, and how severely
+    ({ errors, warnings, info } = this.applyRuleSet([...errors, ...warnings, ...info], ruleSet));
+
     // Calculate validation score
     const score = this.calculateValidationScore(errors, warnings, info);
 
@@ -127,20 +211,287 @@ export class SchemaValidationService {
       errors,
       warnings,
       info,
-      score
+      score,
+      richResults
     };
   }
 
   /**
    * Validates multiple schemas
    */
-  static validateSchemas(schemas: { type: string; schema: string }[]): ValidatedSchema[] {
+  static validateSchemas(schemas: { type: string; schema: string }[], ruleSet?: ValidationRuleSet): ValidatedSchema[] {
+    const pageEntities = this.collectPageEntities(schemas);
     return schemas.map(schema => ({
       ...schema,
-      validation: this.validateSchema(schema)
+      validation: this.validateSchema(schema, ruleSet, pageEntities)
     }));
   }
 
+  /**
+   * Entities defined by any of a page's schemas, keyed by @id. Search engines resolve references
+   * across all JSON-LD on a page, e.g. between the nodes of a @graph extracted as separate schemas.
+   */
+  static collectPageEntities(schemas: { schema: string }[]): Map<string, any> {
+    const entities = new Map<string, any>();
+    schemas.forEach(({ schema }) => {
+      try {
+        this.collectEntities(JSON.parse(schema), entities);
+      } catch {
+        // Invalid JSON is reported when the schema itself is validated
+      }
+    });
+    return entities;
+  }
+
+  /**
+   * Applies fixes to a schema in order and pretty-prints the result. Fixes that no longer match the
+   * schema (e.g. because an earlier fix already changed the same value) are skipped.
+   */
+  static applyFixes(schema: string, fixes: ValidationFix[]): { schema: string; applied: number } {
+    let document: unknown;
+    try {
+      document = JSON.parse(schema);
+    } catch {
+      return { schema, applied: 0 };
+    }
+
+    let applied = 0;
+    fixes.forEach(fix => {
+      try {
+        document = applyJsonPatch(document, fix.patch);
+        applied++;
+      } catch {
+        // Skipped; the schema has changed since the fix was made
+      }
+    });
+    return { schema: applied > 0 ? JSON.stringify(document, null, 2) : schema, applied };
+  }
+
+  /**
+   * Applies every fix validation offers. Fixing one value can make another fix stale (moving a price
+   * into an offer after cleaning it up), so the schema is re-validated and fixed again until a pass
+   * changes nothing.
+   */
+  static applyAllFixes(
+    schemaObj: { type: string; schema: string },
+    ruleSet?: ValidationRuleSet,
+    pageEntities?: Map<string, any>
+  ): { schema: string; applied: number } {
+    let schema = schemaObj.schema;
+    let applied = 0;
+    for (let pass = 0; pass < 5; pass++) {
+      const { errors, warnings, info } = this.validateSchema({ ...schemaObj, schema }, ruleSet, pageEntities);
+      const fixes = [...errors, ...warnings, ...info].flatMap(issue => (issue.fix ? [issue.fix] : []));
+      const result = this.applyFixes(schema, fixes);
+      if (result.applied === 0) break;
+      schema = result.schema;
+      applied += result.applied;
+    }
+    return { schema, applied };
+  }
+
+  /**
+   * Drops issues whose rule is turned off and gives the rest the severity their rule is set to.
+   * The team rule set (VITE_VALIDATION_RULES) applies first, then the profile's.
+   */
+  private static applyRuleSet(issues: ValidationError[], ruleSet?: ValidationRuleSet): {
+    errors: ValidationError[];
+    warnings: ValidationError[];
+    info: ValidationError[];
+  } {
+    const resolved = resolveRuleSet(ruleSet);
+    const reported = issues.flatMap(issue => {
+      const setting = getRuleSetting(issue.rule, resolved);
+      if (setting === 'off') return [];
+      return [setting === issue.type ? issue : { ...issue, type: setting }];
+    });
+    return {
+      errors: reported.filter(issue => issue.type === 'error'),
+      warnings: reported.filter(issue => issue.type === 'warning'),
+      info: reported.filter(issue => issue.type === 'info')
+    };
+  }
+
+  /**
+   * Adds the source position of an issue's path; issues without a path point at the document
+   */
+  private static locateIssue(issue: ValidationError, ranges: Map<string, SourceRange>): ValidationError {
+    const found = findSourceRange(ranges, issue.path);
+    if (!found) return issue;
+    const { start, end } = found.range;
+    return { ...issue, line: start.line, column: start.column, endLine: found.exact ? end.line : start.line };
+  }
+
+  /**
+   * Removes a fix that does not apply to the document it was made for
+   */
+  private static checkFix(issue: ValidationError, document: unknown): ValidationError {
+    if (!issue.fix) return issue;
+    try {
+      applyJsonPatch(document, issue.fix.patch);
+      return issue;
+    } catch {
+      const { fix, ...rest } = issue;
+      return rest;
+    }
+  }
+
+  /**
+   * Points a fix made for a node at the node's place in the document. A node inheriting its
+   * container's @context gets @context fixes applied to the container's.
+   */
+  private static locateFix(fix: ValidationFix, path: string, contextPath?: string): ValidationFix {
+    const rebase = (pointer: string) => (contextPath !== undefined && /^\/@context(\/|$)/.test(pointer)
+      ? `${toJsonPointer(contextPath)}${pointer.slice('/@context'.length)}`
+      : `${toJsonPointer(path)}${pointer}`);
+    return {
+      ...fix,
+      patch: fix.patch.map(operation => ('from' in operation
+        ? { ...operation, from: rebase(operation.from), path: rebase(operation.path) }
+        : { ...operation, path: rebase(operation.path) }))
+    };
+  }
+
+  /**
+   * Replaces one value, testing that it is still the value the issue was found in
+   */
+  private static replaceFix(path: string, from: unknown, to: unknown, description = `Replace ${JSON.stringify(from)} with ${JSON.stringify(to)}`): ValidationFix {
+    const pointer = toJsonPointer(path);
+    return {
+      description,
+      patch: [{ op: 'test', path: pointer, value: from }, { op: 'replace', path: pointer, value: to }]
+    };
+  }
+
+  /**
+   * Top-level entities of a document with their JSON paths: the object itself, each element of an
+   * array, or each node of a @graph. Nodes without their own @context inherit the container's;
+   * contextPath is where the @context a node uses is written.
+   */
+  private static getRootNodes(
+    document: any,
+    path = '',
+    context?: { value: any; path: string }
+  ): { node: any; path: string; contextPath?: string }[] {
+    if (Array.isArray(document)) {
+      return document.flatMap((item, index) => this.getRootNodes(item, this.joinPath(path, `[${index}]`), context));
+    }
+    if (!document || typeof document !== 'object') return [];
+
+    const inheritedContext = document['@context'] !== undefined
+      ? { value: document['@context'], path: this.joinPath(path, '@context') }
+      : context;
+    if (Array.isArray(document['@graph'])) {
+      return this.getRootNodes(document['@graph'], this.joinPath(path, '@graph'), inheritedContext);
+    }
+    const node = inheritedContext && document['@context'] === undefined
+      ? { '@context': inheritedContext.value, ...document }
+      : document;
+    return [{ node, path, contextPath: inheritedContext?.path }];
+  }
+
+  /**
+   * Entities anywhere in the document that define an @id, keyed by that @id, added to `entities`
+   */
+  private static collectEntities(document: any, entities = new Map<string, any>()): Map<string, any> {
+    const visit = (value: any) => {
+      if (Array.isArray(value)) {
+        value.forEach(visit);
+      } else if (value && typeof value === 'object') {
+        if (typeof value['@id'] === 'string' && Object.keys(value).some(key => key !== '@id')) {
+          entities.set(value['@id'], { ...entities.get(value['@id']), ...value });
+        }
+        Object.values(value).forEach(visit);
+      }
+    };
+    visit(document);
+    return entities;
+  }
+
+  private static getNodeTypes(node: any): string[] {
+    return (Array.isArray(node['@type']) ? node['@type'] : [node['@type']])
+      .filter((type: unknown): type is string => typeof type === 'string');
+  }
+
+  /**
+   * Runs every check on one top-level entity and prefixes issue paths and fixes with its location
+   */
+  private static validateRootNode(
+    node: any,
+    path: string,
+    contextPath: string | undefined,
+    expectedType: string,
+    isOnlyRoot: boolean,
+    entities: Map<string, any>,
+    errors: ValidationError[],
+    warnings: ValidationError[],
+    info: ValidationError[]
+  ): void {
+    const nodeErrors: ValidationError[] = [];
+    const nodeWarnings: ValidationError[] = [];
+    const nodeInfo: ValidationError[] = [];
+
+    // Basic JSON-LD structure validation
+    this.validateJsonLdStructure(node, nodeErrors, nodeWarnings);
+
+    // Schema.org specific validation
+    this.validateSchemaOrgStructure(node, isOnlyRoot ? expectedType : undefined, nodeErrors, nodeWarnings, nodeInfo);
+
+    // Types, properties and value types against the bundled vocabulary
+    this.validateVocabulary(node, nodeWarnings, nodeInfo, entities);
+
+    // Data type validation
+    this.validateDataTypes(node, nodeErrors, nodeWarnings);
+    this.validateEnumerations(node, nodeWarnings, nodeInfo);
+    this.validateDates(node, nodeErrors, nodeWarnings);
+
+    // Content quality validation
+    this.validateContentQuality(node, this.getNodeTypes(node)[0] || expectedType, nodeWarnings, nodeInfo);
+
+    // Nested entities (publisher, author, offers, address...), reported with their full JSON path
+    this.validateNestedNodes(node, '', entities, nodeErrors, nodeWarnings, nodeInfo);
+
+    // A plain-text author already has an author-object warning with a fix; the generic hint would repeat it
+    const authorPaths = new Set(nodeWarnings.filter(issue => issue.rule === 'author-object').map(issue => issue.path));
+    const hints = nodeInfo.filter(issue => issue.rule !== 'text-for-object' || !authorPaths.has(issue.path));
+
+    const locate = (issue: ValidationError): ValidationError => ({
+      ...issue,
+      path: this.joinPath(path, issue.path) || undefined,
+      fix: issue.fix && this.locateFix(issue.fix, path, contextPath)
+    });
+    errors.push(...nodeErrors.map(locate));
+    warnings.push(...nodeWarnings.map(locate));
+    info.push(...hints.map(locate));
+  }
+
+  /**
+   * Reports {"@id": ...} references to entities neither the document nor the rest of the page defines
+   */
+  private static validateReferences(document: any, entities: Map<string, any>, warnings: ValidationError[]): void {
+    const visit = (value: any, path: string) => {
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, this.joinPath(path, `[${index}]`)));
+      } else if (value && typeof value === 'object') {
+        const isReference = typeof value['@id'] === 'string' && Object.keys(value).length === 1;
+        // schema.org IRIs ({"@id": "https://schema.org/InStock"}) name enumeration members, not entities
+        if (isReference && path && !entities.has(value['@id']) && !SCHEMA_ORG_PREFIX.test(value['@id'])) {
+          warnings.push({
+            type: 'warning',
+            rule: 'undefined-reference',
+            message: `Reference to undefined @id: ${value['@id']}`,
+            path,
+            suggestion: 'Define an entity with this @id on the page (e.g. in a @graph) or embed the entity; search engines only resolve references within the page'
+          });
+        }
+        Object.entries(value).forEach(([key, child]) => {
+          if (key === '@graph' || !key.startsWith('@')) visit(child, this.joinPath(path, key));
+        });
+      }
+    };
+    visit(document, '');
+  }
+
   /**
    * Validates basic JSON-LD structure
    */
@@ -149,21 +500,32 @@ export class SchemaValidationService {
     if (!schema['@context']) {
       errors.push({
         type: 'error',
+        rule: 'missing-context',
         message: 'Missing @context property',
-        suggestion: 'Add "@context": "https://schema.org" to your schema'
+        suggestion: 'Add "@context": "https://schema.org" to your schema',
+        fix: {
+          description: 'Add "@context": "https://schema.org"',
+          patch: [{ op: 'add', path: '/@context', value: 'https://schema.org' }]
+        }
       });
     } else if (schema['@context'] !== 'https://schema.org') {
       warnings.push({
         type: 'warning',
+        rule: 'context-value',
         message: 'Non-standard @context value',
-        suggestion: 'Consider using "https://schema.org" for better compatibility'
+        suggestion: 'Consider using "https://schema.org" for better compatibility',
+        // http:// and trailing-slash forms name the same vocabulary
+        fix: typeof schema['@context'] === 'string' && VALIDATION_PATTERNS.schemaContext.test(schema['@context'])
+          ? this.replaceFix('@context', schema['@context'], 'https://schema.org')
+          : undefined
       });
     }
 
-    // Check for @type
-    if (!schema['@type']) {
+    // Check for @type; multi-typed nodes list several
+    if (this.getNodeTypes(schema).length === 0) {
       errors.push({
         type: 'error',
+        rule: 'missing-type',
         message: 'Missing @type property',
         suggestion: 'Add "@type" property to specify the schema type'
       });
@@ -173,8 +535,9 @@ export class SchemaValidationService {
     if (!schema['@id']) {
       warnings.push({
         type: 'warning',
+        rule: 'missing-id',
         message: 'Missing @id property',
-        suggestion: 'Consider adding "@id" for better entity identification'
+        suggestion: 'Consider adding "@id" for better entity identification; generated schemas get one from the website profile\'s @id templates'
       });
     }
   }
@@ -184,31 +547,38 @@ export class SchemaValidationService {
    */
   private static validateSchemaOrgStructure(
     schema: any, 
-    expectedType: string, 
+    expectedType: string | undefined, 
     errors: ValidationError[], 
     warnings: ValidationError[], 
     info: ValidationError[]
   ): void {
-    const schemaType = schema['@type'];
+    const schemaTypes = this.getNodeTypes(schema);
     
-    // Check if @type matches expected type
-    if (schemaType && schemaType !== expectedType) {
+    // Check if @type matches expected type; a subtype (e.g. NewsArticle for Article) is a match
+    if (expectedType && schemaTypes.length > 0 && !schemaTypes.some(type => type === expectedType || isSubtypeOf(type, expectedType))) {
       warnings.push({
         type: 'warning',
-        message: `Schema type mismatch: expected "${expectedType}", got "${schemaType}"`,
+        rule: 'type-mismatch',
+        message: `Schema type mismatch: expected "${expectedType}", got "${schemaTypes.join('", "')}"`,
         suggestion: 'Ensure the @type matches the intended schema type'
       });
     }
 
-    // Get requirements for this schema type
-    const requirements = SCHEMA_REQUIREMENTS[schemaType] || SCHEMA_REQUIREMENTS[expectedType];
+    // Get requirements for this schema type; a multi-typed node must satisfy all of its types
+    const typeRequirements = schemaTypes.map(type => this.getRequirements(type)).filter(Boolean) as { required: string[]; recommended: string[] }[];
+    const fallback = typeRequirements.length === 0 && expectedType ? this.getRequirements(expectedType) : undefined;
+    const requirements = fallback ? [fallback] : typeRequirements;
     
-    if (requirements) {
+    if (requirements.length > 0) {
+      const required = Array.from(new Set(requirements.flatMap(r => r.required)));
+      const recommended = Array.from(new Set(requirements.flatMap(r => r.recommended))).filter(prop => !required.includes(prop));
+
       // Check required properties
-      requirements.required.forEach(prop => {
+      required.forEach(prop => {
         if (!schema[prop]) {
           errors.push({
             type: 'error',
+            rule: 'required-property',
             message: `Missing required property: ${prop}`,
             path: prop,
             suggestion: `Add "${prop}" property to your schema`
@@ -217,10 +587,11 @@ export class SchemaValidationService {
       });
 
       // Check recommended properties
-      requirements.recommended.forEach(prop => {
+      recommended.forEach(prop => {
         if (!schema[prop]) {
           warnings.push({
             type: 'warning',
+            rule: 'recommended-property',
             message: `Missing recommended property: ${prop}`,
             path: prop,
             suggestion: `Consider adding "${prop}" for better SEO`
@@ -230,18 +601,38 @@ export class SchemaValidationService {
     }
 
     // Special validations for specific types
-    this.validateSpecificTypes(schema, schemaType, errors, warnings, info);
+    this.validateSpecificTypes(schema, schemaTypes, errors, warnings, info);
   }
 
   /**
-   * Validates specific schema types
+   * Requirements of the type or, failing that, of its nearest ancestor that has any
+   */
+  private static getRequirements(schemaType: string): { required: string[]; recommended: string[] } | undefined {
+    if (typeof schemaType !== 'string') return undefined;
+    const type = getTypeAncestors(schemaType).find(ancestor => Object.prototype.hasOwnProperty.call(SCHEMA_REQUIREMENTS, ancestor));
+    return type ? SCHEMA_REQUIREMENTS[type] : undefined;
+  }
+
+  /**
+   * Validates specific schema types; subtypes also get the checks of their ancestors, and each check runs once
    */
   private static validateSpecificTypes(
     schema: any, 
-    schemaType: string, 
+    schemaTypes: string[], 
     errors: ValidationError[], 
     warnings: ValidationError[], 
     info: ValidationError[]
+  ): void {
+    const types = new Set(schemaTypes.flatMap(type => getTypeAncestors(type)));
+    types.forEach(type => this.validateSpecificType(schema, type, errors, warnings, info));
+  }
+
+  private static validateSpecificType(
+    schema: any,
+    schemaType: string,
+    errors: ValidationError[],
+    warnings: ValidationError[],
+    info: ValidationError[]
   ): void {
     switch (schemaType) {
       case 'Article':
@@ -279,56 +670,49 @@ export class SchemaValidationService {
    */
   private static validateArticle(schema: any, errors: ValidationError[], warnings: ValidationError[], info: ValidationError[]): void {
     // Check headline length
-    if (schema.headline && schema.headline.length > 110) {
+    if (typeof schema.headline === 'string' && schema.headline.length > 110) {
       warnings.push({
         type: 'warning',
+        rule: 'headline-length',
         message: 'Headline is too long',
         suggestion: 'Keep headlines under 110 characters for better SEO'
       });
     }
 
-    // Check author structure
-    if (schema.author) {
-      if (typeof schema.author === 'string') {
-        warnings.push({
-          type: 'warning',
-          message: 'Author should be an object with name property',
-          suggestion: 'Use {"@type": "Person", "name": "Author Name"} format'
-        });
-      }
-    }
-
-    // Check date formats
-    if (schema.datePublished && !VALIDATION_PATTERNS.date.test(schema.datePublished)) {
-      errors.push({
-        type: 'error',
-        message: 'Invalid datePublished format',
-        suggestion: 'Use strict ISO 8601 format: "YYYY-MM-DD" (e.g., "2024-01-15") or "YYYY-MM-DDTHH:mm:ssZ" (e.g., "2024-01-15T14:30:00Z"). Do not use formats like "01/15/2024" or "January 15, 2024"'
-      });
-    }
-
-    if (schema.dateModified && !VALIDATION_PATTERNS.date.test(schema.dateModified)) {
-      errors.push({
-        type: 'error',
-        message: 'Invalid dateModified format',
-        suggestion: 'Use strict ISO 8601 format: "YYYY-MM-DD" (e.g., "2024-01-15") or "YYYY-MM-DDTHH:mm:ssZ" (e.g., "2024-01-15T14:30:00Z"). Do not use formats like "01/15/2024" or "January 15, 2024"'
+    // Check author structure, of each author in a list
+    const authors: any[] = Array.isArray(schema.author) ? schema.author : [schema.author];
+    authors.forEach((author, index) => {
+      if (!author || typeof author !== 'string') return;
+      const path = Array.isArray(schema.author) ? `author[${index}]` : 'author';
+      warnings.push({
+        type: 'warning',
+        rule: 'author-object',
+        message: 'Author should be an object with name property',
+        path,
+        suggestion: 'Use {"@type": "Person", "name": "Author Name"} format',
+        fix: this.replaceFix(path, author, { '@type': 'Person', name: author }, `Make "${author}" a Person`)
       });
-    }
+    });
   }
 
   /**
    * Validates Product schema
    */
   private static validateProduct(schema: any, errors: ValidationError[], warnings: ValidationError[], info: ValidationError[]): void {
-    // Check offers
+    // Check offers, which may be a single object or an array
     if (schema.offers) {
-      if (!schema.offers.price) {
-        warnings.push({
-          type: 'warning',
-          message: 'Product offers should include price',
-          suggestion: 'Add "price" property to offers for better rich snippets'
-        });
-      }
+      const offers = Array.isArray(schema.offers) ? schema.offers : [schema.offers];
+      offers.forEach((offer: any, index: number) => {
+        if (offer && typeof offer === 'object' && !offer.price && !offer.lowPrice && !offer.priceSpecification) {
+          warnings.push({
+            type: 'warning',
+            rule: 'offer-price',
+            message: 'Product offers should include price',
+            path: Array.isArray(schema.offers) ? `offers[${index}].price` : 'offers.price',
+            suggestion: 'Add "price" property to offers for better rich snippets'
+          });
+        }
+      });
     }
 
     // Check image
@@ -336,6 +720,7 @@ export class SchemaValidationService {
       if (!VALIDATION_PATTERNS.url.test(schema.image)) {
         errors.push({
           type: 'error',
+          rule: 'url-format',
           message: 'Invalid image URL format',
           suggestion: 'Use a valid HTTP/HTTPS URL for the image'
         });
@@ -352,6 +737,7 @@ export class SchemaValidationService {
       if (!VALIDATION_PATTERNS.url.test(schema.logo)) {
         errors.push({
           type: 'error',
+          rule: 'url-format',
           message: 'Invalid logo URL format',
           suggestion: 'Use a valid HTTP/HTTPS URL for the logo'
         });
@@ -363,6 +749,7 @@ export class SchemaValidationService {
       if (schema.contactPoint.telephone && !VALIDATION_PATTERNS.phone.test(schema.contactPoint.telephone)) {
         warnings.push({
           type: 'warning',
+          rule: 'phone-format',
           message: 'Invalid phone number format',
           suggestion: 'Use international format: +1234567890'
         });
@@ -374,22 +761,34 @@ export class SchemaValidationService {
    * Validates Event schema
    */
   private static validateEvent(schema: any, errors: ValidationError[], warnings: ValidationError[], info: ValidationError[]): void {
-    // Check date formats
-    if (schema.startDate && !VALIDATION_PATTERNS.date.test(schema.startDate)) {
-      errors.push({
-        type: 'error',
-        message: 'Invalid startDate format',
-        suggestion: 'Use strict ISO 8601 format: "YYYY-MM-DD" (e.g., "2024-01-15") or "YYYY-MM-DDTHH:mm:ssZ" (e.g., "2024-01-15T14:30:00Z"). Do not use formats like "01/15/2024" or "January 15, 2024"'
-      });
-    }
+    const startDate = typeof schema.startDate === 'string' ? parseTemporal(schema.startDate, ['DateTime', 'Date']) : null;
+    const endDate = typeof schema.endDate === 'string' ? parseTemporal(schema.endDate, ['DateTime', 'Date']) : null;
 
-    if (schema.endDate && !VALIDATION_PATTERNS.date.test(schema.endDate)) {
+    if (startDate && endDate && 'timestamp' in startDate && 'timestamp' in endDate && this.isBefore(endDate, startDate)) {
       errors.push({
         type: 'error',
-        message: 'Invalid endDate format',
-        suggestion: 'Use strict ISO 8601 format: "YYYY-MM-DD" (e.g., "2024-01-15") or "YYYY-MM-DDTHH:mm:ssZ" (e.g., "2024-01-15T14:30:00Z"). Do not use formats like "01/15/2024" or "January 15, 2024"'
+        rule: 'event-date-order',
+        message: 'endDate is before startDate',
+        path: 'endDate',
+        suggestion: 'Check both dates; for a single-day event endDate may equal startDate'
       });
     }
+
+    // Without an offset, search engines guess the time zone and may show the wrong local time
+    ['startDate', 'endDate', 'doorTime'].forEach(property => {
+      const value = schema[property];
+      if (typeof value !== 'string') return;
+      const parsed = parseTemporal(value, ['DateTime', 'Time']);
+      if (parsed && 'hasTimezone' in parsed && !parsed.hasTimezone) {
+        warnings.push({
+          type: 'warning',
+          rule: 'event-timezone',
+          message: `Event ${property} has no timezone`,
+          path: property,
+          suggestion: `Add the UTC offset of the venue, e.g. "${value.trim()}+01:00", or "Z" for UTC`
+        });
+      }
+    });
   }
 
   /**
@@ -398,9 +797,12 @@ export class SchemaValidationService {
   private static validateBreadcrumbList(schema: any, errors: ValidationError[], warnings: ValidationError[], info: ValidationError[]): void {
     if (schema.itemListElement && Array.isArray(schema.itemListElement)) {
       schema.itemListElement.forEach((item: any, index: number) => {
+        // Only inline nodes have a name to check; {"@id": ...} references are validated where they point
+        if (!item || typeof item !== 'object' || Array.isArray(item) || Object.keys(item).every(key => key === '@id')) return;
         if (!item.name) {
           errors.push({
             type: 'error',
+            rule: 'breadcrumb-item-name',
             message: `Breadcrumb item ${index + 1} missing name`,
             path: `itemListElement[${index}].name`,
             suggestion: 'Add "name" property to each breadcrumb item'
@@ -414,26 +816,41 @@ export class SchemaValidationService {
    * Validates FAQPage schema
    */
   private static validateFAQPage(schema: any, errors: ValidationError[], warnings: ValidationError[], info: ValidationError[]): void {
-    if (schema.mainEntity && Array.isArray(schema.mainEntity)) {
-      schema.mainEntity.forEach((faq: any, index: number) => {
-        if (!faq.question) {
-          errors.push({
-            type: 'error',
-            message: `FAQ ${index + 1} missing question`,
-            path: `mainEntity[${index}].question`,
-            suggestion: 'Add "question" property to each FAQ item'
-          });
-        }
-        if (!faq.answer) {
-          errors.push({
-            type: 'error',
-            message: `FAQ ${index + 1} missing answer`,
-            path: `mainEntity[${index}].answer`,
-            suggestion: 'Add "answer" property to each FAQ item'
-          });
-        }
-      });
-    }
+    if (!schema.mainEntity) return;
+    const isList = Array.isArray(schema.mainEntity);
+    const questions: any[] = isList ? schema.mainEntity : [schema.mainEntity];
+    questions.forEach((faq: any, index: number) => {
+      if (!faq || typeof faq !== 'object' || (Object.keys(faq).length === 1 && faq['@id'])) return;
+      const path = isList ? `mainEntity[${index}]` : 'mainEntity';
+      if (!this.getNodeTypes(faq).includes('Question')) {
+        errors.push({
+          type: 'error',
+          rule: 'faq-question',
+          message: `FAQ ${index + 1} is not a Question`,
+          path: `${path}.@type`,
+          suggestion: 'Set "@type": "Question" on each FAQ item'
+        });
+      }
+      if (!faq.name) {
+        errors.push({
+          type: 'error',
+          rule: 'faq-question',
+          message: `FAQ ${index + 1} missing question`,
+          path: `${path}.name`,
+          suggestion: 'Put the question text in the Question\'s "name" property'
+        });
+      }
+      const answers: any[] = Array.isArray(faq.acceptedAnswer) ? faq.acceptedAnswer : [faq.acceptedAnswer];
+      if (!faq.acceptedAnswer || !answers.some(answer => answer && answer.text)) {
+        errors.push({
+          type: 'error',
+          rule: 'faq-answer',
+          message: `FAQ ${index + 1} missing answer`,
+          path: faq.acceptedAnswer ? `${path}.acceptedAnswer.text` : `${path}.acceptedAnswer`,
+          suggestion: 'Add an "acceptedAnswer" Answer with the answer in its "text" property'
+        });
+      }
+    });
   }
 
   /**
@@ -442,9 +859,11 @@ export class SchemaValidationService {
   private static validateHowTo(schema: any, errors: ValidationError[], warnings: ValidationError[], info: ValidationError[]): void {
     if (schema.step && Array.isArray(schema.step)) {
       schema.step.forEach((step: any, index: number) => {
+        if (!step || typeof step !== 'object' || Array.isArray(step) || Object.keys(step).every(key => key === '@id')) return;
         if (!step.name) {
           errors.push({
             type: 'error',
+            rule: 'howto-step-name',
             message: `HowTo step ${index + 1} missing name`,
             path: `step[${index}].name`,
             suggestion: 'Add "name" property to each step'
@@ -463,6 +882,7 @@ export class SchemaValidationService {
       if (!schema.reviewRating.ratingValue || !schema.reviewRating.bestRating) {
         errors.push({
           type: 'error',
+          rule: 'review-rating',
           message: 'Review rating missing required properties',
           suggestion: 'Add "ratingValue" and "bestRating" to reviewRating'
         });
@@ -479,6 +899,7 @@ export class SchemaValidationService {
       if (!schema.address.streetAddress || !schema.address.addressLocality) {
         warnings.push({
           type: 'warning',
+          rule: 'address-completeness',
           message: 'Address missing recommended properties',
           suggestion: 'Add "streetAddress" and "addressLocality" to address'
         });
@@ -486,6 +907,444 @@ export class SchemaValidationService {
     }
   }
 
+  /**
+   * Walks every object below a node and validates it, prefixing issue paths with its location
+   * (e.g. "offers[0].priceSpecification.price")
+   */
+  private static validateNestedNodes(
+    node: any,
+    path: string,
+    entities: Map<string, any>,
+    errors: ValidationError[],
+    warnings: ValidationError[],
+    info: ValidationError[]
+  ): void {
+    Object.entries(node).forEach(([property, value]) => {
+      if (property.startsWith('@')) return;
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((item, index) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) return;
+        // {"@id": ...} references and {"@value": ...} literals have nothing to validate
+        if ('@value' in item || Object.keys(item).every(key => key === '@id')) return;
+
+        const itemPath = this.joinPath(path, Array.isArray(value) ? `${property}[${index}]` : property);
+        this.validateNestedNode(item, itemPath, entities, errors, warnings, info);
+        this.validateNestedNodes(item, itemPath, entities, errors, warnings, info);
+      });
+    });
+  }
+
+  /**
+   * Applies the type rules, data type and content checks to a nested node. Only required properties
+   * are enforced below the top level; recommended ones would flood the results for every author or logo.
+   */
+  private static validateNestedNode(
+    node: any,
+    path: string,
+    entities: Map<string, any>,
+    errors: ValidationError[],
+    warnings: ValidationError[],
+    info: ValidationError[]
+  ): void {
+    const nodeErrors: ValidationError[] = [];
+    const nodeWarnings: ValidationError[] = [];
+    const nodeInfo: ValidationError[] = [];
+    const nodeTypes = this.getNodeTypes(node);
+
+    nodeTypes.forEach(nodeType => {
+      this.getRequirements(nodeType)?.required.filter(prop => !prop.startsWith('@')).forEach(prop => {
+        if (!node[prop]) {
+          nodeErrors.push({
+            type: 'error',
+            rule: 'required-property',
+            message: `${nodeType} is missing required property: ${prop}`,
+            path: prop,
+            suggestion: `Add "${prop}" to the ${nodeType}`
+          });
+        }
+      });
+    });
+    if (nodeTypes.length > 0) {
+      this.validateSpecificTypes(node, nodeTypes, nodeErrors, nodeWarnings, nodeInfo);
+      this.validateVocabulary(node, nodeWarnings, nodeInfo, entities);
+    }
+
+    this.validateDataTypes(node, nodeErrors, nodeWarnings);
+    this.validateEnumerations(node, nodeWarnings, nodeInfo);
+    this.validateDates(node, nodeErrors, nodeWarnings);
+    this.validateContentQuality(node, nodeTypes[0] || '', nodeWarnings, nodeInfo);
+
+    const locate = (issue: ValidationError): ValidationError => ({
+      ...issue,
+      path: this.joinPath(path, issue.path),
+      fix: issue.fix && this.locateFix(issue.fix, path)
+    });
+    errors.push(...nodeErrors.map(locate));
+    warnings.push(...nodeWarnings.map(locate));
+    info.push(...nodeInfo.map(locate));
+  }
+
+  private static joinPath(base: string, path?: string): string {
+    if (!base) return path || '';
+    if (!path) return base;
+    return path.startsWith('[') ? `${base}${path}` : `${base}.${path}`;
+  }
+
+  /**
+   * Validates @type, property names and value types against the bundled schema.org vocabulary
+   */
+  private static validateVocabulary(schema: any, warnings: ValidationError[], info: ValidationError[], entities: Map<string, any>): void {
+    const types = this.getNodeTypes(schema);
+
+    // The bundled vocabulary is a subset, so a type it lacks is only reported when it is a misspelling of one it has
+    types.forEach(type => {
+      const spelling = isKnownType(type) ? undefined : findTypeSpelling(type);
+      if (!spelling) return;
+      warnings.push({
+        type: 'warning',
+        rule: 'unknown-type',
+        message: `Unknown schema.org type: ${type}`,
+        path: '@type',
+        suggestion: `Type names are case-sensitive; use "${spelling}", search engines ignore types they do not recognise`
+      });
+    });
+
+    // Properties can only be checked when every type is known
+    if (types.length === 0 || !types.every(isKnownType)) return;
+
+    const isAction = types.some(type => isSubtypeOf(type, 'Action'));
+    const offerFix = this.getOfferFix(schema, types);
+    Object.entries(schema).forEach(([property, value]) => {
+      if (property.startsWith('@')) return;
+      // Actions annotate their inputs and outputs, e.g. "query-input": "required name=search_term_string"
+      if (isAction && /-(input|output)$/.test(property)) return;
+
+      if (!isKnownProperty(property)) {
+        warnings.push({
+          type: 'warning',
+          rule: 'unknown-property',
+          message: `Unknown property: ${property}`,
+          path: property,
+          suggestion: `"${property}" is not a schema.org property; check its spelling or remove it`
+        });
+        return;
+      }
+
+      if (!types.some(type => getTypeProperties(type).has(property))) {
+        warnings.push({
+          type: 'warning',
+          rule: 'property-domain',
+          message: `Property ${property} is not defined for ${types.join(', ')}`,
+          path: property,
+          suggestion: `"${property}" belongs to ${getPropertyDomains(property).slice(0, 3).join(', ')}; move it to a matching entity or remove it`,
+          fix: offerFix?.properties.includes(property) ? offerFix.fix : undefined
+        });
+        return;
+      }
+
+      this.validatePropertyValue(property, value, property, entities, warnings, info);
+    });
+  }
+
+  /**
+   * Offer properties written on a Product (price, priceCurrency, availability...) moved into its offer:
+   * a new single Offer when there is none, or the one offer when there is exactly one
+   */
+  private static getOfferFix(schema: any, types: string[]): { properties: string[]; fix: ValidationFix } | undefined {
+    if (!types.some(type => isSubtypeOf(type, 'Product'))) return undefined;
+    const properties = Object.keys(schema).filter(property => !property.startsWith('@')
+      && getPropertyDomains(property).includes('Offer')
+      && !types.some(type => getTypeProperties(type).has(property)));
+    if (properties.length === 0) return undefined;
+
+    const offers = schema.offers;
+    const tests: JsonPatchOperation[] = properties.map(property => ({ op: 'test', path: toJsonPointer(property), value: schema[property] }));
+
+    if (offers === undefined) {
+      const offer = { '@type': 'Offer', ...Object.fromEntries(properties.map(property => [property, schema[property]])) };
+      return {
+        properties,
+        fix: {
+          description: `Move ${properties.join(', ')} into a single Offer in "offers"`,
+          patch: [
+            ...tests,
+            { op: 'add', path: '/offers', value: offer },
+            ...properties.map((property): JsonPatchOperation => ({ op: 'remove', path: toJsonPointer(property) }))
+          ]
+        }
+      };
+    }
+
+    const single = Array.isArray(offers) ? (offers.length === 1 ? offers[0] : undefined) : offers;
+    if (!single || typeof single !== 'object' || Array.isArray(single)) return undefined;
+    // Values the offer already has are not overwritten
+    const movable = properties.filter(property => single[property] === undefined);
+    if (movable.length === 0) return undefined;
+    const offerPath = Array.isArray(offers) ? 'offers[0]' : 'offers';
+    return {
+      properties: movable,
+      fix: {
+        description: `Move ${movable.join(', ')} into the offer`,
+        patch: [
+          ...tests.filter((_, index) => movable.includes(properties[index])),
+          ...movable.map((property): JsonPatchOperation => ({
+            op: 'move',
+            from: toJsonPointer(property),
+            path: toJsonPointer(this.joinPath(offerPath, property))
+          }))
+        ]
+      }
+    };
+  }
+
+  /**
+   * Checks a property's value (or each value of an array) against the property's expected types
+   */
+  private static validatePropertyValue(
+    property: string,
+    value: any,
+    path: string,
+    entities: Map<string, any>,
+    warnings: ValidationError[],
+    info: ValidationError[]
+  ): void {
+    const expected = getExpectedTypes(property);
+    // Ranges the vocabulary knows nothing more about accept any value
+    if (expected.length === 0 || expected.some(type => !isDataType(type) && !isKnownType(type))) return;
+
+    const expectedLabel = expected.join(' or ');
+    const objectTypes = expected.filter(type => !isDataType(type));
+    const acceptsText = expected.some(type => ['Text', 'URL', 'Date', 'DateTime', 'Time', 'CssSelectorType', 'XPathType'].includes(type)
+      || isEnumeration(type) || isSubtypeOf(type, 'Quantity'));
+    const acceptsNumber = expected.some(type => ['Number', 'Float', 'Text', 'QuantitativeValue'].includes(type) || isSubtypeOf(type, 'Quantity'));
+    const acceptsInteger = acceptsNumber || expected.includes('Integer');
+
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((item, index) => {
+      const itemPath = Array.isArray(value) ? `${path}[${index}]` : path;
+      const mismatch = (actual: string) => warnings.push({
+        type: 'warning',
+        rule: 'value-type',
+        message: `Wrong value type for ${itemPath}: expected ${expectedLabel}, got ${actual}`,
+        path: itemPath,
+        suggestion: `Give "${property}" a value of type ${expectedLabel}`
+      });
+
+      if (item === null || item === undefined) return;
+
+      if (typeof item === 'string') {
+        if (acceptsText) return;
+        if (acceptsInteger && /^-?\d+(\.\d+)?$/.test(item.trim()) && (acceptsNumber || /^-?\d+$/.test(item.trim()))) return;
+        if (expected.includes('Boolean') && /^(true|false)$/i.test(item.trim())) return;
+        // A URL stands in for the entity it identifies
+        if (objectTypes.length > 0 && VALIDATION_PATTERNS.url.test(item)) return;
+        if (objectTypes.length > 0) {
+          info.push({
+            type: 'info',
+            rule: 'text-for-object',
+            message: `${itemPath} is plain text where an object of type ${objectTypes.join(' or ')} is expected`,
+            path: itemPath,
+            suggestion: `Describe it as {"@type": "${objectTypes[0]}", ...} to give search engines more detail`
+          });
+          return;
+        }
+        mismatch('text');
+      } else if (typeof item === 'number') {
+        if (acceptsNumber || (acceptsInteger && Number.isInteger(item))) return;
+        mismatch(expected.includes('Integer') ? 'a decimal number' : 'a number');
+      } else if (typeof item === 'boolean') {
+        if (!expected.includes('Boolean')) mismatch('a boolean');
+      } else if (typeof item === 'object' && !Array.isArray(item)) {
+        // JSON-LD value objects ({"@value": ...}) carry their own datatype
+        if ('@value' in item) return;
+        // A bare {"@id": ...} reference is checked as the entity it points to
+        const isReference = typeof item['@id'] === 'string' && Object.keys(item).length === 1;
+        const resolved = isReference ? entities.get(item['@id']) : item;
+        if (!resolved) return;
+        const itemTypes = this.getNodeTypes(resolved);
+        if (objectTypes.length === 0) {
+          mismatch(itemTypes.length > 0 ? `a ${itemTypes.join('/')} object` : 'an object');
+          return;
+        }
+        // Untyped objects and unknown types are reported where they are defined
+        if (itemTypes.length === 0 || !itemTypes.every(isKnownType)) return;
+        if (!itemTypes.some(type => objectTypes.some(expectedType => isSubtypeOf(type, expectedType)))) {
+          mismatch(itemTypes.join('/'));
+        }
+      }
+    });
+  }
+
+  /**
+   * Parses Date, DateTime, Time and Duration values as ISO 8601, then checks that publication
+   * dates are in order and not in the future
+   */
+  private static validateDates(schema: any, errors: ValidationError[], warnings: ValidationError[]): void {
+    const parsed = new Map<string, ParsedTemporal>();
+
+    Object.entries(schema).forEach(([property, value]) => {
+      if (property.startsWith('@')) return;
+      const expected = getExpectedTypes(property);
+      const temporalTypes = TEMPORAL_TYPES.filter(type => expected.includes(type));
+      // Properties that also take free text (e.g. temporalCoverage) have no fixed format
+      if (temporalTypes.length === 0 || expected.some(type => ['Text', 'URL'].includes(type))) return;
+
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((item, index) => {
+        if (typeof item !== 'string') return;
+        if (expected.some(type => ['Integer', 'Number'].includes(type)) && /^-?\d+(\.\d+)?$/.test(item.trim())) return;
+        const result = parseTemporal(item, temporalTypes);
+        if (!result) {
+          const itemPath = Array.isArray(value) ? `${property}[${index}]` : property;
+          const isoValue = toIsoTemporal(item, temporalTypes);
+          errors.push({
+            type: 'error',
+            rule: 'date-format',
+            message: `Invalid ${property} format: "${item}"`,
+            path: itemPath,
+            suggestion: `Use an ISO 8601 ${temporalTypes.join(' or ')} such as ${temporalTypes.map(type => TEMPORAL_EXAMPLES[type]).join(' or ')}`
+              + (temporalTypes.includes('Date') ? '. Formats like "01/15/2024" or "January 15, 2024" are not recognized' : ''),
+            fix: isoValue ? this.replaceFix(itemPath, item, isoValue) : undefined
+          });
+        } else if (!Array.isArray(value) && 'timestamp' in result) {
+          parsed.set(property, result);
+        }
+      });
+    });
+
+    const datePublished = parsed.get('datePublished');
+    const dateModified = parsed.get('dateModified');
+    if (datePublished && dateModified && this.isBefore(dateModified, datePublished)) {
+      warnings.push({
+        type: 'warning',
+        rule: 'date-modified-order',
+        message: 'dateModified is before datePublished',
+        path: 'dateModified',
+        suggestion: 'dateModified should be the same as or later than datePublished'
+      });
+    }
+
+    ['datePublished', 'dateCreated', 'dateModified', 'uploadDate', 'datePosted'].forEach(property => {
+      const date = parsed.get(property);
+      // Values without a timezone may be up to a day ahead of UTC
+      if (date && date.date && date.timestamp - (date.hasTimezone ? 0 : 86400000) > Date.now()) {
+        warnings.push({
+          type: 'warning',
+          rule: 'future-date',
+          message: `${property} is in the future`,
+          path: property,
+          suggestion: 'Use the date the content was actually published or changed'
+        });
+      }
+    });
+  }
+
+  /**
+   * A price written with a currency symbol, code or thousands separators ("$1,299.00", "19,99 €")
+   * as a plain number such as "1299.00"; null when it cannot be read unambiguously
+   */
+  private static toPlainPrice(price: string): string | null {
+    const digits = price.replace(/[^\d.,]/g, '');
+    let plain: string | null = null;
+    if (/^\d+(\.\d{1,2})?$/.test(digits)) plain = digits;
+    else if (/^\d{1,3}(,\d{3})+(\.\d{1,2})?$/.test(digits)) plain = digits.replace(/,/g, '');
+    else if (/^\d{1,3}(\.\d{3})+(,\d{1,2})?$/.test(digits) || /^\d+,\d{1,2}$/.test(digits)) plain = digits.replace(/\./g, '').replace(',', '.');
+    return plain !== null && plain !== price && VALIDATION_PATTERNS.price.test(plain) ? plain : null;
+  }
+
+  /**
+   * Whether a date or date-time is earlier than another; compared by calendar day when either has no time
+   */
+  private static isBefore(value: ParsedTemporal, other: ParsedTemporal): boolean {
+    if (value.hasTime && other.hasTime) return value.timestamp < other.timestamp;
+    return (value.date || '') < (other.date || '');
+  }
+
+  /**
+   * Checks enumeration-valued properties (availability, itemCondition, eventStatus, dayOfWeek...) against
+   * the members the vocabulary lists. Short names, http:// and https://schema.org URLs are all accepted;
+   * anything but the full https URL gets one suggestion per property to normalise it.
+   */
+  private static validateEnumerations(schema: any, warnings: ValidationError[], info: ValidationError[]): void {
+    Object.entries(schema).forEach(([property, value]) => {
+      if (property.startsWith('@') || value === null || value === undefined) return;
+      const values: any[] = Array.isArray(value) ? value : [value];
+      const itemPath = (index: number) => (Array.isArray(value) ? `${property}[${index}]` : property);
+
+      if (property === 'employmentType') {
+        values.forEach((item, index) => {
+          if (typeof item !== 'string' || EMPLOYMENT_TYPES.includes(item)) return;
+          const normalized = item.trim().toUpperCase().replace(/[\s-]+/g, '_');
+          warnings.push({
+            type: 'warning',
+            rule: 'employment-type',
+            message: `Non-standard employmentType value: "${item}"`,
+            path: itemPath(index),
+            suggestion: EMPLOYMENT_TYPES.includes(normalized)
+              ? `Use "${normalized}"`
+              : `Use one of ${EMPLOYMENT_TYPES.join(', ')}`,
+            fix: EMPLOYMENT_TYPES.includes(normalized) ? this.replaceFix(itemPath(index), item, normalized) : undefined
+          });
+        });
+        return;
+      }
+
+      const expected = getExpectedTypes(property);
+      const enumerations = expected.filter(isEnumeration);
+      const members = enumerations.flatMap(getEnumerationMembers);
+      if (members.length === 0) return;
+      // Properties that also take text or entities accept values outside the enumeration
+      const isClosed = expected.every(isEnumeration);
+
+      const shortened: string[] = [];
+      const normalizations: ValidationFix[] = [];
+      values.forEach((item, index) => {
+        // {"@id": "https://schema.org/InStock"} is the expanded JSON-LD form of the same value
+        const raw = typeof item === 'string' ? item.trim()
+          : item && typeof item === 'object' && typeof item['@id'] === 'string' ? item['@id'] : undefined;
+        if (raw === undefined) return;
+        const valuePath = typeof item === 'string' ? itemPath(index) : this.joinPath(itemPath(index), '@id');
+        const rawValue = typeof item === 'string' ? item : raw;
+
+        const name = raw.replace(SCHEMA_ORG_PREFIX, '');
+        if (members.includes(name)) {
+          if (raw !== `https://schema.org/${name}`) {
+            shortened.push(raw);
+            normalizations.push(this.replaceFix(valuePath, rawValue, `https://schema.org/${name}`));
+          }
+          return;
+        }
+        if (!isClosed) return;
+
+        const match = members.find(member => member.toLowerCase() === name.toLowerCase());
+        warnings.push({
+          type: 'warning',
+          rule: 'enumeration-value',
+          message: `Invalid ${property} value: "${raw}"`,
+          path: itemPath(index),
+          suggestion: match
+            ? `Use "https://schema.org/${match}" (enumeration values are case-sensitive)`
+            : `Use one of the ${enumerations.join(' or ')} values: ${members.join(', ')}, e.g. "https://schema.org/${members[0]}"`,
+          fix: match ? this.replaceFix(valuePath, rawValue, `https://schema.org/${match}`) : undefined
+        });
+      });
+
+      if (shortened.length > 0) {
+        info.push({
+          type: 'info',
+          rule: 'enumeration-form',
+          message: `${property} uses a shortened enumeration value: ${shortened.map(raw => `"${raw}"`).join(', ')}`,
+          path: property,
+          suggestion: `Write enumeration values as full URLs, e.g. "https://schema.org/${shortened[0].replace(SCHEMA_ORG_PREFIX, '')}"`,
+          fix: {
+            description: `Write ${property} as full https://schema.org URLs`,
+            patch: normalizations.flatMap(fix => fix.patch)
+          }
+        });
+      }
+    });
+  }
+
   /**
    * Validates data types with enhanced validation
    */
@@ -497,6 +1356,7 @@ export class SchemaValidationService {
         if (typeof schema[prop] === 'string' && !VALIDATION_PATTERNS.url.test(schema[prop])) {
           errors.push({
             type: 'error',
+            rule: 'url-format',
             message: `Invalid URL format for ${prop}`,
             path: prop,
             suggestion: 'Use a valid HTTP/HTTPS URL'
@@ -509,6 +1369,7 @@ export class SchemaValidationService {
     if (schema.email && !VALIDATION_PATTERNS.email.test(schema.email)) {
       errors.push({
         type: 'error',
+        rule: 'email-format',
         message: 'Invalid email format',
         path: 'email',
         suggestion: 'Use a valid email address format'
@@ -522,6 +1383,7 @@ export class SchemaValidationService {
         if (typeof schema[prop] === 'string' && !VALIDATION_PATTERNS.imageUrl.test(schema[prop])) {
           warnings.push({
             type: 'warning',
+            rule: 'image-extension',
             message: `Image URL may not be a valid image format for ${prop}`,
             path: prop,
             suggestion: 'Use JPG, PNG, GIF, WebP, or SVG image formats'
@@ -530,66 +1392,61 @@ export class SchemaValidationService {
       }
     });
 
-    // Price and currency validation
-    if (schema.offers && Array.isArray(schema.offers)) {
-      schema.offers.forEach((offer: any, index: number) => {
-        if (offer.price && !VALIDATION_PATTERNS.price.test(String(offer.price))) {
-          errors.push({
-            type: 'error',
-            message: `Invalid price format in offers[${index}]`,
-            path: `offers[${index}].price`,
-            suggestion: 'Use numeric format like 19.99'
-          });
-        }
-
-        if (offer.priceCurrency && !VALIDATION_PATTERNS.currency.test(offer.priceCurrency)) {
-          errors.push({
-            type: 'error',
-            message: `Invalid currency code in offers[${index}]`,
-            path: `offers[${index}].priceCurrency`,
-            suggestion: 'Use 3-letter ISO 4217 currency code like USD, EUR, GBP'
-          });
-        }
+    // Price and currency validation; offers, price specifications and monetary amounts are checked as nodes of their own
+    if (schema.price !== undefined && schema.price !== '' && !VALIDATION_PATTERNS.price.test(String(schema.price))) {
+      errors.push({
+        type: 'error',
+        rule: 'price-format',
+        message: 'Invalid price format',
+        path: 'price',
+        suggestion: 'Use numeric format like 19.99',
+        fix: typeof schema.price === 'string' && this.toPlainPrice(schema.price)
+          ? this.replaceFix('price', schema.price, this.toPlainPrice(schema.price))
+          : undefined
+      });
+    }
 
-        if (offer.availability && !['InStock', 'OutOfStock', 'PreOrder', 'SoldOut', 'Discontinued'].includes(offer.availability)) {
-          warnings.push({
-            type: 'warning',
-            message: `Non-standard availability value in offers[${index}]`,
-            path: `offers[${index}].availability`,
-            suggestion: 'Use standard Schema.org availability values'
-          });
-        }
+    if (schema.priceCurrency && !VALIDATION_PATTERNS.currency.test(schema.priceCurrency)) {
+      errors.push({
+        type: 'error',
+        rule: 'currency-code',
+        message: 'Invalid currency code',
+        path: 'priceCurrency',
+        suggestion: 'Use 3-letter ISO 4217 currency code like USD, EUR, GBP',
+        fix: typeof schema.priceCurrency === 'string' && /^\s*[a-z]{3}\s*$/i.test(schema.priceCurrency)
+          ? this.replaceFix('priceCurrency', schema.priceCurrency, schema.priceCurrency.trim().toUpperCase())
+          : undefined
       });
     }
 
     // Rating validation
-    if (schema.aggregateRating) {
-      const rating = schema.aggregateRating;
-      if (rating.ratingValue && (rating.ratingValue < 1 || rating.ratingValue > 5)) {
-        warnings.push({
-          type: 'warning',
-          message: 'Rating value outside typical 1-5 range',
-          path: 'aggregateRating.ratingValue',
-          suggestion: 'Use values between 1 and 5 for better compatibility'
-        });
-      }
+    if (schema.ratingValue && (schema.ratingValue < 1 || schema.ratingValue > 5)) {
+      warnings.push({
+        type: 'warning',
+        rule: 'rating-range',
+        message: 'Rating value outside typical 1-5 range',
+        path: 'ratingValue',
+        suggestion: 'Use values between 1 and 5 for better compatibility'
+      });
+    }
 
-      if (rating.bestRating && rating.bestRating !== 5) {
-        warnings.push({
-          type: 'warning',
-          message: 'Best rating is not 5',
-          path: 'aggregateRating.bestRating',
-          suggestion: 'Use 5 as the best rating for standard 5-star systems'
-        });
-      }
+    if (schema.bestRating && schema.bestRating !== 5) {
+      warnings.push({
+        type: 'warning',
+        rule: 'best-rating',
+        message: 'Best rating is not 5',
+        path: 'bestRating',
+        suggestion: 'Use 5 as the best rating for standard 5-star systems'
+      });
     }
 
     // Postal code validation
-    if (schema.address && schema.address.postalCode && !VALIDATION_PATTERNS.postalCode.test(schema.address.postalCode)) {
+    if (schema.postalCode && !VALIDATION_PATTERNS.postalCode.test(schema.postalCode)) {
       warnings.push({
         type: 'warning',
+        rule: 'postal-code',
         message: 'Postal code format may be invalid',
-        path: 'address.postalCode',
+        path: 'postalCode',
         suggestion: 'Check postal code format for the specific country'
       });
     }
@@ -598,6 +1455,7 @@ export class SchemaValidationService {
     if (schema['@context'] && !VALIDATION_PATTERNS.schemaContext.test(schema['@context'])) {
       warnings.push({
         type: 'warning',
+        rule: 'context-value',
         message: 'Non-standard @context value',
         path: '@context',
         suggestion: 'Use "https://schema.org" for better compatibility'
@@ -614,6 +1472,7 @@ export class SchemaValidationService {
       if (typeof schema[key] === 'string' && schema[key].trim() === '') {
         warnings.push({
           type: 'warning',
+          rule: 'empty-value',
           message: `Empty value for property: ${key}`,
           path: key,
           suggestion: 'Provide meaningful content for better SEO'
@@ -621,18 +1480,25 @@ export class SchemaValidationService {
       }
     });
 
+    // Length and wording checks only apply to text; other values are reported by the value-type checks
+    const description = typeof schema.description === 'string' ? schema.description : undefined;
+    const name = typeof schema.name === 'string' ? schema.name : undefined;
+    const headline = typeof schema.headline === 'string' ? schema.headline : undefined;
+
     // Enhanced description length validation
-    if (schema.description) {
-      const length = schema.description.length;
+    if (description) {
+      const length = description.length;
       if (length < 50) {
         warnings.push({
           type: 'warning',
+          rule: 'description-length',
           message: 'Description is too short',
           suggestion: 'Write descriptions with at least 50 characters for better SEO'
         });
       } else if (length > 160) {
         warnings.push({
           type: 'warning',
+          rule: 'description-length',
           message: 'Description is too long',
           suggestion: 'Keep descriptions under 160 characters for better display'
         });
@@ -640,27 +1506,30 @@ export class SchemaValidationService {
     }
 
     // Name length validation
-    if (schema.name && schema.name.length > 100) {
+    if (name && name.length > 100) {
       warnings.push({
         type: 'warning',
+        rule: 'name-length',
         message: 'Name is very long',
         suggestion: 'Keep names under 100 characters for better display'
       });
     }
 
     // Headline length validation for Article schemas
-    if (schemaType === 'Article' && schema.headline && schema.headline.length > 110) {
+    if (schemaType === 'Article' && headline && headline.length > 110) {
       warnings.push({
         type: 'warning',
+        rule: 'headline-length',
         message: 'Headline is too long for optimal SEO',
         suggestion: 'Keep headlines under 110 characters for better search display'
       });
     }
 
     // Check for potential duplicate content
-    if (schema.name && schema.headline && schema.name === schema.headline) {
+    if (name && headline && name === headline) {
       info.push({
         type: 'info',
+        rule: 'name-headline-identical',
         message: 'Name and headline are identical',
         suggestion: 'Consider using different values for name and headline'
       });
@@ -674,6 +1543,7 @@ export class SchemaValidationService {
         if (genericTerms.some(term => value.includes(term))) {
           warnings.push({
             type: 'warning',
+            rule: 'placeholder-content',
             message: `Generic placeholder content detected in ${key}`,
             path: key,
             suggestion: 'Replace placeholder content with actual meaningful content'
@@ -683,17 +1553,18 @@ export class SchemaValidationService {
     });
 
     // Check for very short content that might be insufficient
-    if (schema.description && schema.description.length < 20) {
+    if (description && description.length < 20) {
       warnings.push({
         type: 'warning',
+        rule: 'description-length',
         message: 'Description may be too short',
         suggestion: 'Provide more detailed description for better SEO'
       });
     }
 
     // Check for repeated words (potential keyword stuffing)
-    if (schema.description) {
-      const words = schema.description.toLowerCase().split(/\s+/);
+    if (description) {
+      const words = description.toLowerCase().split(/\s+/);
       const wordCount = words.reduce((acc: Record<string, number>, word: string) => {
         if (word.length > 3) { // Only check meaningful words
           acc[word] = (acc[word] || 0) + 1;
@@ -701,10 +1572,11 @@ export class SchemaValidationService {
         return acc;
       }, {});
 
-      const repeatedWords = Object.entries(wordCount).filter(([_, count]) => count > 3);
+      const repeatedWords = Object.entries(wordCount as Record<string, number>).filter(([_, count]) => count > 3);
       if (repeatedWords.length > 0) {
         warnings.push({
           type: 'warning',
+          rule: 'keyword-stuffing',
           message: 'Potential keyword stuffing detected',
           suggestion: 'Avoid repeating the same words too frequently in descriptions'
         });
@@ -737,6 +1609,7 @@ export class SchemaValidationService {
       if (schemaTypes.includes(type1) && schemaTypes.includes(type2)) {
         warnings.push({
           type: 'warning',
+          rule: 'schema-conflict',
           message: `Potential conflict between ${type1} and ${type2} schemas`,
           suggestion: 'These schema types may compete for rich snippet display. Consider prioritizing the most relevant one.'
         });
@@ -750,6 +1623,7 @@ export class SchemaValidationService {
     if (!hasOrganization && !hasWebSite) {
       info.push({
         type: 'info',
+        rule: 'site-identity',
         message: 'Consider adding Organization or WebSite schema',
         suggestion: 'Organization schema helps establish site identity, WebSite schema provides site-level metadata'
       });
@@ -769,6 +1643,7 @@ export class SchemaValidationService {
           if (!hasContent) {
             warnings.push({
               type: 'warning',
+              rule: 'article-essentials',
               message: 'Article schema may be missing essential properties',
               suggestion: 'Ensure Article schema includes headline, description, author/publisher, and publication dates'
             });
@@ -782,6 +1657,7 @@ export class SchemaValidationService {
           if (!hasCommercialProps) {
             warnings.push({
               type: 'warning',
+              rule: 'product-commercial',
               message: 'Product schema may be missing commercial properties',
               suggestion: 'Include offers, price, or availability information for better rich snippets'
             });
@@ -795,6 +1671,7 @@ export class SchemaValidationService {
           if (!hasCompleteContact) {
             warnings.push({
               type: 'warning',
+              rule: 'organization-contact',
               message: 'Organization schema may be missing contact information',
               suggestion: 'Include complete address and contact point for better local SEO'
             });
@@ -811,12 +1688,14 @@ export class SchemaValidationService {
     if (schemaCount > 10) {
       warnings.push({
         type: 'warning',
+        rule: 'too-many-schemas',
         message: 'High number of schema types detected',
         suggestion: 'Consider limiting to 2-10 relevant schemas per page for optimal SEO performance'
       });
     } else if (schemaCount < 2) {
       info.push({
         type: 'info',
+        rule: 'too-few-schemas',
         message: 'Consider adding more schema types',
         suggestion: 'Multiple relevant schemas can enhance search engine understanding'
       });
@@ -826,7 +1705,7 @@ export class SchemaValidationService {
   /**
    * Validates schema markup for SEO best practices
    */
-  static validateSchemasForSEO(schemas: { type: string; schema: string }[]): {
+  static validateSchemasForSEO(schemas: { type: string; schema: string }[], ruleSet?: ValidationRuleSet): {
     errors: ValidationError[];
     warnings: ValidationError[];
     info: ValidationError[];
@@ -838,10 +1717,7 @@ export class SchemaValidationService {
     const recommendations: string[] = [];
 
     // Validate each individual schema
-    const validatedSchemas = schemas.map(schema => ({
-      ...schema,
-      validation: this.validateSchema(schema)
-    }));
+    const validatedSchemas = this.validateSchemas(schemas, ruleSet);
 
     // Collect all validation issues
     validatedSchemas.forEach(validated => {
@@ -851,7 +1727,12 @@ export class SchemaValidationService {
     });
 
     // Check schema relationships and conflicts
-    this.validateSchemaRelationships(schemas, errors, warnings, info);
+    const relationships: ValidationError[] = [];
+    this.validateSchemaRelationships(schemas, relationships, relationships, relationships);
+    const reported = this.applyRuleSet(relationships, ruleSet);
+    errors.push(...reported.errors);
+    warnings.push(...reported.warnings);
+    info.push(...reported.info);
 
     // Generate recommendations based on schema types
     const schemaTypes = schemas.map(s => s.type);
@@ -0,0 +1,589 @@
+// Local copy of the parts of the schema.org vocabulary used on web pages: the type hierarchy, the
+// properties each type declares, expected value ranges and enumeration members. Bundled so that
+// validation works offline. Lists are space-separated to keep the tables readable.
+
+// Type → [parent types, properties declared on the type itself]
+const TYPES: Record<string, [string, string]> = {
+  Thing: ['', 'additionalType alternateName description disambiguatingDescription identifier image mainEntityOfPage name potentialAction sameAs subjectOf url'],
+
+  // Creative works
+  CreativeWork: ['Thing', 'about abstract accessMode accessModeSufficient accessibilityAPI accessibilityControl accessibilityFeature accessibilityHazard accessibilitySummary accountablePerson acquireLicensePage aggregateRating alternativeHeadline archivedAt associatedMedia audience audio author award awards character citation comment commentCount conditionsOfAccess contentLocation contentRating contentReferenceTime contributor copyrightHolder copyrightNotice copyrightYear correction countryOfOrigin creativeWorkStatus creator creditText dateCreated dateModified datePublished discussionUrl editEIDR editor educationalAlignment educationalLevel educationalUse encoding encodingFormat encodings exampleOfWork expires fileFormat funder funding genre hasPart headline inLanguage interactionStatistic interactivityType interpretedAsClaim isAccessibleForFree isBasedOn isBasedOnUrl isFamilyFriendly isPartOf keywords learningResourceType license locationCreated mainEntity maintainer material materialExtent mentions offers pattern position producer provider publication publisher publisherImprint publishingPrinciples recordedAt releasedEvent review reviews schemaVersion sdDatePublished sdLicense sdPublisher size sourceOrganization spatial spatialCoverage sponsor teaches temporal temporalCoverage text thumbnail thumbnailUrl timeRequired translationOfWork translator typicalAgeRange usageInfo version video workExample workTranslation'],
+  Article: ['CreativeWork', 'articleBody articleSection backstory pageEnd pageStart pagination speakable wordCount'],
+  NewsArticle: ['Article', 'dateline printColumn printEdition printPage printSection'],
+  SocialMediaPosting: ['Article', 'sharedContent'],
+  BlogPosting: ['SocialMediaPosting', ''],
+  LiveBlogPosting: ['BlogPosting', 'coverageEndTime coverageStartTime liveBlogUpdate'],
+  DiscussionForumPosting: ['SocialMediaPosting', ''],
+  TechArticle: ['Article', 'dependencies proficiencyLevel'],
+  ScholarlyArticle: ['Article', ''],
+  Report: ['Article', 'reportNumber'],
+  WebPage: ['CreativeWork', 'breadcrumb lastReviewed mainContentOfPage primaryImageOfPage relatedLink reviewedBy significantLink significantLinks speakable specialty'],
+  WebSite: ['CreativeWork', 'issn'],
+  Blog: ['CreativeWork', 'blogPost blogPosts issn'],
+  HowTo: ['CreativeWork', 'estimatedCost performTime prepTime step steps supply tool totalTime yield'],
+  Recipe: ['HowTo', 'cookTime cookingMethod ingredients nutrition recipeCategory recipeCuisine recipeIngredient recipeInstructions recipeYield suitableForDiet'],
+  HowToStep: ['ListItem CreativeWork ItemList', ''],
+  HowToSection: ['ListItem CreativeWork ItemList', ''],
+  HowToDirection: ['ListItem CreativeWork', 'afterMedia beforeMedia duringMedia performTime prepTime supply tool totalTime'],
+  HowToTip: ['ListItem CreativeWork', ''],
+  HowToItem: ['ListItem', 'requiredQuantity'],
+  HowToSupply: ['HowToItem', 'estimatedCost'],
+  HowToTool: ['HowToItem', ''],
+  Comment: ['CreativeWork', 'downvoteCount parentItem sharedContent upvoteCount'],
+  Question: ['Comment', 'acceptedAnswer answerCount eduQuestionType suggestedAnswer'],
+  Answer: ['Comment', 'answerExplanation'],
+  Review: ['CreativeWork', 'associatedClaimReview associatedMediaReview associatedReview itemReviewed negativeNotes positiveNotes reviewAspect reviewBody reviewRating'],
+  CriticReview: ['Review', ''],
+  UserReview: ['Review', ''],
+  EmployerReview: ['Review', ''],
+  Recommendation: ['Review', 'category'],
+  MediaObject: ['CreativeWork', 'associatedArticle bitrate contentSize contentUrl duration embedUrl encodesCreativeWork endTime height ineligibleRegion playerType productionCompany regionsAllowed requiresSubscription sha256 startTime uploadDate width'],
+  ImageObject: ['MediaObject', 'caption embeddedTextCaption exifData representativeOfPage'],
+  VideoObject: ['MediaObject', 'actor actors caption director directors embeddedTextCaption musicBy transcript videoFrameSize videoQuality'],
+  AudioObject: ['MediaObject', 'caption embeddedTextCaption transcript'],
+  Photograph: ['CreativeWork', ''],
+  Map: ['CreativeWork', 'mapType'],
+  Clip: ['CreativeWork', 'actor actors clipNumber director directors endOffset musicBy partOfEpisode partOfSeason partOfSeries startOffset'],
+  Book: ['CreativeWork', 'abridged bookEdition bookFormat illustrator isbn numberOfPages'],
+  Movie: ['CreativeWork', 'actor actors countryOfOrigin director directors duration musicBy productionCompany subtitleLanguage titleEIDR trailer'],
+  Course: ['CreativeWork', 'availableLanguage courseCode coursePrerequisites educationalCredentialAwarded financialAidEligible hasCourseInstance numberOfCredits occupationalCredentialAwarded totalHistoricalEnrollment'],
+  SoftwareApplication: ['CreativeWork', 'applicationCategory applicationSubCategory applicationSuite availableOnDevice countriesNotSupported countriesSupported device downloadUrl featureList fileSize installUrl memoryRequirements operatingSystem permissions processorRequirements releaseNotes requirements screenshot softwareAddOn softwareHelp softwareRequirements softwareVersion storageRequirements supportingData'],
+  WebApplication: ['SoftwareApplication', 'browserRequirements'],
+  MobileApplication: ['SoftwareApplication', 'carrierRequirements'],
+  Dataset: ['CreativeWork', 'catalog distribution includedDataCatalog includedInDataCatalog issn measurementMethod measurementTechnique variableMeasured'],
+  Menu: ['CreativeWork', 'hasMenuItem hasMenuSection'],
+  MenuSection: ['CreativeWork', 'hasMenuItem hasMenuSection'],
+  EducationalOccupationalCredential: ['CreativeWork', 'competencyRequired credentialCategory educationalLevel recognizedBy validFor validIn'],
+
+  // Events
+  Event: ['Thing', 'about actor aggregateRating attendee attendees audience composer contributor director doorTime duration endDate eventAttendanceMode eventSchedule eventStatus funder funding inLanguage isAccessibleForFree keywords location maximumAttendeeCapacity maximumPhysicalAttendeeCapacity maximumVirtualAttendeeCapacity offers organizer performer performers previousStartDate recordedIn remainingAttendeeCapacity review sponsor startDate subEvent subEvents superEvent translator typicalAgeRange workFeatured workPerformed'],
+  SportsEvent: ['Event', 'awayTeam competitor homeTeam sport'],
+  CourseInstance: ['Event', 'courseMode courseSchedule courseWorkload instructor'],
+  PublicationEvent: ['Event', 'publishedBy publishedOn'],
+
+  // Organizations, places and people
+  Organization: ['Thing', 'actionableFeedbackPolicy address agentInteractionStatistic aggregateRating alumni areaServed award awards brand contactPoint contactPoints correctionsPolicy department dissolutionDate diversityPolicy diversityStaffingReport duns email employee employees ethicsPolicy event events faxNumber founder founders foundingDate foundingLocation funder funding globalLocationNumber hasCredential hasMemberProgram hasMerchantReturnPolicy hasOfferCatalog hasPOS hasShippingService interactionStatistic isicV4 iso6523Code keywords knowsAbout knowsLanguage legalName leiCode location logo makesOffer member memberOf members naics nonprofitStatus numberOfEmployees ownershipFundingInfo owns parentOrganization publishingPrinciples review reviews seeks serviceArea skills slogan sponsor subOrganization taxID telephone unnamedSourcesPolicy vatID'],
+  Corporation: ['Organization', 'tickerSymbol'],
+  NewsMediaOrganization: ['Organization', 'masthead missionCoveragePrioritiesPolicy noBylinesPolicy verificationFactCheckingPolicy'],
+  EducationalOrganization: ['Organization CivicStructure', 'alumni'],
+  OnlineBusiness: ['Organization', ''],
+  OnlineStore: ['OnlineBusiness', ''],
+  SportsOrganization: ['Organization', 'sport'],
+  SportsTeam: ['SportsOrganization', 'athlete coach gender'],
+  PerformingGroup: ['Organization', ''],
+  MusicGroup: ['PerformingGroup', 'album genre track'],
+  Airline: ['Organization', 'boardingPolicy iataCode'],
+  Place: ['Thing', 'additionalProperty address aggregateRating amenityFeature branchCode containedIn containedInPlace containsPlace event events faxNumber geo geoContains geoCoveredBy geoCovers geoCrosses geoDisjoint geoEquals geoIntersects geoOverlaps geoTouches geoWithin globalLocationNumber hasDriveThroughService hasMap isAccessibleForFree isicV4 keywords latitude logo longitude map maps maximumAttendeeCapacity openingHoursSpecification photo photos publicAccess review reviews slogan smokingAllowed specialOpeningHoursSpecification telephone tourBookingPage'],
+  CivicStructure: ['Place', 'openingHours'],
+  AdministrativeArea: ['Place', ''],
+  Country: ['AdministrativeArea', ''],
+  State: ['AdministrativeArea', ''],
+  City: ['AdministrativeArea', ''],
+  LocalBusiness: ['Organization Place', 'branchOf currenciesAccepted openingHours paymentAccepted priceRange'],
+  FoodEstablishment: ['LocalBusiness', 'acceptsReservations hasMenu menu servesCuisine starRating'],
+  LodgingBusiness: ['LocalBusiness', 'amenityFeature audience availableLanguage checkinTime checkoutTime numberOfRooms petsAllowed starRating'],
+  FinancialService: ['LocalBusiness', 'feesAndCommissionsSpecification'],
+  MedicalOrganization: ['Organization', 'healthPlanNetworkId isAcceptingNewPatients medicalSpecialty'],
+  Person: ['Thing', 'additionalName address affiliation agentInteractionStatistic alumniOf award awards birthDate birthPlace brand callSign children colleague colleagues contactPoint contactPoints deathDate deathPlace duns email familyName faxNumber follows funder funding gender givenName globalLocationNumber hasCredential hasOccupation hasOfferCatalog hasPOS height homeLocation honorificPrefix honorificSuffix interactionStatistic isicV4 jobTitle knows knowsAbout knowsLanguage makesOffer memberOf naics nationality netWorth owns parent parents performerIn publishingPrinciples relatedTo seeks sibling siblings skills sponsor spouse taxID telephone vatID weight workLocation worksFor'],
+
+  // Products and offers
+  Product: ['Thing', 'additionalProperty aggregateRating asin audience award awards brand category color countryOfAssembly countryOfLastProcessing countryOfOrigin depth funding gtin gtin12 gtin13 gtin14 gtin8 hasAdultConsideration hasCertification hasEnergyConsumptionDetails hasMeasurement hasMerchantReturnPolicy height inProductGroupWithID isAccessoryOrSparePartFor isConsumableFor isFamilyFriendly isRelatedTo isSimilarTo isVariantOf itemCondition keywords logo manufacturer material mobileUrl model mpn negativeNotes nsn offers pattern positiveNotes productID productionDate purchaseDate releaseDate review reviews size sku slogan weight width'],
+  ProductGroup: ['Product', 'hasVariant productGroupID variesBy'],
+  ProductModel: ['Product', 'isVariantOf predecessorOf successorOf'],
+  IndividualProduct: ['Product', 'serialNumber'],
+  Vehicle: ['Product', 'bodyType cargoVolume dateVehicleFirstRegistered driveWheelConfiguration fuelConsumption fuelType mileageFromOdometer modelDate numberOfDoors numberOfPreviousOwners productionDate seatingCapacity vehicleConfiguration vehicleEngine vehicleIdentificationNumber vehicleInteriorColor vehicleModelDate vehicleSeatingCapacity vehicleTransmission'],
+  Car: ['Vehicle', 'roofLoad'],
+
+  // Intangibles
+  Intangible: ['Thing', ''],
+  Offer: ['Intangible', 'acceptedPaymentMethod addOn advanceBookingRequirement aggregateRating areaServed asin availability availabilityEnds availabilityStarts availableAtOrFrom availableDeliveryMethod businessFunction category checkoutPageURLTemplate deliveryLeadTime eligibleCustomerType eligibleDuration eligibleQuantity eligibleRegion eligibleTransactionVolume gtin gtin12 gtin13 gtin14 gtin8 hasAdultConsideration hasMeasurement hasMerchantReturnPolicy includesObject ineligibleRegion inventoryLevel isFamilyFriendly itemCondition itemOffered leaseLength mobileUrl mpn offeredBy price priceCurrency priceSpecification priceValidUntil review reviews seller serialNumber shippingDetails sku validFrom validForMemberTier validThrough warranty'],
+  AggregateOffer: ['Offer', 'highPrice lowPrice offerCount offers'],
+  Demand: ['Intangible', 'acceptedPaymentMethod advanceBookingRequirement areaServed availability availabilityEnds availabilityStarts availableAtOrFrom availableDeliveryMethod businessFunction deliveryLeadTime eligibleCustomerType eligibleDuration eligibleQuantity eligibleRegion eligibleTransactionVolume gtin gtin12 gtin13 gtin14 gtin8 includesObject ineligibleRegion inventoryLevel itemCondition itemOffered mpn priceSpecification seller serialNumber sku validFrom validThrough warranty'],
+  Service: ['Intangible', 'aggregateRating areaServed audience availableChannel award brand broker category hasCertification hasOfferCatalog hoursAvailable isRelatedTo isSimilarTo logo offers provider providerMobility review serviceArea serviceAudience serviceOutput serviceType slogan termsOfService'],
+  Brand: ['Intangible', 'aggregateRating logo review slogan'],
+  Rating: ['Intangible', 'author bestRating ratingExplanation ratingValue reviewAspect worstRating'],
+  AggregateRating: ['Rating', 'itemReviewed ratingCount reviewCount'],
+  ItemList: ['Intangible', 'itemListElement itemListOrder numberOfItems'],
+  BreadcrumbList: ['ItemList', ''],
+  OfferCatalog: ['ItemList', ''],
+  ListItem: ['Intangible', 'item nextItem position previousItem'],
+  JobPosting: ['Intangible', 'applicantLocationRequirements applicationContact baseSalary benefits datePosted directApply educationRequirements eligibilityToWorkRequirement employerOverview employmentType employmentUnit estimatedSalary experienceInPlaceOfEducation experienceRequirements hiringOrganization incentiveCompensation incentives industry jobBenefits jobImmediateStart jobLocation jobLocationType jobStartDate occupationalCategory physicalRequirement qualifications relevantOccupation responsibilities salaryCurrency securityClearanceRequirement sensoryRequirement skills specialCommitments title totalJobOpenings validThrough workHours'],
+  Occupation: ['Intangible', 'educationRequirements estimatedSalary experienceRequirements occupationLocation occupationalCategory qualifications responsibilities skills'],
+  Audience: ['Intangible', 'audienceType geographicArea'],
+  PeopleAudience: ['Audience', 'healthCondition requiredGender requiredMaxAge requiredMinAge suggestedAge suggestedGender suggestedMaxAge suggestedMinAge'],
+  Language: ['Intangible', ''],
+  EntryPoint: ['Intangible', 'actionApplication actionPlatform contentType encodingType httpMethod urlTemplate'],
+  PropertyValueSpecification: ['Intangible', 'defaultValue maxValue minValue multipleValues readonlyValue stepValue valueMaxLength valueMinLength valueName valuePattern valueRequired'],
+  SpeakableSpecification: ['Intangible', 'cssSelector xpath'],
+  VirtualLocation: ['Intangible', ''],
+  MerchantReturnPolicy: ['Intangible', 'additionalProperty applicableCountry customerRemorseReturnFees customerRemorseReturnLabelSource customerRemorseReturnShippingFeesAmount inStoreReturnsOffered itemCondition itemDefectReturnFees itemDefectReturnLabelSource itemDefectReturnShippingFeesAmount merchantReturnDays merchantReturnLink refundType restockingFee returnFees returnLabelSource returnMethod returnPolicyCategory returnPolicyCountry returnPolicySeasonalOverride returnShippingFeesAmount validForMemberTier'],
+  MenuItem: ['Intangible', 'menuAddOn nutrition offers suitableForDiet'],
+  DefinedTerm: ['Intangible', 'inDefinedTermSet termCode'],
+  CategoryCode: ['DefinedTerm', 'codeValue inCodeSet'],
+  Schedule: ['Intangible', 'byDay byMonth byMonthDay byMonthWeek duration endDate endTime exceptDate repeatCount repeatFrequency scheduleTimezone startDate startTime'],
+  Quantity: ['Intangible', ''],
+  Distance: ['Quantity', ''],
+  Duration: ['Quantity', ''],
+  Energy: ['Quantity', ''],
+  Mass: ['Quantity', ''],
+  Enumeration: ['Intangible', 'supersededBy'],
+  StructuredValue: ['Intangible', ''],
+  ContactPoint: ['StructuredValue', 'areaServed availableLanguage contactOption contactType email faxNumber hoursAvailable productSupported serviceArea telephone'],
+  PostalAddress: ['ContactPoint', 'addressCountry addressLocality addressRegion extendedAddress postOfficeBoxNumber postalCode streetAddress'],
+  GeoCoordinates: ['StructuredValue', 'address addressCountry elevation latitude longitude postalCode'],
+  GeoShape: ['StructuredValue', 'address addressCountry box circle elevation line polygon postalCode'],
+  GeoCircle: ['GeoShape', 'geoMidpoint geoRadius'],
+  OpeningHoursSpecification: ['StructuredValue', 'closes dayOfWeek opens validFrom validThrough'],
+  PriceSpecification: ['StructuredValue', 'eligibleQuantity eligibleTransactionVolume maxPrice membershipPointsEarned minPrice price priceCurrency validForMemberTier validFrom validThrough valueAddedTaxIncluded'],
+  UnitPriceSpecification: ['PriceSpecification', 'billingDuration billingIncrement billingStart priceComponentType priceType referenceQuantity unitCode unitText'],
+  CompoundPriceSpecification: ['PriceSpecification', 'priceComponent priceType'],
+  DeliveryChargeSpecification: ['PriceSpecification', 'appliesToDeliveryMethod areaServed eligibleRegion ineligibleRegion'],
+  MonetaryAmount: ['StructuredValue', 'currency maxValue minValue validFrom validThrough value'],
+  QuantitativeValue: ['StructuredValue', 'additionalProperty maxValue minValue unitCode unitText value valueReference'],
+  QuantitativeValueDistribution: ['StructuredValue', 'duration median percentile10 percentile25 percentile75 percentile90'],
+  MonetaryAmountDistribution: ['QuantitativeValueDistribution', 'currency'],
+  PropertyValue: ['StructuredValue', 'maxValue measurementMethod measurementTechnique minValue propertyID unitCode unitText value valueReference'],
+  LocationFeatureSpecification: ['PropertyValue', 'hoursAvailable validFrom validThrough'],
+  NutritionInformation: ['StructuredValue', 'calories carbohydrateContent cholesterolContent fatContent fiberContent proteinContent saturatedFatContent servingSize sodiumContent sugarContent transFatContent unsaturatedFatContent'],
+  InteractionCounter: ['StructuredValue', 'endTime interactionService interactionType location startTime userInteractionCount'],
+  OfferShippingDetails: ['StructuredValue', 'deliveryTime depth doesNotShip hasShippingService height shippingDestination shippingLabel shippingOrigin shippingRate shippingSettingsLink transitTimeLabel validForMemberTier weight width'],
+  ShippingDeliveryTime: ['StructuredValue', 'businessDays cutoffTime handlingTime transitTime'],
+  DefinedRegion: ['StructuredValue', 'addressCountry addressRegion postalCode postalCodePrefix postalCodeRange'],
+
+  // Actions
+  Action: ['Thing', 'actionProcess actionStatus agent endTime error instrument location object participant provider result startTime target'],
+  SearchAction: ['Action', 'query'],
+  ConsumeAction: ['Action', 'actionAccessibilityRequirement expectsAcceptanceOf'],
+  ReadAction: ['ConsumeAction', ''],
+  WatchAction: ['ConsumeAction', ''],
+  ViewAction: ['ConsumeAction', ''],
+  ListenAction: ['ConsumeAction', ''],
+  TradeAction: ['Action', 'price priceCurrency priceSpecification'],
+  BuyAction: ['TradeAction', 'seller'],
+  OrderAction: ['TradeAction', 'deliveryMethod'],
+  InteractAction: ['Action', ''],
+  CommunicateAction: ['InteractAction', 'about inLanguage recipient'],
+  CommentAction: ['CommunicateAction', 'resultComment'],
+  ShareAction: ['CommunicateAction', ''],
+  FollowAction: ['InteractAction', 'followee'],
+  AssessAction: ['Action', ''],
+  ReactAction: ['AssessAction', ''],
+  LikeAction: ['ReactAction', ''],
+
+  // Enumerations
+  ItemAvailability: ['Enumeration', ''],
+  OfferItemCondition: ['Enumeration', ''],
+  EventStatusType: ['Enumeration', ''],
+  EventAttendanceModeEnumeration: ['Enumeration', ''],
+  DayOfWeek: ['Enumeration', ''],
+  MerchantReturnEnumeration: ['Enumeration', ''],
+  ReturnFeesEnumeration: ['Enumeration', ''],
+  ReturnMethodEnumeration: ['Enumeration', ''],
+  ReturnLabelSourceEnumeration: ['Enumeration', ''],
+  RefundTypeEnumeration: ['Enumeration', ''],
+  ItemListOrderType: ['Enumeration', ''],
+  BookFormatType: ['Enumeration', ''],
+  GenderType: ['Enumeration', ''],
+  ActionStatusType: ['Enumeration', ''],
+  RestrictedDiet: ['Enumeration', ''],
+  PriceTypeEnumeration: ['Enumeration', ''],
+  PriceComponentTypeEnumeration: ['Enumeration', ''],
+  ContactPointOption: ['Enumeration', ''],
+  DeliveryMethod: ['Enumeration', '']
+};
+
+// Subtypes that declare no properties of their own, by parent
+const SIMPLE_SUBTYPES: Record<string, string> = {
+  Article: 'AdvertiserContentArticle SatiricalArticle',
+  NewsArticle: 'AnalysisNewsArticle AskPublicNewsArticle BackgroundNewsArticle OpinionNewsArticle ReportageNewsArticle',
+  WebPage: 'AboutPage CheckoutPage CollectionPage ContactPage FAQPage ItemPage ProfilePage QAPage RealEstateListing SearchResultsPage',
+  CollectionPage: 'MediaGallery',
+  MediaGallery: 'ImageGallery VideoGallery',
+  CreativeWork: 'Guide',
+  Event: 'BusinessEvent ChildrensEvent ComedyEvent DanceEvent DeliveryEvent EducationEvent ExhibitionEvent Festival FoodEvent Hackathon LiteraryEvent MusicEvent SaleEvent ScreeningEvent SocialEvent TheaterEvent VisualArtsEvent',
+  EducationalOrganization: 'CollegeOrUniversity ElementarySchool HighSchool MiddleSchool Preschool School',
+  Organization: 'Consortium FundingScheme GovernmentOrganization LibrarySystem NGO PoliticalParty Project ResearchOrganization SearchRescueOrganization WorkersUnion',
+  MedicalOrganization: 'DiagnosticLab Hospital MedicalClinic Pharmacy Physician VeterinaryCare',
+  PerformingGroup: 'DanceGroup TheaterGroup',
+  CivicStructure: 'Airport Aquarium Beach BusStation Cemetery Crematorium EventVenue GovernmentBuilding Museum MusicVenue Park ParkingFacility PerformingArtsTheater PlaceOfWorship Playground PoliceStation StadiumOrArena TrainStation Zoo',
+  Place: 'Accommodation Landform LandmarksOrHistoricalBuildings Residence TouristAttraction TouristDestination',
+  Accommodation: 'Apartment House Room Suite',
+  FoodEstablishment: 'Bakery BarOrPub Brewery CafeOrCoffeeShop Distillery FastFoodRestaurant IceCreamShop Restaurant Winery',
+  LodgingBusiness: 'BedAndBreakfast Campground Hostel Hotel Motel Resort VacationRental',
+  FinancialService: 'AccountingService AutomatedTeller BankOrCreditUnion InsuranceAgency',
+  LocalBusiness: 'AnimalShelter ArchiveOrganization AutomotiveBusiness ChildCare Dentist DryCleaningOrLaundry EmergencyService EmploymentAgency EntertainmentBusiness GovernmentOffice HealthAndBeautyBusiness HomeAndConstructionBusiness InternetCafe LegalService Library MedicalBusiness ProfessionalService RadioStation RealEstateAgent RecyclingCenter SelfStorage ShoppingCenter SportsActivityLocation Store TelevisionStation TouristInformationCenter TravelAgency',
+  AutomotiveBusiness: 'AutoBodyShop AutoDealer AutoPartsStore AutoRental AutoRepair AutoWash GasStation MotorcycleDealer MotorcycleRepair',
+  EntertainmentBusiness: 'AdultEntertainment AmusementPark ArtGallery Casino ComedyClub MovieTheater NightClub',
+  HealthAndBeautyBusiness: 'BeautySalon DaySpa HairSalon HealthClub NailSalon TattooParlor',
+  HomeAndConstructionBusiness: 'Electrician GeneralContractor HVACBusiness HousePainter Locksmith MovingCompany Plumber RoofingContractor',
+  LegalService: 'Attorney Notary',
+  MedicalBusiness: 'CommunityHealth Dermatology DietNutrition Emergency Geriatric Gynecologic MedicalClinic Midwifery Nursing Obstetric Oncologic Optician Optometric Otolaryngologic Pediatric Physiotherapy PlasticSurgery Podiatric PrimaryCare Psychiatric PublicHealth',
+  SportsActivityLocation: 'BowlingAlley ExerciseGym GolfCourse PublicSwimmingPool SkiResort SportsClub StadiumOrArena TennisComplex',
+  Store: 'BikeStore BookStore ClothingStore ComputerStore ConvenienceStore DepartmentStore ElectronicsStore Florist FurnitureStore GardenStore GroceryStore HardwareStore HobbyShop HomeGoodsStore JewelryStore LiquorStore MensClothingStore MobilePhoneStore MovieRentalStore MusicStore OfficeEquipmentStore OutletStore PawnShop PetStore ShoeStore SportingGoodsStore TireShop ToyStore WholesaleStore',
+  Review: 'ClaimReview MediaReview',
+  CreativeWorkSeries: 'BookSeries MovieSeries Periodical TVSeries',
+  Intangible: 'BedDetails Grant Trip'
+};
+
+// Types referenced as ranges that add nothing this validator checks
+const PLACEHOLDER_TYPES: Record<string, string> = {
+  Thing: 'MedicalCondition',
+  CreativeWork: 'Claim CreativeWorkSeason CreativeWorkSeries DataCatalog DataDownload DataFeed Episode HyperTocEntry MusicAlbum MusicRecording WebContent WebPageElement',
+  Intangible: 'ActionAccessSpecification AlignmentObject BusinessEntityType BusinessFunction Certification Class DefinedTermSet EnergyConsumptionDetails EngineSpecification GeospatialGeometry LoanOrCredit MediaSubscription MemberProgram MemberProgramTier MerchantReturnPolicySeasonalOverride OwnershipInfo PaymentMethod ProgramMembership Property ServiceChannel ServicePeriod ShippingRateSettings ShippingService SizeSpecification StatisticalVariable TypeAndQuantityNode WarrantyPromise',
+  StructuredValue: 'OccupationalExperienceRequirements PostalCodeRangeSpecification',
+  Enumeration: 'AdultOrientedEnumeration DigitalPlatformEnumeration GovernmentBenefitsType MeasurementMethodEnum NonprofitType PhysicalActivityCategory Specialty',
+  DefinedTermSet: 'CategoryCodeSet'
+};
+
+// Property → expected value types, grouped by range
+const PROPERTY_RANGES: Record<string, string> = {
+  'Text': 'accessMode accessibilityAPI accessibilityControl accessibilityFeature accessibilityHazard accessibilitySummary additionalName addressLocality addressRegion alternateName alternativeHeadline articleBody articleSection audienceType availableOnDevice backstory bitrate bodyType bookEdition box branchCode callSign carrierRequirements checkoutPageURLTemplate circle codeValue color contactType contentSize contentType copyrightNotice countriesNotSupported countriesSupported countryOfAssembly countryOfLastProcessing courseCode courseWorkload creditText currenciesAccepted currency dateline dependencies description device disambiguatingDescription duns email embeddedTextCaption encodingType eduQuestionType employerOverview employmentType eligibilityToWorkRequirement extendedAddress familyName faxNumber fileSize givenName globalLocationNumber gtin12 gtin13 gtin14 gtin8 headline healthPlanNetworkId honorificPrefix honorificSuffix httpMethod iataCode incentiveCompensation incentives inProductGroupWithID ingredients isbn isicV4 iso6523Code issn jobBenefits jobLocationType legalName leiCode line mpn naics name nsn openingHours operatingSystem pageEnd pageStart pagination paymentAccepted permissions playerType polygon postOfficeBoxNumber postalCode postalCodePrefix priceCurrency priceRange printColumn printEdition printPage printSection proficiencyLevel productGroupID productID providerMobility query recipeCategory recipeCuisine recipeIngredient reportNumber responsibilities reviewAspect reviewBody salaryCurrency scheduleTimezone serialNumber servingSize sha256 shippingLabel sku slogan specialCommitments streetAddress taxID telephone termCode text tickerSymbol title transcript transitTimeLabel typicalAgeRange unitText urlTemplate valueName valuePattern vatID vehicleConfiguration vehicleIdentificationNumber vehicleInteriorColor vehicleTransmission videoFrameSize videoQuality workHours benefits cookingMethod interactivityType ratingExplanation fuelType driveWheelConfiguration educationalUse materialExtent abstract applicationSuite award awards browserRequirements conditionsOfAccess servesCuisine softwareVersion',
+  'URL': 'contentUrl discussionUrl downloadUrl embedUrl installUrl map maps merchantReturnLink mobileUrl relatedLink sameAs significantLink significantLinks thumbnailUrl tourBookingPage url isBasedOnUrl shippingSettingsLink',
+  'Text URL': 'additionalType applicationCategory applicationSubCategory asin courseMode encodingFormat featureList fileFormat genre gtin memoryRequirements processorRequirements propertyID releaseNotes requirements schemaVersion securityClearanceRequirement softwareRequirements sport storageRequirements termsOfService titleEIDR unitCode mapType boardingPolicy editEIDR feesAndCommissionsSpecification',
+  'Number': 'billingIncrement billingStart copyrightYear maxPrice median minPrice percentile10 percentile25 percentile75 percentile90 requiredMaxAge requiredMinAge stepValue suggestedMaxAge suggestedMinAge valueMaxLength valueMinLength membershipPointsEarned maxValue minValue',
+  'Number Text': 'bestRating elevation highPrice latitude longitude lowPrice price ratingValue version worstRating',
+  'Number QuantitativeValue': 'numberOfRooms numberOfDoors numberOfPreviousOwners',
+  'Number QuantitativeValue Text': 'requiredQuantity',
+  'Number MonetaryAmount PriceSpecification': 'baseSalary',
+  'Number MonetaryAmount MonetaryAmountDistribution': 'estimatedSalary',
+  'MonetaryAmount Number': 'restockingFee',
+  'Integer': 'answerCount commentCount downvoteCount maximumAttendeeCapacity maximumPhysicalAttendeeCapacity maximumVirtualAttendeeCapacity numberOfItems numberOfPages offerCount ratingCount remainingAttendeeCapacity repeatCount reviewCount totalHistoricalEnrollment totalJobOpenings upvoteCount userInteractionCount wordCount',
+  'Integer Text': 'clipNumber position',
+  'Integer StructuredValue': 'numberOfCredits',
+  'Date Integer': 'byMonth byMonthDay byMonthWeek',
+  'Date DateTime Integer': 'merchantReturnDays',
+  'Boolean': 'abridged directApply doesNotShip experienceInPlaceOfEducation hasDriveThroughService inStoreReturnsOffered isAccessibleForFree isAcceptingNewPatients isFamilyFriendly jobImmediateStart multipleValues publicAccess readonlyValue representativeOfPage smokingAllowed valueAddedTaxIncluded valueRequired',
+  'Boolean Text': 'petsAllowed',
+  'Boolean Text URL': 'acceptsReservations',
+  'Boolean MediaSubscription': 'requiresSubscription',
+  'Boolean Number StructuredValue Text': 'value',
+  'Date': 'birthDate deathDate dissolutionDate foundingDate lastReviewed previousStartDate priceValidUntil productionDate purchaseDate releaseDate sdDatePublished dateVehicleFirstRegistered vehicleModelDate modelDate',
+  'Date DateTime': 'dateCreated dateModified datePosted datePublished endDate expires startDate uploadDate validFrom validThrough exceptDate',
+  'Date Text': 'jobStartDate',
+  'DateTime': 'contentReferenceTime coverageEndTime coverageStartTime',
+  'DateTime Time': 'checkinTime checkoutTime doorTime endTime startTime',
+  'Date DateTime Time': 'availabilityEnds availabilityStarts',
+  'Time': 'closes cutoffTime opens',
+  'Text URL DateTime': 'temporal temporalCoverage',
+  'Duration': 'cookTime performTime prepTime timeRequired totalTime validFor',
+  'Duration QuantitativeValue': 'duration leaseLength',
+  'Duration Number QuantitativeValue': 'billingDuration repeatFrequency',
+  'Distance QuantitativeValue': 'depth height width',
+  'Distance Number Text': 'geoRadius',
+  'QuantitativeValue': 'advanceBookingRequirement cargoVolume deliveryLeadTime eligibleDuration eligibleQuantity hasMeasurement inventoryLevel mileageFromOdometer numberOfEmployees referenceQuantity roofLoad seatingCapacity vehicleSeatingCapacity weight fuelConsumption suggestedAge',
+  'QuantitativeValue ServicePeriod': 'handlingTime transitTime',
+  'QuantitativeValue Text': 'recipeYield yield',
+  'Energy': 'calories',
+  'Mass': 'carbohydrateContent cholesterolContent fatContent fiberContent proteinContent saturatedFatContent sodiumContent sugarContent transFatContent unsaturatedFatContent',
+  'CssSelectorType': 'cssSelector',
+  'XPathType': 'xpath',
+
+  'Thing': 'about error instrument item mainEntity mentions object result serviceOutput expectsAcceptanceOf itemReviewed',
+  'Thing Text': 'defaultValue',
+  'Text Thing URL': 'knowsAbout',
+  'ImageObject URL': 'image logo screenshot',
+  'ImageObject': 'primaryImageOfPage thumbnail',
+  'ImageObject Photograph': 'photo photos',
+  'MediaObject': 'associatedMedia encoding encodings',
+  'MediaObject Text': 'caption',
+  'AudioObject Clip MusicRecording': 'audio',
+  'Clip VideoObject': 'video',
+  'VideoObject': 'trailer',
+  'VideoObject ImageObject MediaObject Text URL': 'afterMedia beforeMedia duringMedia',
+  'PropertyValue Text': 'exifData',
+  'PropertyValue Text URL': 'identifier valueReference',
+  'PropertyValue': 'additionalProperty',
+  'CreativeWork URL': 'acquireLicensePage actionableFeedbackPolicy correctionsPolicy diversityPolicy diversityStaffingReport ethicsPolicy isPartOf license masthead missionCoveragePrioritiesPolicy noBylinesPolicy publishingPrinciples sdLicense unnamedSourcesPolicy usageInfo verificationFactCheckingPolicy mainEntityOfPage',
+  'CreativeWork URL WebPage': 'archivedAt',
+  'AboutPage CreativeWork Text URL': 'ownershipFundingInfo',
+  'CreativeWork Product URL': 'isBasedOn',
+  'CreativeWork Text': 'citation',
+  'CreativeWork Text URL': 'correction',
+  'CreativeWork': 'encodesCreativeWork exampleOfWork hasPart recordedIn sharedContent softwareHelp translationOfWork workExample workFeatured workPerformed workTranslation',
+  'CreativeWork Event': 'subjectOf',
+  'CreativeWork ItemList Text': 'recipeInstructions steps',
+  'CreativeWork HowToSection HowToStep Text': 'step',
+  'HowToSupply Text': 'supply',
+  'HowToTool Text': 'tool',
+  'MonetaryAmount Text': 'estimatedCost',
+  'Answer ItemList': 'acceptedAnswer suggestedAnswer',
+  'Comment CreativeWork': 'parentItem',
+  'Comment WebContent': 'answerExplanation',
+  'Comment': 'comment resultComment',
+  'Review': 'associatedClaimReview associatedMediaReview associatedReview review reviews',
+  'Rating': 'reviewRating starRating',
+  'Rating Text': 'contentRating',
+  'AggregateRating': 'aggregateRating',
+  'ItemList ListItem Text WebContent': 'negativeNotes positiveNotes',
+  'Organization Person': 'accountablePerson agent attendee attendees author broker composer contributor copyrightHolder creator funder hiringOrganization maintainer member members offeredBy organizer participant performer performers producer provider publishedBy publisher recipient sdPublisher seller sponsor translator founder founders',
+  'Person': 'alumni athlete character children coach colleagues director directors editor employee employees follows followee illustrator instructor knows parent parents relatedTo reviewedBy sibling siblings spouse',
+  'Person URL': 'colleague',
+  'Person PerformingGroup': 'actor actors',
+  'MusicGroup Person': 'musicBy',
+  'Organization': 'affiliation branchOf department employmentUnit manufacturer parentOrganization productionCompany publishedOn publisherImprint recognizedBy sourceOrganization subOrganization worksFor',
+  'EducationalOrganization Organization': 'alumniOf',
+  'MemberProgramTier Organization ProgramMembership': 'memberOf',
+  'Brand Organization': 'brand',
+  'Person SportsTeam': 'awayTeam homeTeam competitor',
+  'Place': 'availableAtOrFrom birthPlace containedIn containedInPlace containsPlace contentLocation deathPlace foundingLocation hasPOS jobLocation locationCreated regionsAllowed spatialCoverage spatial',
+  'ContactPoint Place': 'homeLocation workLocation',
+  'Place PostalAddress Text VirtualLocation': 'location',
+  'PostalAddress Text': 'address',
+  'Country Text': 'addressCountry applicableCountry returnPolicyCountry',
+  'Country': 'nationality countryOfOrigin',
+  'AdministrativeArea': 'applicantLocationRequirements geographicArea occupationLocation validIn',
+  'AdministrativeArea GeoShape Place Text': 'areaServed',
+  'AdministrativeArea GeoShape Place': 'serviceArea',
+  'GeoShape Place Text': 'eligibleRegion ineligibleRegion',
+  'GeoCoordinates GeoShape': 'geo',
+  'GeoCoordinates': 'geoMidpoint',
+  'GeospatialGeometry Place': 'geoContains geoCoveredBy geoCovers geoCrosses geoDisjoint geoEquals geoIntersects geoOverlaps geoTouches geoWithin',
+  'Map URL': 'hasMap',
+  'LocationFeatureSpecification': 'amenityFeature',
+  'ContactPoint': 'applicationContact contactPoint contactPoints',
+  'OpeningHoursSpecification': 'hoursAvailable openingHoursSpecification specialOpeningHoursSpecification',
+  'DayOfWeek': 'dayOfWeek',
+  'DayOfWeek OpeningHoursSpecification': 'businessDays',
+  'DayOfWeek URL': 'byDay',
+  'ContactPointOption': 'contactOption',
+  'Language Text': 'availableLanguage inLanguage knowsLanguage subtitleLanguage',
+  'Event': 'event events performerIn recordedAt releasedEvent subEvent subEvents superEvent',
+  'PublicationEvent': 'publication',
+  'CourseInstance': 'hasCourseInstance',
+  'Schedule': 'courseSchedule eventSchedule',
+  'EventStatusType': 'eventStatus',
+  'EventAttendanceModeEnumeration': 'eventAttendanceMode',
+  'Demand Offer': 'offers makesOffer',
+  'Offer': 'addOn',
+  'Demand': 'seeks',
+  'AggregateOffer CreativeWork Event MenuItem Product Service Trip': 'itemOffered',
+  'OfferCatalog': 'hasOfferCatalog',
+  'PriceSpecification': 'eligibleTransactionVolume priceSpecification',
+  'UnitPriceSpecification': 'priceComponent',
+  'PriceTypeEnumeration Text': 'priceType',
+  'PriceComponentTypeEnumeration': 'priceComponentType',
+  'MonetaryAmount PriceSpecification': 'netWorth',
+  'MonetaryAmount': 'customerRemorseReturnShippingFeesAmount itemDefectReturnShippingFeesAmount returnShippingFeesAmount',
+  'MonetaryAmount ShippingRateSettings': 'shippingRate',
+  'ItemAvailability': 'availability',
+  'OfferItemCondition': 'itemCondition',
+  'OfferShippingDetails': 'shippingDetails',
+  'MerchantReturnPolicy': 'hasMerchantReturnPolicy',
+  'MerchantReturnEnumeration': 'returnPolicyCategory',
+  'ReturnFeesEnumeration': 'customerRemorseReturnFees itemDefectReturnFees returnFees',
+  'ReturnLabelSourceEnumeration': 'customerRemorseReturnLabelSource itemDefectReturnLabelSource returnLabelSource',
+  'ReturnMethodEnumeration': 'returnMethod',
+  'RefundTypeEnumeration': 'refundType',
+  'MerchantReturnPolicySeasonalOverride': 'returnPolicySeasonalOverride',
+  'ShippingDeliveryTime': 'deliveryTime',
+  'DefinedRegion': 'shippingDestination shippingOrigin',
+  'PostalCodeRangeSpecification': 'postalCodeRange',
+  'DeliveryMethod': 'appliesToDeliveryMethod availableDeliveryMethod deliveryMethod',
+  'WarrantyPromise': 'warranty',
+  'BusinessFunction': 'businessFunction',
+  'BusinessEntityType': 'eligibleCustomerType',
+  'LoanOrCredit PaymentMethod Text': 'acceptedPaymentMethod',
+  'TypeAndQuantityNode': 'includesObject',
+  'AdultOrientedEnumeration': 'hasAdultConsideration',
+  'Certification': 'hasCertification',
+  'EnergyConsumptionDetails': 'hasEnergyConsumptionDetails',
+  'Product': 'isAccessoryOrSparePartFor isConsumableFor hasVariant predecessorOf successorOf',
+  'Product Service': 'isRelatedTo isSimilarTo',
+  'ProductGroup ProductModel': 'isVariantOf',
+  'ProductModel Text': 'model',
+  'Product Text': 'productSupported',
+  'Product Text URL': 'material',
+  'OwnershipInfo Product': 'owns',
+  'CategoryCode PhysicalActivityCategory Text Thing URL': 'category',
+  'CategoryCode Text': 'occupationalCategory',
+  'CategoryCode Text URL': 'physicalRequirement sensoryRequirement',
+  'DefinedTerm QuantitativeValue SizeSpecification Text': 'size',
+  'DefinedTerm Text': 'creativeWorkStatus financialAidEligible industry jobTitle learningResourceType pattern skills teaches variesBy',
+  'DefinedTerm Text URL': 'competencyRequired credentialCategory educationalLevel keywords',
+  'DefinedTermSet URL': 'inDefinedTermSet',
+  'CategoryCodeSet URL': 'inCodeSet',
+  'EducationalOccupationalCredential': 'hasCredential',
+  'EducationalOccupationalCredential Text': 'educationRequirements qualifications',
+  'EducationalOccupationalCredential Text URL': 'educationalCredentialAwarded occupationalCredentialAwarded',
+  'OccupationalExperienceRequirements Text': 'experienceRequirements',
+  'AlignmentObject Course Text': 'coursePrerequisites',
+  'AlignmentObject': 'educationalAlignment',
+  'Occupation': 'hasOccupation relevantOccupation',
+  'Audience': 'audience serviceAudience',
+  'InteractionCounter': 'agentInteractionStatistic interactionStatistic',
+  'Action': 'interactionType potentialAction',
+  'SoftwareApplication WebSite': 'interactionService',
+  'SoftwareApplication': 'actionApplication softwareAddOn',
+  'DigitalPlatformEnumeration Text URL': 'actionPlatform',
+  'EntryPoint URL': 'target',
+  'HowTo': 'actionProcess',
+  'ActionStatusType': 'actionStatus',
+  'BreadcrumbList Text': 'breadcrumb',
+  'WebPageElement': 'mainContentOfPage',
+  'SpeakableSpecification URL': 'speakable',
+  'Specialty': 'specialty medicalSpecialty',
+  'BlogPosting': 'blogPost blogPosts liveBlogUpdate',
+  'NewsArticle': 'associatedArticle',
+  'Claim': 'interpretedAsClaim',
+  'Episode': 'partOfEpisode',
+  'CreativeWorkSeason': 'partOfSeason',
+  'CreativeWorkSeries': 'partOfSeries',
+  'HyperTocEntry Number': 'endOffset startOffset',
+  'DataDownload': 'distribution',
+  'DataCatalog': 'catalog includedDataCatalog includedInDataCatalog',
+  'DataFeed': 'supportingData',
+  'DefinedTerm MeasurementMethodEnum Text URL': 'measurementMethod measurementTechnique',
+  'Property PropertyValue StatisticalVariable Text': 'variableMeasured',
+  'ListItem Text Thing': 'itemListElement',
+  'ItemListOrderType Text': 'itemListOrder',
+  'ListItem': 'nextItem previousItem',
+  'ItemList': 'accessModeSufficient',
+  'ActionAccessSpecification': 'actionAccessibilityRequirement',
+  'BookFormatType': 'bookFormat',
+  'GenderType Text': 'gender requiredGender suggestedGender',
+  'RestrictedDiet': 'suitableForDiet',
+  'NutritionInformation': 'nutrition',
+  'Menu Text URL': 'hasMenu menu',
+  'MenuItem': 'hasMenuItem',
+  'MenuSection': 'hasMenuSection',
+  'MenuItem MenuSection': 'menuAddOn',
+  'NonprofitType': 'nonprofitStatus',
+  'ServiceChannel': 'availableChannel',
+  'GovernmentBenefitsType Text': 'serviceType',
+  'Grant': 'funding',
+  'MemberProgram': 'hasMemberProgram',
+  'MemberProgramTier': 'validForMemberTier',
+  'ShippingService': 'hasShippingService',
+  'Class Enumeration Property': 'supersededBy',
+  'EngineSpecification': 'vehicleEngine',
+  'MusicAlbum': 'album',
+  'ItemList MusicRecording': 'track',
+  'MedicalCondition': 'healthCondition'
+};
+
+// Enumeration → members
+const ENUMERATION_MEMBERS: Record<string, string> = {
+  ItemAvailability: 'BackOrder Discontinued InStock InStoreOnly LimitedAvailability MadeToOrder OnlineOnly OutOfStock PreOrder PreSale Reserved SoldOut',
+  OfferItemCondition: 'DamagedCondition NewCondition RefurbishedCondition UsedCondition',
+  EventStatusType: 'EventCancelled EventMovedOnline EventPostponed EventRescheduled EventScheduled',
+  EventAttendanceModeEnumeration: 'MixedEventAttendanceMode OfflineEventAttendanceMode OnlineEventAttendanceMode',
+  DayOfWeek: 'Monday Tuesday Wednesday Thursday Friday Saturday Sunday PublicHolidays',
+  MerchantReturnEnumeration: 'MerchantReturnFiniteReturnWindow MerchantReturnNotPermitted MerchantReturnUnlimitedWindow MerchantReturnUnspecified',
+  ReturnFeesEnumeration: 'FreeReturn OriginalShippingFees RestockingFees ReturnFeesCustomerResponsibility ReturnShippingFees',
+  ReturnMethodEnumeration: 'KeepProduct ReturnAtKiosk ReturnByMail ReturnInStore',
+  ReturnLabelSourceEnumeration: 'ReturnLabelCustomerResponsibility ReturnLabelDownloadAndPrint ReturnLabelInBox',
+  RefundTypeEnumeration: 'ExchangeRefund FullRefund StoreCreditRefund',
+  ItemListOrderType: 'ItemListOrderAscending ItemListOrderDescending ItemListUnordered',
+  BookFormatType: 'AudiobookFormat EBook GraphicNovel Hardcover Paperback',
+  GenderType: 'Female Male',
+  ActionStatusType: 'ActiveActionStatus CompletedActionStatus FailedActionStatus PotentialActionStatus',
+  RestrictedDiet: 'DiabeticDiet GlutenFreeDiet HalalDiet HinduDiet KosherDiet LowCalorieDiet LowFatDiet LowLactoseDiet LowSaltDiet VeganDiet VegetarianDiet',
+  PriceTypeEnumeration: 'InvoicePrice ListPrice MinimumAdvertisedPrice MSRP SalePrice SRP StrikethroughPrice',
+  PriceComponentTypeEnumeration: 'ActivationFee CleaningFee DistanceFee Downpayment Installment Subscription',
+  ContactPointOption: 'HearingImpairedSupported TollFree',
+  DeliveryMethod: 'LockerDelivery OnSitePickup ParcelService'
+};
+
+// Primitive value types; every other range is a schema.org type
+const DATA_TYPES = new Set(['Text', 'URL', 'Number', 'Integer', 'Float', 'Boolean', 'Date', 'DateTime', 'Time', 'CssSelectorType', 'XPathType']);
+
+const words = (list: string): string[] => list.split(/\s+/).filter(Boolean);
+
+interface TypeDefinition {
+  parents: string[];
+  properties: Set<string>;
+}
+
+const typeDefinitions = new Map<string, TypeDefinition>();
+const defineType = (type: string, parents: string[], properties: string[]) => {
+  // A type listed under several parents (e.g. StadiumOrArena) collects all of them
+  const existing = typeDefinitions.get(type);
+  if (existing) {
+    parents.filter(parent => !existing.parents.includes(parent)).forEach(parent => existing.parents.push(parent));
+    properties.forEach(property => existing.properties.add(property));
+    return;
+  }
+  typeDefinitions.set(type, { parents, properties: new Set(properties) });
+};
+Object.entries(TYPES).forEach(([type, [parents, properties]]) => defineType(type, words(parents), words(properties)));
+Object.entries(SIMPLE_SUBTYPES).forEach(([parent, types]) => words(types).forEach(type => defineType(type, [parent], [])));
+Object.entries(PLACEHOLDER_TYPES).forEach(([parent, types]) => words(types).forEach(type => defineType(type, [parent], [])));
+
+const propertyRanges = new Map<string, string[]>();
+Object.entries(PROPERTY_RANGES).forEach(([range, properties]) => {
+  words(properties).forEach(property => propertyRanges.set(property, words(range)));
+});
+
+const typesByLowerCase = new Map(Array.from(typeDefinitions.keys()).map(type => [type.toLowerCase(), type]));
+
+const ancestorCache = new Map<string, string[]>();
+const typePropertyCache = new Map<string, Set<string>>();
+
+export const isKnownType = (type: string): boolean => typeDefinitions.has(type);
+
+/**
+ * The known type a differently-cased name stands for, e.g. "localbusiness" → "LocalBusiness"
+ */
+export const findTypeSpelling = (type: string): string | undefined => {
+  const known = typesByLowerCase.get(type.toLowerCase());
+  return known !== type ? known : undefined;
+};
+
+export const isDataType = (type: string): boolean => DATA_TYPES.has(type);
+
+export const isKnownProperty = (property: string): boolean => propertyRanges.has(property);
+
+/**
+ * The type followed by all of its ancestors, nearest first, ending with Thing
+ */
+export const getTypeAncestors = (type: string): string[] => {
+  const cached = ancestorCache.get(type);
+  if (cached) return cached;
+
+  const ancestors: string[] = [];
+  const queue = [type];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (ancestors.includes(current)) continue;
+    ancestors.push(current);
+    queue.push(...(typeDefinitions.get(current)?.parents || []));
+  }
+  ancestorCache.set(type, ancestors);
+  return ancestors;
+};
+
+export const isSubtypeOf = (type: string, ancestor: string): boolean => getTypeAncestors(type).includes(ancestor);
+
+export const isEnumeration = (type: string): boolean => type !== 'Enumeration' && isSubtypeOf(type, 'Enumeration');
+
+/**
+ * Properties a type declares or inherits
+ */
+export const getTypeProperties = (type: string): Set<string> => {
+  const cached = typePropertyCache.get(type);
+  if (cached) return cached;
+
+  const properties = new Set<string>();
+  getTypeAncestors(type).forEach(ancestor => {
+    typeDefinitions.get(ancestor)?.properties.forEach(property => properties.add(property));
+  });
+  typePropertyCache.set(type, properties);
+  return properties;
+};
+
+/**
+ * Types a property's value is expected to have, e.g. author → ["Organization", "Person"]
+ */
+export const getExpectedTypes = (property: string): string[] => propertyRanges.get(property) || [];
+
+/**
+ * Types that declare the property themselves (not those that only inherit it)
+ */
+export const getPropertyDomains = (property: string): string[] => {
+  return Array.from(typeDefinitions.entries())
+    .filter(([, definition]) => definition.properties.has(property))
+    .map(([type]) => type);
+};
+
+export const getEnumerationMembers = (enumeration: string): string[] =>
+  Object.prototype.hasOwnProperty.call(ENUMERATION_MEMBERS, enumeration) ? words(ENUMERATION_MEMBERS[enumeration]) : [];
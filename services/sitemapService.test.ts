@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { SitemapEntry, filterSitemapEntries, parseSitemapXml } from './sitemapService';
+
+const SITEMAP_URL = 'https://example.com/sitemap.xml';
+
+describe('parseSitemapXml', () => {
+  it('reads <url> entries with their lastmod', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc> https://example.com/blog/hello </loc><lastmod>2026-03-01</lastmod></url>
+        <url><loc>/about</loc></url>
+        <url><lastmod>2026-03-02</lastmod></url>
+      </urlset>`;
+    expect(parseSitemapXml(xml, SITEMAP_URL)).toEqual({
+      sitemaps: [],
+      urls: [
+        { url: 'https://example.com/blog/hello', lastmod: '2026-03-01', sitemapUrl: SITEMAP_URL },
+        { url: 'https://example.com/about', lastmod: undefined, sitemapUrl: SITEMAP_URL }
+      ]
+    });
+  });
+
+  it('reads the child sitemaps of a sitemap index', () => {
+    const xml = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/sitemap-posts.xml.gz</loc></sitemap>
+      </sitemapindex>`;
+    expect(parseSitemapXml(xml, SITEMAP_URL).sitemaps.map(entry => entry.url)).toEqual(['https://example.com/sitemap-posts.xml.gz']);
+  });
+
+  it('rejects invalid XML and documents that are not sitemaps', () => {
+    expect(() => parseSitemapXml('<urlset><url></urlset>', SITEMAP_URL)).toThrow('not a valid XML sitemap');
+    expect(() => parseSitemapXml('<rss><channel /></rss>', SITEMAP_URL)).toThrow('root element <rss>');
+  });
+});
+
+describe('filterSitemapEntries', () => {
+  const entry = (path: string, lastmod?: string): SitemapEntry => ({ url: `https://example.com${path}`, lastmod, sitemapUrl: SITEMAP_URL });
+  const entries = [
+    entry('/blog/first-post', '2026-01-10'),
+    entry('/blog/second-post', '2026-03-15'),
+    entry('/products/widget', '2026-02-01'),
+    entry('/about'),
+    entry('/careers', '2025-12-01')
+  ];
+  const paths = (filtered: SitemapEntry[]) => filtered.map(item => new URL(item.url).pathname);
+
+  it('matches paths by substring, glob or regular expression', () => {
+    expect(paths(filterSitemapEntries(entries, { pathPattern: 'post' }))).toEqual(['/blog/first-post', '/blog/second-post']);
+    expect(paths(filterSitemapEntries(entries, { pathPattern: '/products/*' }))).toEqual(['/products/widget']);
+    expect(paths(filterSitemapEntries(entries, { pathPattern: '/^\\/(about|careers)$/' }))).toEqual(['/about', '/careers']);
+  });
+
+  it('filters by the page type the URL suggests, with "other" for unmatched URLs', () => {
+    expect(paths(filterSitemapEntries(entries, { pageTypes: ['Product', 'other'] }))).toEqual(['/products/widget', '/careers']);
+  });
+
+  it('keeps entries modified since a date and those without lastmod', () => {
+    expect(paths(filterSitemapEntries(entries, { modifiedSince: '2026-02-01' }))).toEqual(['/blog/second-post', '/products/widget', '/about']);
+  });
+});
@@ -0,0 +1,206 @@
+import { fetchThroughProxy, resolveUrl } from './pageScraperService';
+import { PageType, guessPageTypesFromUrl } from './pageTypeService';
+
+// Development-only logging utility
+const devLog = (...args: any[]) => {
+  if (process.env.NODE_ENV === 'development') {
+    console.log(...args);
+  }
+};
+
+// Limits from the sitemaps.org protocol, also used as a safety net against runaway indexes
+const MAX_SITEMAPS = 50;
+const MAX_URLS = 50000;
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+  sitemapUrl: string; // the sitemap file the entry was listed in
+}
+
+export interface ParsedSitemap {
+  sitemaps: SitemapEntry[]; // child sitemaps, when this is a sitemap index
+  urls: SitemapEntry[];
+}
+
+export interface SitemapLoadResult {
+  entries: SitemapEntry[];
+  sitemapsRead: number;
+  errors: string[]; // child sitemaps that could not be read; the rest are still returned
+}
+
+export interface SitemapLoadOptions {
+  signal?: AbortSignal;
+  maxSitemaps?: number;
+  maxUrls?: number;
+  onProgress?: (sitemapsRead: number, urlsFound: number) => void;
+}
+
+// 'other' selects URLs that none of the page-type rules match
+export type SitemapPageTypeFilter = PageType | 'other';
+
+export interface SitemapFilter {
+  pathPattern?: string; // substring, glob with * wildcards, or /regular expression/
+  pageTypes?: SitemapPageTypeFilter[];
+  modifiedSince?: string; // ISO date; entries without <lastmod> are kept
+}
+
+const isGzip = (bytes: Uint8Array): boolean => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/**
+ * Decodes a sitemap file, decompressing .xml.gz content. Servers that send gzip with
+ * Content-Encoding are already decompressed by the proxy; this handles gzip files served as-is.
+ */
+export const decodeSitemapBytes = async (buffer: ArrayBuffer): Promise<string> => {
+  const bytes = new Uint8Array(buffer);
+  if (!isGzip(bytes)) {
+    return new TextDecoder().decode(bytes);
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+const getChildText = (element: Element, localName: string): string | undefined => {
+  const child = Array.from(element.children).find(node => node.localName === localName);
+  const text = child?.textContent?.trim();
+  return text ? text : undefined;
+};
+
+const readEntries = (doc: Document, localName: string, sitemapUrl: string): SitemapEntry[] => {
+  return Array.from(doc.getElementsByTagNameNS('*', localName)).flatMap(element => {
+    const loc = getChildText(element, 'loc');
+    if (!loc) return [];
+    const url = resolveUrl(loc, sitemapUrl) || resolveUrl(loc, loc);
+    return url ? [{ url, lastmod: getChildText(element, 'lastmod'), sitemapUrl }] : [];
+  });
+};
+
+/**
+ * Parses a <urlset> or <sitemapindex> document
+ */
+export const parseSitemapXml = (xml: string, sitemapUrl: string): ParsedSitemap => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${sitemapUrl} is not a valid XML sitemap`);
+  }
+
+  const root = doc.documentElement.localName;
+  if (root !== 'urlset' && root !== 'sitemapindex') {
+    throw new Error(`${sitemapUrl} is not a sitemap (root element <${root}>)`);
+  }
+
+  return {
+    sitemaps: readEntries(doc, 'sitemap', sitemapUrl),
+    urls: readEntries(doc, 'url', sitemapUrl)
+  };
+};
+
+const fetchSitemap = async (url: string, signal?: AbortSignal): Promise<ParsedSitemap> => {
+  const response = await fetchThroughProxy(url, signal);
+  return parseSitemapXml(await decodeSitemapBytes(await response.arrayBuffer()), response.headers.get('x-final-url') || url);
+};
+
+/**
+ * Reads a sitemap from a URL or an uploaded file and expands sitemap indexes breadth-first.
+ * Child sitemaps of an uploaded index are fetched from the web.
+ */
+export const loadSitemap = async (
+  source: string | { fileName: string; buffer: ArrayBuffer; baseUrl?: string },
+  options: SitemapLoadOptions = {}
+): Promise<SitemapLoadResult> => {
+  const maxSitemaps = options.maxSitemaps ?? MAX_SITEMAPS;
+  const maxUrls = options.maxUrls ?? MAX_URLS;
+  const entries = new Map<string, SitemapEntry>();
+  const errors: string[] = [];
+  const seenSitemaps = new Set<string>();
+  let sitemapsRead = 0;
+
+  const addParsed = (parsed: ParsedSitemap, queue: string[]) => {
+    parsed.urls.forEach(entry => {
+      if (entries.size < maxUrls && !entries.has(entry.url)) entries.set(entry.url, entry);
+    });
+    parsed.sitemaps.forEach(child => {
+      if (!seenSitemaps.has(child.url)) {
+        seenSitemaps.add(child.url);
+        queue.push(child.url);
+      }
+    });
+    sitemapsRead++;
+    options.onProgress?.(sitemapsRead, entries.size);
+  };
+
+  const queue: string[] = [];
+  if (typeof source === 'string') {
+    seenSitemaps.add(source);
+    addParsed(await fetchSitemap(source, options.signal), queue);
+  } else {
+    const xml = await decodeSitemapBytes(source.buffer);
+    addParsed(parseSitemapXml(xml, source.baseUrl || `file:///${source.fileName}`), queue);
+  }
+
+  while (queue.length > 0 && sitemapsRead < maxSitemaps && entries.size < maxUrls) {
+    const next = queue.shift()!;
+    try {
+      addParsed(await fetchSitemap(next, options.signal), queue);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      devLog(`Skipping sitemap ${next}:`, error);
+      errors.push(`${next}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (queue.length > 0) {
+    errors.push(`Stopped after ${sitemapsRead} sitemaps; ${queue.length} more were not read`);
+  }
+
+  return { entries: Array.from(entries.values()), sitemapsRead, errors };
+};
+
+/**
+ * Builds a matcher for a path pattern: "/regex/", a glob with * wildcards, or a plain substring
+ */
+const buildPathMatcher = (pattern: string): ((pathname: string) => boolean) => {
+  const trimmed = pattern.trim();
+
+  const regexMatch = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    const regex = new RegExp(regexMatch[1], regexMatch[2]);
+    return pathname => regex.test(pathname);
+  }
+
+  if (trimmed.includes('*')) {
+    const escaped = trimmed.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    const glob = new RegExp(`^${escaped}$`);
+    return pathname => glob.test(pathname);
+  }
+
+  return pathname => pathname.includes(trimmed);
+};
+
+/**
+ * Narrows sitemap entries before they go into batch generation
+ */
+export const filterSitemapEntries = (entries: SitemapEntry[], filter: SitemapFilter): SitemapEntry[] => {
+  const matchesPath = filter.pathPattern?.trim() ? buildPathMatcher(filter.pathPattern) : null;
+  const since = filter.modifiedSince ? Date.parse(filter.modifiedSince) : NaN;
+
+  return entries.filter(entry => {
+    if (matchesPath && !matchesPath(new URL(entry.url).pathname)) return false;
+
+    if (filter.pageTypes && filter.pageTypes.length > 0) {
+      const guesses = guessPageTypesFromUrl(entry.url);
+      const matchesType = guesses.length === 0
+        ? filter.pageTypes.includes('other')
+        : guesses.some(guess => filter.pageTypes!.includes(guess));
+      if (!matchesType) return false;
+    }
+
+    if (!isNaN(since) && entry.lastmod) {
+      const modified = Date.parse(entry.lastmod);
+      if (!isNaN(modified) && modified < since) return false;
+    }
+
+    return true;
+  });
+};
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { extractStructuredData, parseJsonLdDocuments, splitJsonLdNodes } from './structuredDataExtractor';
+
+const BASE_URL = 'https://example.com/shop/widget';
+
+const parse = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+const schemasOf = (html: string) => extractStructuredData(parse(html), BASE_URL).map(item => JSON.parse(item.schema));
+
+describe('splitJsonLdNodes', () => {
+  it('splits arrays and @graph containers, passing the context down', () => {
+    const nodes = splitJsonLdNodes({
+      '@context': 'https://schema.org',
+      '@graph': [{ '@type': 'WebSite' }, [{ '@type': 'Organization', '@context': 'https://schema.org/' }]]
+    });
+    expect(nodes).toEqual([
+      { '@context': 'https://schema.org', '@type': 'WebSite' },
+      { '@type': 'Organization', '@context': 'https://schema.org/' }
+    ]);
+    expect(splitJsonLdNodes('text')).toEqual([]);
+  });
+});
+
+describe('parseJsonLdDocuments', () => {
+  it('reads documents back to back and keeps unparseable input for validation', () => {
+    const parsed = parseJsonLdDocuments('{"@type": "Product", "name": "a}b"}\n{"@type": "Offer"}');
+    expect(parsed.map(item => item.type)).toEqual(['Product', 'Offer']);
+    expect(parsed[0].source).toBe('imported');
+    expect(parseJsonLdDocuments('{"@type": "Product",')).toEqual([{ type: 'JSON-LD', schema: '{"@type": "Product",', source: 'imported' }]);
+    expect(parseJsonLdDocuments('   ')).toEqual([]);
+  });
+
+  it('reads the JSON-LD script blocks of pasted HTML', () => {
+    const parsed = parseJsonLdDocuments('<p>Hi</p><script type="application/ld+json">{"@type": "Event", "name": "Launch"}</script>');
+    expect(parsed).toEqual([expect.objectContaining({ type: 'Event', source: 'imported' })]);
+  });
+});
+
+describe('extractStructuredData', () => {
+  it('reads JSON-LD blocks, unwrapping comments and keeping broken blocks', () => {
+    const html = `
+      <script type="application/ld+json"><!-- {"@context": "https://schema.org", "@type": "Organization", "name": "Acme"} --></script>
+      <script type="Application/LD+JSON">{"@type": "Product",</script>`;
+    const [organization, broken] = extractStructuredData(parse(html), BASE_URL);
+    expect(organization).toMatchObject({ type: 'Organization', source: 'existing' });
+    expect(broken).toEqual({ type: 'JSON-LD', schema: '{"@type": "Product",', source: 'existing' });
+  });
+
+  it('reads Microdata items with nested items, URLs and repeated properties', () => {
+    const [product] = schemasOf(`
+      <div itemscope itemtype="https://schema.org/Product" itemid="#widget">
+        <h1 itemprop="name">Widget</h1>
+        <img itemprop="image" src="/img/1.jpg"><img itemprop="image" src="/img/2.jpg">
+        <p itemprop="constructor">Acme Works</p>
+        <div itemprop="offers" itemscope itemtype="http://schema.org/Offer">
+          <meta itemprop="price" content="19.99"><span itemprop="priceCurrency">USD</span>
+        </div>
+      </div>`);
+    expect(product).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      '@id': 'https://example.com/shop/widget#widget',
+      name: 'Widget',
+      image: ['https://example.com/img/1.jpg', 'https://example.com/img/2.jpg'],
+      constructor: 'Acme Works',
+      offers: { '@type': 'Offer', price: '19.99', priceCurrency: 'USD' }
+    });
+  });
+
+  it('reads RDFa resources and skips Open Graph properties', () => {
+    const schemas = schemasOf(`
+      <meta property="og:title" content="Widget">
+      <div vocab="https://schema.org/" typeof="Event">
+        <span property="name">Launch</span>
+        <time property="startDate" datetime="2026-05-01T18:00">1 May</time>
+        <div property="location" typeof="Place"><a property="url" href="/venue">Hall</a></div>
+      </div>`);
+    expect(schemas).toEqual([{
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      name: 'Launch',
+      startDate: '2026-05-01T18:00',
+      location: { '@type': 'Place', url: 'https://example.com/venue' }
+    }]);
+  });
+});
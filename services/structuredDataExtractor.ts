@@ -0,0 +1,271 @@
+import { SchemaObject, SchemaSource } from '../types';
+import { resolveUrl } from './pageScraperService';
+
+// Development-only logging utility
+const devLog = (...args: any[]) => {
+  if (process.env.NODE_ENV === 'development') {
+    console.log(...args);
+  }
+};
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Reduces a type or property IRI to its schema.org local name:
+ * "https://schema.org/Product", "http://schema.org/Product" and "schema:Product" all become "Product"
+ */
+const toLocalName = (value: string): string => {
+  const trimmed = value.trim();
+  const hashOrSlash = Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('#'));
+  if (hashOrSlash >= 0) return trimmed.substring(hashOrSlash + 1);
+  const colon = trimmed.indexOf(':');
+  return colon >= 0 ? trimmed.substring(colon + 1) : trimmed;
+};
+
+const splitTokens = (value: string | null): string[] =>
+  (value || '').split(/\s+/).filter(Boolean);
+
+const getFirstType = (node: JsonLdNode): string | undefined => {
+  const type = node['@type'];
+  if (Array.isArray(type)) return typeof type[0] === 'string' ? type[0] : undefined;
+  return typeof type === 'string' ? type : undefined;
+};
+
+const toSchemaObject = (node: JsonLdNode, source: SchemaSource = 'existing'): SchemaObject => ({
+  type: getFirstType(node) || 'Thing',
+  schema: JSON.stringify(node, null, 2),
+  source
+});
+
+// Appends a value, turning repeated properties into arrays
+const addPropertyValue = (node: JsonLdNode, name: string, value: unknown): void => {
+  if (!Object.prototype.hasOwnProperty.call(node, name)) {
+    node[name] = value;
+  } else if (Array.isArray(node[name])) {
+    (node[name] as unknown[]).push(value);
+  } else {
+    node[name] = [node[name], value];
+  }
+};
+
+/**
+ * Splits a parsed JSON-LD value into top-level nodes. Arrays and @graph containers
+ * yield one node per entry, each carrying the container's @context.
+ */
+export const splitJsonLdNodes = (value: unknown, inheritedContext?: unknown): JsonLdNode[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => splitJsonLdNodes(item, inheritedContext));
+  }
+  if (!value || typeof value !== 'object') return [];
+
+  const node = value as JsonLdNode;
+  const context = node['@context'] ?? inheritedContext;
+
+  if (Array.isArray(node['@graph'])) {
+    return splitJsonLdNodes(node['@graph'], context);
+  }
+
+  return [context && !node['@context'] ? { '@context': context, ...node } : node];
+};
+
+/**
+ * Splits text holding several JSON values back to back ({...}{...} or one per line)
+ * into the individual values. Returns null when the text is not a sequence of JSON values.
+ */
+const splitConcatenatedJson = (text: string): string[] | null => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth < 0) return null;
+      if (depth === 0) parts.push(text.substring(start, i + 1));
+    } else if (depth === 0 && !/[\s,]/.test(char)) {
+      return null;
+    }
+  }
+
+  return depth === 0 && parts.length > 1 ? parts : null;
+};
+
+/**
+ * Turns user-supplied JSON-LD into schema objects for validation. Accepts a single document,
+ * an array of documents, @graph containers, several documents back to back, or HTML containing
+ * <script type="application/ld+json"> blocks. Unparseable input is kept as-is so validation
+ * reports the syntax error.
+ */
+export const parseJsonLdDocuments = (text: string, source: SchemaSource = 'imported'): SchemaObject[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (/<script[^>]*application\/ld\+json/i.test(trimmed)) {
+    return extractJsonLd(new DOMParser().parseFromString(trimmed, 'text/html'))
+      .map(schema => ({ ...schema, source }));
+  }
+
+  try {
+    return splitJsonLdNodes(JSON.parse(trimmed)).map(node => toSchemaObject(node, source));
+  } catch {
+    const parts = splitConcatenatedJson(trimmed);
+    if (parts) {
+      return parts.flatMap(part => parseJsonLdDocuments(part, source));
+    }
+    return [{ type: 'JSON-LD', schema: trimmed, source }];
+  }
+};
+
+/**
+ * Reads <script type="application/ld+json"> blocks
+ */
+export const extractJsonLd = (doc: Document): SchemaObject[] => {
+  const results: SchemaObject[] = [];
+
+  doc.querySelectorAll('script[type="application/ld+json" i]').forEach(script => {
+    // CMSes sometimes wrap the JSON in comments or CDATA markers
+    const text = (script.textContent || '')
+      .replace(/^\s*(<!--|\/\/\s*<!\[CDATA\[)/, '')
+      .replace(/(-->|\/\/\s*\]\]>)\s*$/, '')
+      .trim();
+    if (!text) return;
+
+    try {
+      splitJsonLdNodes(JSON.parse(text)).forEach(node => results.push(toSchemaObject(node)));
+    } catch {
+      // Keep the broken block so validation can report the syntax error
+      results.push({ type: 'JSON-LD', schema: text, source: 'existing' });
+    }
+  });
+
+  return results;
+};
+
+// Attribute that holds a Microdata property's value, by element name
+const MICRODATA_URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href',
+  audio: 'src', embed: 'src', iframe: 'src', img: 'src', source: 'src', track: 'src', video: 'src',
+  object: 'data'
+};
+
+const getMicrodataValue = (element: Element, baseUrl: string): string | undefined => {
+  const tag = element.tagName.toLowerCase();
+
+  if (element.hasAttribute('content')) return element.getAttribute('content') || undefined;
+  if (Object.prototype.hasOwnProperty.call(MICRODATA_URL_ATTRIBUTES, tag)) {
+    return resolveUrl(element.getAttribute(MICRODATA_URL_ATTRIBUTES[tag]), baseUrl);
+  }
+  if (tag === 'data' || tag === 'meter') return element.getAttribute('value') || undefined;
+  if (tag === 'time' && element.hasAttribute('datetime')) return element.getAttribute('datetime') || undefined;
+
+  return element.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+};
+
+const readMicrodataItem = (item: Element, baseUrl: string): JsonLdNode => {
+  const types = splitTokens(item.getAttribute('itemtype')).map(toLocalName);
+  const node: JsonLdNode = {};
+  if (types.length > 0) node['@type'] = types.length === 1 ? types[0] : types;
+
+  const itemId = item.getAttribute('itemid');
+  if (itemId) node['@id'] = resolveUrl(itemId, baseUrl) || itemId;
+
+  item.querySelectorAll('[itemprop]').forEach(propertyElement => {
+    // Only direct properties: the nearest enclosing scope must be this item
+    if (propertyElement.parentElement?.closest('[itemscope]') !== item) return;
+
+    const value = propertyElement.hasAttribute('itemscope')
+      ? readMicrodataItem(propertyElement, baseUrl)
+      : getMicrodataValue(propertyElement, baseUrl);
+    if (value === undefined) return;
+
+    splitTokens(propertyElement.getAttribute('itemprop')).forEach(name => {
+      addPropertyValue(node, toLocalName(name), value);
+    });
+  });
+
+  return node;
+};
+
+/**
+ * Reads Microdata items (itemscope/itemtype/itemprop)
+ */
+export const extractMicrodata = (doc: Document, baseUrl: string): SchemaObject[] => {
+  return Array.from(doc.querySelectorAll('[itemscope]'))
+    .filter(item => !item.hasAttribute('itemprop'))
+    .map(item => toSchemaObject({ '@context': SCHEMA_CONTEXT, ...readMicrodataItem(item, baseUrl) }));
+};
+
+const getRdfaValue = (element: Element, baseUrl: string): string | undefined => {
+  if (element.hasAttribute('content')) return element.getAttribute('content') || undefined;
+
+  const iri = element.getAttribute('resource') || element.getAttribute('href') || element.getAttribute('src');
+  if (iri) return resolveUrl(iri, baseUrl);
+
+  if (element.hasAttribute('datetime')) return element.getAttribute('datetime') || undefined;
+
+  return element.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+};
+
+const readRdfaItem = (item: Element, baseUrl: string): JsonLdNode => {
+  const types = splitTokens(item.getAttribute('typeof')).map(toLocalName);
+  const node: JsonLdNode = {};
+  if (types.length > 0) node['@type'] = types.length === 1 ? types[0] : types;
+
+  const resource = item.getAttribute('resource') || item.getAttribute('about');
+  if (resource) node['@id'] = resolveUrl(resource, baseUrl) || resource;
+
+  item.querySelectorAll('[property]').forEach(propertyElement => {
+    if (propertyElement.parentElement?.closest('[typeof]') !== item) return;
+
+    const value = propertyElement.hasAttribute('typeof')
+      ? readRdfaItem(propertyElement, baseUrl)
+      : getRdfaValue(propertyElement, baseUrl);
+    if (value === undefined) return;
+
+    splitTokens(propertyElement.getAttribute('property')).forEach(name => {
+      addPropertyValue(node, toLocalName(name), value);
+    });
+  });
+
+  return node;
+};
+
+/**
+ * Reads RDFa (Lite) resources (vocab/typeof/property)
+ */
+export const extractRdfa = (doc: Document, baseUrl: string): SchemaObject[] => {
+  return Array.from(doc.querySelectorAll('[typeof]'))
+    // Open Graph and other non-schema.org vocabularies use property= without typeof; they are skipped here
+    .filter(item => !item.hasAttribute('property'))
+    .map(item => toSchemaObject({ '@context': SCHEMA_CONTEXT, ...readRdfaItem(item, baseUrl) }));
+};
+
+/**
+ * Extracts all structured data already present on the page as "existing" schema objects
+ */
+export const extractStructuredData = (doc: Document, baseUrl: string): SchemaObject[] => {
+  const results = [
+    ...extractJsonLd(doc),
+    ...extractMicrodata(doc, baseUrl),
+    ...extractRdfa(doc, baseUrl)
+  ];
+
+  devLog(`Found ${results.length} existing structured data item(s) on ${baseUrl}`);
+  return results;
+};
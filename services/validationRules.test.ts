@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { VALIDATION_RULES, getRuleSetting, parseRuleSet, resolveRuleSet, sanitizeRuleSet } from './validationRules';
+import { SchemaValidationService } from './schemaValidationService';
+
+describe('parseRuleSet', () => {
+  it('reads rule settings from JSON', () => {
+    expect(parseRuleSet('{"best-rating": "off", "description-length": "info"}')).toEqual({
+      'best-rating': 'off',
+      'description-length': 'info'
+    });
+  });
+
+  it('ignores unknown rules and settings, and invalid JSON', () => {
+    expect(parseRuleSet('{"best-rating": "loud", "no-such-rule": "off", "constructor": "off", "url-format": "warning"}')).toEqual({
+      'url-format': 'warning'
+    });
+    expect(parseRuleSet('["best-rating"]')).toEqual({});
+    expect(parseRuleSet('{best-rating: off}')).toEqual({});
+    expect(parseRuleSet(undefined)).toEqual({});
+  });
+});
+
+describe('sanitizeRuleSet', () => {
+  it('drops what is not a rule setting', () => {
+    expect(sanitizeRuleSet({ 'phone-format': 'error', 'email-format': 42, 'empty-value': null })).toEqual({ 'phone-format': 'error' });
+    expect(sanitizeRuleSet('off')).toEqual({});
+    expect(sanitizeRuleSet(null)).toEqual({});
+  });
+});
+
+describe('getRuleSetting', () => {
+  it('uses the rule set, then the default severity', () => {
+    expect(getRuleSetting('best-rating', { 'best-rating': 'off' })).toBe('off');
+    expect(getRuleSetting('best-rating')).toBe(VALIDATION_RULES['best-rating'].severity);
+  });
+
+  it('ignores invalid profile settings once resolved', () => {
+    const resolved = resolveRuleSet({ 'best-rating': 'loud' } as never);
+    expect(getRuleSetting('best-rating', resolved)).toBe(VALIDATION_RULES['best-rating'].severity);
+  });
+});
+
+describe('rule sets in validation', () => {
+  const schema = {
+    type: 'Organization',
+    schema: JSON.stringify({ '@context': 'https://schema.org', '@type': 'Organization', name: 'Example', url: 'example.com' })
+  };
+  const urlIssues = (result: ReturnType<typeof SchemaValidationService.validateSchema>) => ({
+    errors: result.errors.filter(issue => issue.rule === 'url-format').length,
+    warnings: result.warnings.filter(issue => issue.rule === 'url-format').length
+  });
+
+  it('changes the severity of an issue or turns it off', () => {
+    expect(urlIssues(SchemaValidationService.validateSchema(schema))).toEqual({ errors: 1, warnings: 0 });
+    expect(urlIssues(SchemaValidationService.validateSchema(schema, { 'url-format': 'warning' }))).toEqual({ errors: 0, warnings: 1 });
+    expect(urlIssues(SchemaValidationService.validateSchema(schema, { 'url-format': 'off' }))).toEqual({ errors: 0, warnings: 0 });
+  });
+
+  it('keeps issues whose profile setting is invalid at their default severity', () => {
+    const result = SchemaValidationService.validateSchema(schema, { 'url-format': 'loud' } as never);
+    expect(urlIssues(result)).toEqual({ errors: 1, warnings: 0 });
+  });
+});
@@ -0,0 +1,161 @@
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+// What a rule set does with a rule: report it at another severity, or not at all
+export type RuleSetting = RuleSeverity | 'off';
+
+export type ValidationRuleCategory = 'structure' | 'vocabulary' | 'format' | 'dates' | 'types' | 'content' | 'page';
+
+export type ValidationRuleId =
+  | 'json-syntax' | 'no-entities' | 'validation-failed' | 'missing-context' | 'context-value' | 'missing-type'
+  | 'missing-id' | 'type-mismatch' | 'undefined-reference' | 'required-property' | 'recommended-property'
+  | 'unknown-type' | 'unknown-property' | 'property-domain' | 'value-type' | 'text-for-object'
+  | 'enumeration-value' | 'enumeration-form' | 'employment-type'
+  | 'url-format' | 'email-format' | 'image-extension' | 'phone-format' | 'price-format' | 'currency-code'
+  | 'postal-code' | 'rating-range' | 'best-rating'
+  | 'date-format' | 'date-modified-order' | 'future-date' | 'event-date-order' | 'event-timezone'
+  | 'author-object' | 'offer-price' | 'breadcrumb-item-name' | 'faq-question' | 'faq-answer' | 'howto-step-name'
+  | 'review-rating' | 'address-completeness'
+  | 'empty-value' | 'description-length' | 'name-length' | 'headline-length' | 'name-headline-identical'
+  | 'placeholder-content' | 'keyword-stuffing'
+  | 'schema-conflict' | 'site-identity' | 'article-essentials' | 'product-commercial' | 'organization-contact'
+  | 'too-many-schemas' | 'too-few-schemas';
+
+export interface ValidationRule {
+  id: ValidationRuleId;
+  category: ValidationRuleCategory;
+  severity: RuleSeverity; // default severity, before any rule set
+  description: string;
+  docUrl: string;
+}
+
+// Rule settings by ID; rules that are not listed keep their default severity
+export type ValidationRuleSet = Partial<Record<ValidationRuleId, RuleSetting>>;
+
+export const RULE_CATEGORY_LABELS: Record<ValidationRuleCategory, string> = {
+  structure: 'JSON-LD structure',
+  vocabulary: 'schema.org vocabulary',
+  format: 'Value formats',
+  dates: 'Dates and times',
+  types: 'Type-specific rules',
+  content: 'Content quality',
+  page: 'Page-level checks'
+};
+
+const GOOGLE_DOCS = 'https://developers.google.com/search/docs/appearance/structured-data';
+
+const rule = (
+  id: ValidationRuleId,
+  category: ValidationRuleCategory,
+  severity: RuleSeverity,
+  description: string,
+  docUrl: string
+): ValidationRule => ({ id, category, severity, description, docUrl });
+
+const RULES: ValidationRule[] = [
+  rule('json-syntax', 'structure', 'error', 'The schema must be valid JSON', 'https://www.json.org/json-en.html'),
+  rule('no-entities', 'structure', 'error', 'The document must contain at least one entity', 'https://www.w3.org/TR/json-ld11/#basic-concepts'),
+  rule('validation-failed', 'structure', 'error', 'The schema has a shape the validator could not process', 'https://www.w3.org/TR/json-ld11/#basic-concepts'),
+  rule('missing-context', 'structure', 'error', 'Top-level entities need an @context', 'https://www.w3.org/TR/json-ld11/#the-context'),
+  rule('context-value', 'structure', 'warning', '@context should be "https://schema.org"', 'https://schema.org/docs/gs.html'),
+  rule('missing-type', 'structure', 'error', 'Entities need an @type', 'https://www.w3.org/TR/json-ld11/#specifying-the-type'),
+  rule('missing-id', 'structure', 'warning', 'Top-level entities should have an @id', 'https://www.w3.org/TR/json-ld11/#node-identifiers'),
+  rule('type-mismatch', 'structure', 'warning', 'The entity should be of the schema type it was generated or imported as', 'https://schema.org/docs/full.html'),
+  rule('undefined-reference', 'structure', 'warning', '{"@id": ...} references must point at an entity defined on the same page', 'https://www.w3.org/TR/json-ld11/#node-identifiers'),
+  rule('required-property', 'structure', 'error', 'Properties the type requires must be present', `${GOOGLE_DOCS}/sd-policies`),
+  rule('recommended-property', 'structure', 'warning', 'Properties recommended for the type should be present', `${GOOGLE_DOCS}/sd-policies`),
+
+  rule('unknown-type', 'vocabulary', 'warning', '@type must be spelled as the schema.org type it names', 'https://schema.org/docs/full.html'),
+  rule('unknown-property', 'vocabulary', 'warning', 'Properties must exist in schema.org', 'https://schema.org/docs/full.html'),
+  rule('property-domain', 'vocabulary', 'warning', 'Properties must be defined for the entity\'s type or one of its ancestors', 'https://schema.org/docs/datamodel.html'),
+  rule('value-type', 'vocabulary', 'warning', 'Values must have one of the property\'s expected types', 'https://schema.org/docs/datamodel.html'),
+  rule('text-for-object', 'vocabulary', 'info', 'Properties that expect an entity are better described as one than as plain text', 'https://schema.org/docs/datamodel.html'),
+  rule('enumeration-value', 'vocabulary', 'warning', 'Enumeration properties must use one of the enumeration\'s members', 'https://schema.org/Enumeration'),
+  rule('enumeration-form', 'vocabulary', 'info', 'Enumeration members should be written as full https://schema.org URLs', 'https://schema.org/Enumeration'),
+  rule('employment-type', 'vocabulary', 'warning', 'employmentType should use Google\'s values such as FULL_TIME', `${GOOGLE_DOCS}/job-posting`),
+
+  rule('url-format', 'format', 'error', 'URLs must be absolute http(s) URLs', `${GOOGLE_DOCS}/sd-policies`),
+  rule('email-format', 'format', 'error', 'Email addresses must be well-formed', 'https://schema.org/email'),
+  rule('image-extension', 'format', 'warning', 'Image URLs should point at a JPG, PNG, GIF, WebP or SVG file', 'https://developers.google.com/search/docs/appearance/google-images'),
+  rule('phone-format', 'format', 'warning', 'Phone numbers should use the international format', 'https://schema.org/telephone'),
+  rule('price-format', 'format', 'error', 'Prices must be plain numbers such as 19.99', `${GOOGLE_DOCS}/product`),
+  rule('currency-code', 'format', 'error', 'Currencies must be 3-letter ISO 4217 codes', 'https://www.iso.org/iso-4217-currency-codes.html'),
+  rule('postal-code', 'format', 'warning', 'Postal codes should look like a postal code', 'https://schema.org/postalCode'),
+  rule('rating-range', 'format', 'warning', 'Rating values should be within the usual 1-5 range', `${GOOGLE_DOCS}/review-snippet`),
+  rule('best-rating', 'format', 'warning', 'bestRating should be 5 for a 5-star scale', `${GOOGLE_DOCS}/review-snippet`),
+
+  rule('date-format', 'dates', 'error', 'Dates, times and durations must be ISO 8601', 'https://schema.org/Date'),
+  rule('date-modified-order', 'dates', 'warning', 'dateModified must not be before datePublished', `${GOOGLE_DOCS}/article`),
+  rule('future-date', 'dates', 'warning', 'Publication dates must not be in the future', `${GOOGLE_DOCS}/article`),
+  rule('event-date-order', 'dates', 'error', 'An event\'s endDate must not be before its startDate', `${GOOGLE_DOCS}/event`),
+  rule('event-timezone', 'dates', 'warning', 'Event dates and times should include a UTC offset', `${GOOGLE_DOCS}/event`),
+
+  rule('author-object', 'types', 'warning', 'Authors should be Person or Organization entities, not plain text', `${GOOGLE_DOCS}/article`),
+  rule('offer-price', 'types', 'warning', 'Product offers should include a price', `${GOOGLE_DOCS}/product`),
+  rule('breadcrumb-item-name', 'types', 'error', 'Breadcrumb items need a name', `${GOOGLE_DOCS}/breadcrumb`),
+  rule('faq-question', 'types', 'error', 'FAQ entries must be Question entities with the question in "name"', `${GOOGLE_DOCS}/faqpage`),
+  rule('faq-answer', 'types', 'error', 'FAQ questions need an acceptedAnswer with "text"', `${GOOGLE_DOCS}/faqpage`),
+  rule('howto-step-name', 'types', 'error', 'HowTo steps need a name', 'https://schema.org/HowToStep'),
+  rule('review-rating', 'types', 'error', 'Review ratings need ratingValue and bestRating', `${GOOGLE_DOCS}/review-snippet`),
+  rule('address-completeness', 'types', 'warning', 'Addresses should include streetAddress and addressLocality', `${GOOGLE_DOCS}/local-business`),
+
+  rule('empty-value', 'content', 'warning', 'Properties should not be empty strings', `${GOOGLE_DOCS}/sd-policies`),
+  rule('description-length', 'content', 'warning', 'Descriptions should be 50-160 characters long', 'https://schema.org/description'),
+  rule('name-length', 'content', 'warning', 'Names should be under 100 characters', 'https://schema.org/name'),
+  rule('headline-length', 'content', 'warning', 'Article headlines should be under 110 characters', `${GOOGLE_DOCS}/article`),
+  rule('name-headline-identical', 'content', 'info', 'name and headline should not repeat each other', 'https://schema.org/headline'),
+  rule('placeholder-content', 'content', 'warning', 'Values should not be placeholder text such as "lorem ipsum"', `${GOOGLE_DOCS}/sd-policies`),
+  rule('keyword-stuffing', 'content', 'warning', 'Descriptions should not repeat the same words over and over', `${GOOGLE_DOCS}/sd-policies`),
+
+  rule('schema-conflict', 'page', 'warning', 'A page should not mix schema types that describe it differently', `${GOOGLE_DOCS}/sd-policies`),
+  rule('site-identity', 'page', 'info', 'Pages should describe the site with Organization or WebSite markup', `${GOOGLE_DOCS}/organization`),
+  rule('article-essentials', 'page', 'warning', 'Articles should have headline, author and datePublished', `${GOOGLE_DOCS}/article`),
+  rule('product-commercial', 'page', 'warning', 'Products should have offers, price or availability', `${GOOGLE_DOCS}/product`),
+  rule('organization-contact', 'page', 'warning', 'Organizations should have an address and contact point', `${GOOGLE_DOCS}/organization`),
+  rule('too-many-schemas', 'page', 'warning', 'A page should have no more than 10 schema types', `${GOOGLE_DOCS}/sd-policies`),
+  rule('too-few-schemas', 'page', 'info', 'A page usually benefits from more than one schema type', `${GOOGLE_DOCS}/intro-structured-data`)
+];
+
+export const VALIDATION_RULES = Object.fromEntries(RULES.map(definition => [definition.id, definition])) as Record<ValidationRuleId, ValidationRule>;
+
+const RULE_SETTINGS: RuleSetting[] = ['error', 'warning', 'info', 'off'];
+
+/**
+ * Keeps the known rule IDs and settings of a value that should be a rule set, such as a profile
+ * loaded from storage. Anything else is dropped so an outdated config does not break validation.
+ */
+export const sanitizeRuleSet = (value: unknown): ValidationRuleSet => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter(([id, setting]) =>
+    Object.prototype.hasOwnProperty.call(VALIDATION_RULES, id) && RULE_SETTINGS.includes(setting as RuleSetting)));
+};
+
+/**
+ * Reads a rule set from JSON such as {"best-rating": "off", "description-length": "info"}.
+ * Unknown rule IDs and settings are ignored.
+ */
+export const parseRuleSet = (json: string | undefined): ValidationRuleSet => {
+  if (!json || !json.trim()) return {};
+  try {
+    return sanitizeRuleSet(JSON.parse(json));
+  } catch {
+    return {};
+  }
+};
+
+// The team's rule set, configured with VITE_VALIDATION_RULES; profile rule sets apply on top of it
+export const TEAM_RULE_SET: ValidationRuleSet = parseRuleSet(process.env.VITE_VALIDATION_RULES);
+
+/**
+ * Team rule set with a profile's valid settings over it
+ */
+export const resolveRuleSet = (profileRuleSet?: ValidationRuleSet): ValidationRuleSet => ({
+  ...TEAM_RULE_SET,
+  ...sanitizeRuleSet(profileRuleSet)
+});
+
+/**
+ * How a rule is reported under a rule set
+ */
+export const getRuleSetting = (id: ValidationRuleId, ruleSet: ValidationRuleSet = {}): RuleSetting => {
+  return ruleSet[id] || VALIDATION_RULES[id].severity;
+};
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import WebsiteProfileService, { WebsiteProfile } from './websiteProfileService';
+
+const profile = (id: string, url: string, isDefault = false): WebsiteProfile => ({
+  id,
+  name: id,
+  url,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  isDefault
+});
+
+const useProfiles = (profiles: WebsiteProfile[]) => {
+  vi.spyOn(WebsiteProfileService, 'getProfiles').mockReturnValue(profiles);
+};
+
+describe('WebsiteProfileService.findProfileForUrl', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prefers an exact URL match', () => {
+    useProfiles([profile('site', 'https://example.com/'), profile('page', 'https://example.com/shop/widget')]);
+    expect(WebsiteProfileService.findProfileForUrl('https://example.com/shop/widget')).toEqual({
+      profile: expect.objectContaining({ id: 'page' }),
+      reason: 'url'
+    });
+  });
+
+  it('picks the longest path prefix on the same site, with or without www', () => {
+    useProfiles([
+      profile('site', 'https://example.com/'),
+      profile('shop', 'https://www.example.com/shop/'),
+      profile('other', 'https://other.com/shop/')
+    ]);
+    expect(WebsiteProfileService.findProfileForUrl('https://example.com/shop/widget')?.profile.id).toBe('shop');
+    expect(WebsiteProfileService.findProfileForUrl('https://example.com/blog/post')?.profile.id).toBe('site');
+  });
+
+  it('matches whole path segments only', () => {
+    useProfiles([profile('shop', 'https://example.com/shop'), profile('fallback', 'https://other.com/', true)]);
+    expect(WebsiteProfileService.findProfileForUrl('https://example.com/shopping')).toEqual({
+      profile: expect.objectContaining({ id: 'fallback' }),
+      reason: 'default'
+    });
+  });
+
+  it('returns null without a match or a default profile', () => {
+    useProfiles([profile('other', 'https://other.com/')]);
+    expect(WebsiteProfileService.findProfileForUrl('https://example.com/')).toBeNull();
+  });
+});
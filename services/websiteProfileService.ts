@@ -1,3 +1,6 @@
+import { EntityIdPolicy } from './entityIdService';
+import { ValidationRuleSet, sanitizeRuleSet } from './validationRules';
+
 export interface WebsiteProfile {
   id: string;
   url: string;
@@ -36,6 +39,12 @@ export interface WebsiteProfile {
     linkedin?: string;
     youtube?: string;
   };
+  // @id templates that override DEFAULT_ID_POLICY for this site
+  idPolicy?: Partial<EntityIdPolicy>;
+  // Validation rule settings for this site, over the team's rule set
+  validationRules?: ValidationRuleSet;
+  // Scraped values the user rejected in the merge dialog, as "<proposal id>=<value>"
+  dismissedScrapedValues?: string[];
   createdAt: string;
   updatedAt: string;
   isDefault?: boolean;
@@ -43,12 +52,14 @@ export interface WebsiteProfile {
 
 export interface ScrapedWebsiteData {
   url: string;
+  canonicalUrl?: string;
   title?: string;
   description?: string;
   author?: string;
   publishDate?: string;
   modifiedDate?: string;
   images?: string[];
+  socialLinks?: string[];
   organization?: string;
   breadcrumbs?: Array<{ name: string; url: string }>;
   faqs?: Array<{ question: string; answer: string }>;
@@ -68,6 +79,45 @@ export interface ScrapedWebsiteData {
   }>;
 }
 
+export type SocialPlatform = keyof NonNullable<WebsiteProfile['socialProfiles']>;
+
+export type ProfileMergeField = 'name' | 'description' | 'author' | 'organization' | 'defaultImage' | 'socialProfile' | 'sameAs';
+
+// One profile value that scraped data could fill or replace
+export interface ProfileMergeProposal {
+  id: string; // stable key, e.g. "name" or "socialProfile:twitter"
+  field: ProfileMergeField;
+  label: string;
+  current?: string;
+  candidates: string[]; // scraped values, best guess first
+  platform?: SocialPlatform;
+}
+
+// accept: use the scraped value; keep: leave the profile as is and ask again next time;
+// reject: leave the profile as is and stop offering this scraped value
+export type ProfileMergeAction = 'accept' | 'reject' | 'keep';
+
+export interface ProfileMergeDecision {
+  action: ProfileMergeAction;
+  value?: string; // the chosen candidate when accepting, defaults to the first
+}
+
+const SOCIAL_PLATFORM_HOSTS: Record<SocialPlatform, RegExp> = {
+  facebook: /(^|\.)facebook\.com$/i,
+  twitter: /(^|\.)(twitter|x)\.com$/i,
+  instagram: /(^|\.)instagram\.com$/i,
+  linkedin: /(^|\.)linkedin\.com$/i,
+  youtube: /(^|\.)youtube\.com$/i
+};
+
+// How a profile was chosen for a generation run
+export type ProfileMatchReason = 'manual' | 'url' | 'default';
+
+export interface ProfileMatch {
+  profile: WebsiteProfile;
+  reason: ProfileMatchReason;
+}
+
 class WebsiteProfileService {
   private static readonly STORAGE_KEY = 'seo-schema-generator-profiles';
   private static readonly SCRAPED_DATA_KEY = 'seo-schema-generator-scraped-data';
@@ -84,7 +134,13 @@ class WebsiteProfileService {
       const stored = localStorage.getItem(this.STORAGE_KEY);
       if (!stored) return [];
       const parsed = JSON.parse(stored);
-      return Array.isArray(parsed) ? parsed : [];
+      if (!Array.isArray(parsed)) return [];
+      // Rule sets saved by older versions may name rules or settings that no longer exist
+      return parsed.map((profile: WebsiteProfile) => (
+        profile && profile.validationRules !== undefined
+          ? { ...profile, validationRules: sanitizeRuleSet(profile.validationRules) }
+          : profile
+      ));
     } catch (error) {
       console.error('Error loading profiles:', error);
       return [];
@@ -150,47 +206,154 @@ class WebsiteProfileService {
   }
 
   /**
-   * Update profile from scraped data
+   * Update profile from scraped data, filling only fields that are still empty
    */
   static updateProfileFromScrapedData(url: string, scrapedData: Partial<ScrapedWebsiteData>): WebsiteProfile | null {
     const existingProfile = this.getProfileByUrl(url);
 
     if (!existingProfile) return null;
 
-    const updatedProfile: WebsiteProfile = {
-      ...existingProfile,
-      updatedAt: new Date().toISOString(),
-    };
+    const proposals = this.getMergeProposals(existingProfile, scrapedData);
+    const decisions: Record<string, ProfileMergeDecision> = {};
+    proposals.forEach(proposal => {
+      decisions[proposal.id] = { action: proposal.current ? 'keep' : 'accept' };
+    });
 
-    // Update from scraped data if available
-    if (scrapedData.title && !updatedProfile.name) {
-      updatedProfile.name = scrapedData.title;
-    }
+    const updatedProfile = this.applyMergeDecisions(existingProfile, proposals, decisions);
+    this.saveProfile(updatedProfile);
+    return updatedProfile;
+  }
 
-    if (scrapedData.description && !updatedProfile.description) {
-      updatedProfile.description = scrapedData.description;
+  /**
+   * Which social network a profile link belongs to, if it is one the profile has a field for
+   */
+  static detectSocialPlatform(url: string): SocialPlatform | null {
+    try {
+      const hostname = new URL(url).hostname;
+      const platform = (Object.keys(SOCIAL_PLATFORM_HOSTS) as SocialPlatform[])
+        .find(candidate => SOCIAL_PLATFORM_HOSTS[candidate].test(hostname));
+      return platform || null;
+    } catch {
+      return null;
     }
+  }
 
-    if (scrapedData.author && !updatedProfile.author?.name) {
-      updatedProfile.author = {
-        ...updatedProfile.author,
-        name: scrapedData.author,
-      };
-    }
+  /**
+   * Scraped values that differ from the stored profile, one proposal per profile field.
+   * Values the user rejected before are left out.
+   */
+  static getMergeProposals(profile: WebsiteProfile, scrapedData: Partial<ScrapedWebsiteData>): ProfileMergeProposal[] {
+    const dismissed = new Set(profile.dismissedScrapedValues || []);
+    const proposals: ProfileMergeProposal[] = [];
+
+    const propose = (proposal: Omit<ProfileMergeProposal, 'candidates'>, values: Array<string | undefined>) => {
+      const candidates = Array.from(new Set(values.map(value => value?.trim()).filter((value): value is string => !!value)))
+        .filter(value => value !== proposal.current && !dismissed.has(`${proposal.id}=${value}`));
+      if (candidates.length > 0) {
+        proposals.push({ ...proposal, candidates });
+      }
+    };
 
-    if (scrapedData.organization && !updatedProfile.organization?.name) {
-      updatedProfile.organization = {
-        ...updatedProfile.organization,
-        name: scrapedData.organization,
-      };
-    }
+    propose({ id: 'name', field: 'name', label: 'Website name', current: profile.name }, [scrapedData.organization, scrapedData.title]);
+    propose({ id: 'description', field: 'description', label: 'Description', current: profile.description }, [scrapedData.description]);
+    propose({ id: 'author', field: 'author', label: 'Author', current: profile.author?.name }, [scrapedData.author]);
+    propose({ id: 'organization', field: 'organization', label: 'Organization', current: profile.organization?.name }, [scrapedData.organization]);
+    propose({ id: 'defaultImage', field: 'defaultImage', label: 'Default image', current: profile.defaultImage }, scrapedData.images || []);
+
+    const socialLinks = scrapedData.socialLinks || [];
+    (Object.keys(SOCIAL_PLATFORM_HOSTS) as SocialPlatform[]).forEach(platform => {
+      const links = socialLinks.filter(link => this.detectSocialPlatform(link) === platform);
+      propose({
+        id: `socialProfile:${platform}`,
+        field: 'socialProfile',
+        label: `${platform.charAt(0).toUpperCase()}${platform.slice(1)} profile`,
+        current: profile.socialProfiles?.[platform],
+        platform
+      }, links);
+    });
+
+    const sameAs = new Set(profile.organization?.sameAs || []);
+    socialLinks.filter(link => !sameAs.has(link)).forEach(link => {
+      propose({ id: `sameAs:${link}`, field: 'sameAs', label: 'sameAs link' }, [link]);
+    });
+
+    return proposals;
+  }
 
-    if (scrapedData.images && scrapedData.images.length > 0 && !updatedProfile.defaultImage) {
-      updatedProfile.defaultImage = scrapedData.images[0];
-    }
+  /**
+   * Applies accept/reject/keep decisions to a copy of the profile; rejected values are remembered
+   * so they are not offered again. The caller saves the result.
+   */
+  static applyMergeDecisions(
+    profile: WebsiteProfile,
+    proposals: ProfileMergeProposal[],
+    decisions: Record<string, ProfileMergeDecision>
+  ): WebsiteProfile {
+    const updated: WebsiteProfile = {
+      ...profile,
+      updatedAt: new Date().toISOString()
+    };
+    const dismissed = new Set(profile.dismissedScrapedValues || []);
 
-    this.saveProfile(updatedProfile);
-    return updatedProfile;
+    proposals.forEach(proposal => {
+      const decision = decisions[proposal.id];
+      if (!decision || decision.action === 'keep') return;
+
+      const value = decision.value && proposal.candidates.includes(decision.value) ? decision.value : proposal.candidates[0];
+      if (decision.action === 'reject') {
+        dismissed.add(`${proposal.id}=${value}`);
+        return;
+      }
+
+      switch (proposal.field) {
+        case 'name':
+          updated.name = value;
+          break;
+        case 'description':
+          updated.description = value;
+          break;
+        case 'author':
+          updated.author = { ...updated.author, name: value };
+          break;
+        case 'organization':
+          updated.organization = { ...updated.organization, name: value };
+          break;
+        case 'defaultImage':
+          updated.defaultImage = value;
+          break;
+        case 'socialProfile':
+          if (proposal.platform) {
+            updated.socialProfiles = { ...updated.socialProfiles, [proposal.platform]: value };
+          }
+          break;
+        case 'sameAs':
+          // sameAs lives on the organization, so it needs one to attach to
+          updated.organization = {
+            ...updated.organization,
+            name: updated.organization?.name || updated.name,
+            sameAs: Array.from(new Set([...(updated.organization?.sameAs || []), value]))
+          };
+          break;
+      }
+    });
+
+    updated.dismissedScrapedValues = dismissed.size > 0 ? Array.from(dismissed) : undefined;
+    return updated;
+  }
+
+  /**
+   * Scraped pages on the profile's domain, the profile URL itself first, then the most recent
+   */
+  static getScrapedDataForProfile(profile: WebsiteProfile): Array<ScrapedWebsiteData & { scrapedAt?: string }> {
+    const hostname = this.extractDomain(profile.url).replace(/^www\./, '');
+    return Object.entries(this.getScrapedData())
+      .filter(([url]) => this.extractDomain(url).replace(/^www\./, '') === hostname)
+      .map(([url, data]) => ({ ...data, url: data.url || url }))
+      .sort((a, b) => {
+        if (a.url === profile.url) return -1;
+        if (b.url === profile.url) return 1;
+        return (b.scrapedAt || '').localeCompare(a.scrapedAt || '');
+      });
   }
 
   /**
@@ -299,6 +462,50 @@ class WebsiteProfileService {
   static getProfilesByDomain(domain: string): WebsiteProfile[] {
     return this.getProfiles().filter(p => this.extractDomain(p.url) === domain);
   }
+
+  /**
+   * Find the profile to apply to a page: an exact URL match, otherwise the profile on the
+   * same domain whose URL is the longest path prefix of the page URL, otherwise the default profile
+   */
+  static findProfileForUrl(url: string): ProfileMatch | null {
+    const exact = this.getProfileByUrl(url);
+    if (exact) return { profile: exact, reason: 'url' };
+
+    const target = this.normalizeForMatching(url);
+    if (target) {
+      const hostname = this.extractDomain(url);
+      const alternateHostname = hostname.startsWith('www.') ? hostname.slice(4) : `www.${hostname}`;
+      const candidates = [...this.getProfilesByDomain(hostname), ...this.getProfilesByDomain(alternateHostname)];
+
+      let best: { profile: WebsiteProfile; length: number } | null = null;
+      for (const profile of candidates) {
+        const prefix = this.normalizeForMatching(profile.url);
+        if (!prefix || prefix.host !== target.host) continue;
+        // Match whole path segments so /shop does not claim /shopping
+        const isPrefix = prefix.path === '/' || target.path === prefix.path || target.path.startsWith(`${prefix.path}/`);
+        if (isPrefix && (!best || prefix.path.length > best.length)) {
+          best = { profile, length: prefix.path.length };
+        }
+      }
+      if (best) return { profile: best.profile, reason: 'url' };
+    }
+
+    const defaultProfile = this.getDefaultProfile();
+    return defaultProfile ? { profile: defaultProfile, reason: 'default' } : null;
+  }
+
+  /**
+   * Host without "www." and path without a trailing slash, for prefix matching
+   */
+  private static normalizeForMatching(url: string): { host: string; path: string } | null {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.replace(/\/+$/, '') || '/';
+      return { host: parsed.hostname.toLowerCase().replace(/^www\./, ''), path: path.toLowerCase() };
+    } catch {
+      return null;
+    }
+  }
 }
 
 export default WebsiteProfileService;
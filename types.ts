@@ -0,0 +1,14 @@
+// Where a schema came from: produced by the generator, already present in the page markup,
+// or pasted/uploaded by the user for validation
+export type SchemaSource = 'generated' | 'existing' | 'imported';
+
+export interface SchemaObject {
+  type: string;
+  schema: string;
+  source?: SchemaSource;
+}
+
+// What to analyze: a live URL, or HTML supplied directly (pasted or uploaded) with the URL it belongs to
+export type PageInput =
+  | { kind: 'url'; url: string }
+  | { kind: 'html'; html: string; baseUrl: string; fileName?: string };
@@ -1,17 +1,146 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PAGE_FETCH_USER_AGENT = 'Mozilla/5.0 (compatible; SEOSchemaGenerator/2.0; +https://schema-generator.paretoid.com/)';
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (incl. cloud metadata at 169.254.169.254), CGNAT, multicast and reserved ranges
+const isPrivateAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6, which URL normalises to hex (::ffff:127.0.0.1 -> ::ffff:7f00:1)
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (mappedHex) {
+    const [high, low] = mappedHex.slice(1).map(group => parseInt(group, 16));
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 100 && b >= 64 && b <= 127);
+  }
+  const lower = address.toLowerCase();
+  return lower === '::' || lower === '::1'
+    || /^f[cd]/.test(lower) // fc00::/7 unique local
+    || /^fe[89ab]/.test(lower) // fe80::/10 link-local
+    || /^ff/.test(lower); // multicast
+};
+
+/**
+ * Throws unless the URL is http(s) and its host resolves only to public addresses, so the proxy
+ * cannot be used to reach the machine it runs on or its network. PAGE_FETCH_ALLOW_PRIVATE=true
+ * lifts the address check, e.g. to crawl the local test site.
+ */
+const assertPublicTarget = async (url: URL, allowPrivate: boolean): Promise<void> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error(`Unsupported protocol ${url.protocol}`);
+  if (allowPrivate) return;
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${url.host}: it resolves to a private or local address`);
+  }
+};
+
+// Fetches public pages server-side so the browser can read them without CORS restrictions.
+// Redirects are followed one at a time so every hop is checked. Usage: GET /api/fetch?url=https%3A%2F%2Fexample.com%2F
+const createPageFetchHandler = (allowPrivate: boolean) => async (req: IncomingMessage, res: ServerResponse) => {
+  const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url');
+
+  if (!target || !/^https?:\/\//i.test(target)) {
+    res.statusCode = 400;
+    res.end('Missing or invalid "url" query parameter');
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  let current: URL;
+  try {
+    current = new URL(target);
+  } catch {
+    res.statusCode = 400;
+    res.end('Missing or invalid "url" query parameter');
+    return;
+  }
+
+  try {
+    let upstream: Response;
+    for (let redirects = 0; ; redirects++) {
+      try {
+        await assertPublicTarget(current, allowPrivate);
+      } catch (error) {
+        res.statusCode = 403;
+        res.end(error instanceof Error ? error.message : 'Forbidden target');
+        return;
+      }
+
+      upstream = await fetch(current, {
+        headers: {
+          'User-Agent': PAGE_FETCH_USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+        },
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      const location = upstream.headers.get('location');
+      if (upstream.status < 300 || upstream.status >= 400 || !location) break;
+      if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects');
+      current = new URL(location, current);
+    }
+
+    res.statusCode = upstream.status;
+    res.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/octet-stream');
+    res.setHeader('X-Final-Url', current.href);
+    const robotsTag = upstream.headers.get('x-robots-tag');
+    if (robotsTag) res.setHeader('X-Robots-Tag', robotsTag);
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    res.statusCode = 502;
+    res.end(`Failed to fetch ${target}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+const pageFetchProxy = (allowPrivate: boolean): Plugin => ({
+  name: 'page-fetch-proxy',
+  configureServer(server) {
+    server.middlewares.use('/api/fetch', createPageFetchHandler(allowPrivate));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use('/api/fetch', createPageFetchHandler(allowPrivate));
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // The page fetch proxy should not be reachable from the network; pass --host to expose it
+        host: 'localhost',
       },
-      plugins: [react()],
+      plugins: [react(), pageFetchProxy(env.PAGE_FETCH_ALLOW_PRIVATE === 'true')],
       define: {
-        'process.env.VITE_GEMINI_API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY)
+        'process.env.VITE_GEMINI_API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY),
+        'process.env.VITE_LLM_PROVIDER': JSON.stringify(env.VITE_LLM_PROVIDER),
+        'process.env.VITE_LLM_MODEL': JSON.stringify(env.VITE_LLM_MODEL),
+        'process.env.VITE_LLM_BASE_URL': JSON.stringify(env.VITE_LLM_BASE_URL),
+        'process.env.VITE_LLM_API_KEY': JSON.stringify(env.VITE_LLM_API_KEY),
+        'process.env.VITE_LLM_MAX_INPUT_TOKENS': JSON.stringify(env.VITE_LLM_MAX_INPUT_TOKENS),
+        'process.env.VITE_VALIDATION_RULES': JSON.stringify(env.VITE_VALIDATION_RULES)
       },
       resolve: {
         alias: {